@@ -40,9 +40,10 @@ export default function ReadmePage() {
                 <strong>Contingency Table Summary:</strong> The calculator first constructs a contingency table (k×2, where k is the number of categories). It displays:
                 <ul className="list-circle space-y-1 pl-5 mt-1">
                   <li>Observed counts (# Experienced, # Not Experienced, Row Total) for each category.</li>
-                  <li>The percentage of individuals in each category who experienced the outcome.</li>
+                  <li>The percentage of individuals in each category who experienced the outcome, with a confidence interval at a configurable level (default 95%). Available methods are Wilson (default), Clopper–Pearson (exact), Agresti–Coull, Jeffreys and Wald. Wilson and Jeffreys behave well for small groups; Wald is included for comparison but can be badly off when counts are small or rates are near 0% or 100%.</li>
                   <li>Expected counts under the null hypothesis (assuming no difference between groups).</li>
-                  <li>Each category&apos;s contribution to the overall Chi-square statistic (O-E)²/E.</li>
+                  <li>Each cell&apos;s contribution to the overall Chi-square statistic (O-E)²/E, for both the &quot;Experienced&quot; and &quot;Did Not Experience&quot; columns, along with their row sum. The contributions over all cells add up to the overall Pearson statistic.</li>
+                  <li>Pearson residuals (O-E)/√E and adjusted standardized residuals (Haberman) for both cells of each category (# Did NOT Experience and # Experienced), signed and color-coded: a significant positive Experienced residual means the category experienced the outcome more often than expected, a negative one less often. The adjusted residuals of a row mirror each other, while the Pearson residuals differ because the expected counts do. The per-category p-values are corrected with the selected multiple-comparison method within each column. This is the standard post-hoc analysis after a significant overall Chi-square; all residuals and p-values are included in the CSV export.</li>
                 </ul>
               </li>
               <li>
@@ -51,7 +52,11 @@ export default function ReadmePage() {
                   <li>Chi-Square Test (Pearson): The standard test for independence in contingency tables. Calculates a test statistic and p-value.</li>
                   <li>Chi-Square Test (Yates&apos; Correction): A variation of the Chi-square test, often used for 2x2 tables but applied here for comparison, which adjusts the formula slightly.</li>
                   <li>G-Test (Likelihood Ratio): An alternative test based on likelihood ratios, often preferred when expected counts are low.</li>
+                  <li>Exact Test (Freeman–Halton): Enumerates every table with the observed margins and sums the probabilities of tables no more likely than the observed one. Off by default; turn it on for small tables. Skipped when the table has too many possible configurations.</li>
+                  <li>Monte Carlo Test: A permutation p-value for the Pearson statistic, from a configurable number of seeded random tables with the observed margins. Off by default (0 replicates). The simulation standard error and the seed are reported so the result can be reproduced exactly.</li>
                   <li>Degrees of Freedom (df): Calculated as k - 1, used to determine the p-value for the overall tests.</li>
+                  <li>Cochran–Armitage Trend Test: For ordered categories (age bands, income quintiles, tenure buckets), tests whether the rate rises or falls steadily with the category scores using a single 1-df test. Scores default to each category&apos;s position and can be set per category. The linear-by-linear association statistic and the departure from a linear trend (the rest of the Pearson statistic, k - 2 df) are reported alongside.</li>
+                  <li>Cramér&apos;s V: The strength of the association for the whole table, √(X²/N), with a confidence interval from the noncentral Chi-square distribution and the Bergsma bias-corrected value. Labelled small (≥ 0.1), medium (≥ 0.3) or large (≥ 0.5). With very large samples a trivial difference can be statistically significant; V shows whether it is also substantial.</li>
                 </ul>
                 The interpretation (&quot;Statistically different&quot; or &quot;Not statistically different&quot;) is based on comparing the calculated p-value against the user-defined Significance Level (α).
               </li>
@@ -59,13 +64,61 @@ export default function ReadmePage() {
                 <strong>Pairwise Chi-Square Comparisons:</strong> To pinpoint which specific pairs of categories differ significantly, the calculator performs a 2x2 Chi-square test for every possible pair.
               </li>
               <li>
-                <strong>Bonferroni Correction:</strong> Because multiple comparisons increase the chance of false positives, the significance level (α) is adjusted using the Bonferroni method (α_bonf = α / C, where C is the total number of pairwise comparisons).
+                <strong>Fisher&apos;s Exact Test:</strong> As an alternative to the pairwise Chi-square test, each 2x2 comparison can use Fisher&apos;s exact test (two-sided, or one-sided &quot;less&quot;/&quot;greater&quot;). The &quot;Auto&quot; option uses Fisher&apos;s exact test only for pairs with an expected cell count below 5, where the Chi-square approximation breaks down. The test used for each pair is recorded in the report and the CSV export. One-sided tests read the row category against the column category in the matrix, and the category against the reference in the reference comparisons.
               </li>
               <li>
-                <strong>Results Matrix:</strong> The Bonferroni-corrected p-values for all pairs are displayed in a matrix. Significant p-values (less than α_bonf) are highlighted, indicating a potential disparity between that specific pair of groups.
+                <strong>Multiple Comparison Correction:</strong> Because multiple comparisons increase the chance of false positives, the pairwise p-values are adjusted with a selectable method: None, Bonferroni, Šidák, Holm, Hochberg, Hommel (family-wise error rate), or Benjamini–Hochberg / Benjamini–Yekutieli (false discovery rate). Bonferroni (p × C, where C is the number of comparisons) is the default and the most conservative of the family-wise methods; the FDR methods are better suited to exploratory screening across many categories.
               </li>
               <li>
-                <strong>Comparison to Reference Categories:</strong> The tool allows users to select one or more categories as a reference. It then displays the pairwise comparison results specifically between each non-reference group and the selected reference group(s), making it easy to focus on disparities relative to a baseline or majority group.
+                <strong>Results Matrix:</strong> The adjusted p-values for all pairs are displayed in a matrix. A pair is significant when its adjusted p-value is below α; significant pairs are highlighted, indicating a potential disparity between that specific pair of groups. Both raw and adjusted p-values are included in the CSV export.
+              </li>
+              <li>
+                <strong>Pairwise Effect Sizes:</strong> A p-value does not say how large a disparity is, so every pair also reports the risk difference in percentage points (Newcombe score interval), the risk ratio (log interval), and the odds ratio (Woolf interval, plus the conditional maximum likelihood estimate with its exact interval), along with the phi coefficient and Cohen&apos;s h (small ≥ 0.2, medium ≥ 0.5, large ≥ 0.8). An optional Haldane–Anscombe correction adds 0.5 to every cell of a pair&apos;s table that contains a zero, so the ratios and their intervals stay finite.
+              </li>
+              <li>
+                <strong>Achieved Power and Minimum Detectable Difference:</strong> &quot;Not statistically different&quot; is not the same as &quot;no disparity&quot;, especially for small categories. For every pair (in the matrix and in the reference comparisons) the report shows the minimum detectable difference (MDD): the smallest gap in percentage points the comparison could detect with 80% power given its actual counts and corrected α. A non-significant comparison is flagged as underpowered when its MDD exceeds the difference of interest (default 5 percentage points). For the overall test the MDD is the smallest spread between the highest and lowest rates that it detects with 80% power even in the least favourable case, where the gap lies between the two smallest categories and the rest sit at the pooled rate; it is judged against the same difference of interest. Stepwise and FDR corrections use their most stringent per-comparison α, so the MDD is conservative.
+              </li>
+              <li>
+                <strong>Fragility Index:</strong> A significant result can hinge on a handful of people. For every significant pair, the report gives the fragility index (FI) next to its p-value: the fewest outcome flips in the smaller category, toward the other category&apos;s rate, after which the adjusted p-value is no longer below α, using the same test and correction as the report. Flips are made one at a time, so the count is the first one that crosses α even when an exact test or a stepwise correction does not lose significance steadily. With a one-sided Fisher test, each cell of the matrix gets its own FI from its own direction&apos;s family of adjusted p-values. For a significant overall Chi-square test, flips are made one at a time in whichever category lowers the statistic most until it is no longer significant. Results with an FI below the fragility threshold (5 by default) are flagged with a warning.
+              </li>
+              <li>
+                <strong>Adverse Impact Analysis:</strong> An optional mode for hiring and promotion reviews. Each category&apos;s selection rate is divided by the rate of the highest-rate category (or a chosen comparator) to give an impact ratio, which is flagged when it falls below the four-fifths (0.8) threshold. A pooled two-proportion z-test checks whether the shortfall exceeds 2 standard deviations. The verdict combines both: adverse impact is indicated only when the disparity is practically and statistically significant.
+              </li>
+              <li>
+                <strong>Utilization Against Benchmarks:</strong> Workforce reports often compare each category&apos;s share of hires with an external benchmark, such as census labor-market availability, rather than with the other categories. In this mode each category carries a benchmark proportion, and the report compares its outcomes with the number expected if the total were shared out by benchmark: an exact binomial test (two-sided, corrected across categories with the selected method, plus the one-sided probability of a shortfall at least this large), its z-test approximation, and a Chi-square goodness-of-fit test across all categories (df = k - 1). The shortfall is the number of additional outcomes a category needs to reach its expected count, totalled over categories. Benchmarks that do not sum to 1 are rescaled, with a warning. The analysis has its own report section and CSV block.
+              </li>
+              <li>
+                <strong>Parity Gap Analysis:</strong> For remediation planning, the report can count how many people in each category would have needed a different outcome for the category to reach the overall rate and, for each comparison with a selected reference category, the reference rate (additional outcomes are shown as +, outcomes fewer as −, with the other categories&apos; counts held fixed). For significant reference comparisons it also gives the number of those changes after which the comparison is no longer significant, using the same test and re-applying the selected correction to the reference comparisons. Categories whose adjusted residual is significant get the same count against that residual test, corrected across categories; because the overall rate shifts with the category&apos;s own counts, it can take more changes than the gap to the original overall rate. A dedicated table shows the totals for the whole report, and the CSV export includes them.
+              </li>
+              <li>
+                <strong>Publication Mode (Small-Cell Suppression):</strong> For public-facing reports, counts from 1 to one below a threshold (10 by default) are suppressed in the Contingency Table Summary, the CSV export and the PDF. Complementary suppression then hides the smallest further counts needed so that no row, column or total lets a suppressed count be recovered by subtraction. Suppressed cells are shown as S everywhere, and statistics that could reveal them are withheld: the rates, intervals, expected counts and residuals of the affected categories, every comparison involving them, the overall tests and the sections computed from the whole table (bootstrap, utilization, parity gap). Strata, outcome levels, row-level results and period trends are left out of the published report. The calculations still run on the true counts; the mode only changes what is shown and exported.
+              </li>
+              <li>
+                <strong>Differentially Private Release:</strong> For datasets that need a formal privacy guarantee (e.g., student discipline or health outcomes), the category counts can be released with differential privacy. Each count of the table gets two-sided geometric (discrete Laplace) noise with scale 1/ε for a privacy budget ε you choose, negative counts are released as zero, and the whole report is then calculated from the released counts, so every statistic in it inherits the guarantee. A dedicated section states the budget and the noise per count, and for each category the standard error the noise adds to its rate and an interval that includes it. For each pair of categories it gives the risk difference and impact ratio with intervals and a corrected z-test whose errors include the noise, and flags comparisons that are significant in the report but not once the noise is counted; the report&apos;s own tests treat the released counts as exact. Strata, outcome levels, row-level records and periods are not released. The CSV export records ε and the seed, so the release can be reproduced; keep the seed confidential, as together with the released counts it reveals the true ones.
+              </li>
+              <li>
+                <strong>Bayesian Comparison:</strong> An optional alternative to p-values. Each category&apos;s rate gets a Beta prior (uniform Beta(1, 1) by default; Beta(0.5, 0.5) is the Jeffreys prior), and the report shows the posterior mean and credible interval at the selected confidence level. For each pair it gives the posterior probability that one category&apos;s rate is lower than the other&apos;s, and the probability that the ratio of the rates falls below a practical threshold (0.8 by default) in either direction, e.g. &quot;a 96% probability that Group X&apos;s rate is below four-fifths of Group Y&apos;s&quot;. The probabilities are integrated over the posterior quantiles rather than simulated, so they are the same on every run and stay accurate when a posterior piles up at 0% or 100%.
+              </li>
+              <li>
+                <strong>Multi-Level Outcomes (k×m Tables):</strong> Outcomes with more than two levels (e.g., approved / approved with conditions / denied) can be entered with their own labels. The full table gets the Pearson Chi-square and G-test with (k - 1)(m - 1) degrees of freedom, Cramér&apos;s V, an adjusted residual for every cell, a 2×m test for every pair of categories and a test of each outcome level against all others, each family corrected with the selected method. The rest of the report compares a chosen focus level with all other levels combined; a binary outcome is the two-level special case.
+              </li>
+              <li>
+                <strong>Covariate-Adjusted Disparity (Logistic Regression):</strong> Aggregate counts cannot account for legitimate factors such as qualifications or credit score. Upload row-level records as a CSV file, choose the category column, the outcome column (and which value means the outcome was experienced) and any covariates, and the category counts are filled in from the records. The report then fits logistic regressions of the outcome on the categories (dummy-coded against a selectable reference category) with and without the covariates, and shows the crude and adjusted odds ratios side by side with Wald intervals, Wald tests and likelihood ratio tests per category. Numeric covariates enter linearly, text covariates are dummy-coded, and records with missing covariate values are left out.
+              </li>
+              <li>
+                <strong>Stratified Analysis (Cochran–Mantel–Haenszel):</strong> When a third factor such as department, site or year could confound the comparison, counts can be entered separately for each stratum. The report then sets the crude Chi-square test of the collapsed table next to the generalized Cochran–Mantel–Haenszel test, which compares the categories within each stratum (df = k - 1). For every pair it shows the crude and the Mantel–Haenszel pooled odds ratios side by side (Robins–Breslow–Greenland interval), the Mantel–Haenszel test corrected with the selected method, and the Breslow–Day test (with Tarone&apos;s correction) of whether the odds ratio is the same in every stratum. Pairs whose odds ratio moves to the other side of 1 after adjustment are flagged as an instance of Simpson&apos;s paradox.
+              </li>
+              <li>
+                <strong>Equivalence Tests (TOST):</strong> A non-significant test is not evidence that two categories are treated alike. To show parity affirmatively, enable the two one-sided tests procedure and set an equivalence margin, either on the risk difference (± percentage points, 5 by default; Agresti–Caffo standard error) or on the risk ratio (a bound m below 1 for the range m to 1/m, 0.8 by default; log interval, with 0.5 added to every cell when a category has no outcomes). Each pair is labelled &quot;equivalent&quot; when both one-sided tests show the effect lies inside the range, &quot;different&quot; when it lies significantly outside the range, and &quot;inconclusive&quot; otherwise, with p-values corrected over all pairs by the selected method. The verdicts appear in their own matrix next to the pairwise p-value matrix, with each pair&apos;s estimate and (1 − 2α) interval, and the margin and method are recorded in the report parameters and the CSV export.
+              </li>
+              <li>
+                <strong>Bootstrap Intervals:</strong> Optional seeded bootstrap intervals for statistics that have no convenient closed-form interval: the impact ratio of each category against the comparator (the adverse impact comparator, or the highest-rate category), the risk difference of every pair, Cramér&apos;s V, and each category&apos;s rank by rate. Without row-level data the k×2 table is redrawn from a multinomial with the observed cell proportions (parametric bootstrap); with row-level data the records are resampled with replacement (nonparametric bootstrap). The report gives the bootstrap standard error, the percentile interval and the bias-corrected and accelerated (BCa) interval, whose acceleration is estimated by the jackknife, plus the probability that each category alone has the highest rate. The replicate count (2,000 by default) and the seed are set on the input form; the seed is recorded so the intervals can be reproduced, and the resampling runs in a background worker so the page stays responsive.
+              </li>
+              <li>
+                <strong>Multi-Period Trends:</strong> Counts can be entered for several periods (e.g., quarters or years) in chronological order. The full report is run for each period, and a selector switches the report between them. A trend view charts each category&apos;s rate over time and, for each category against the selected reference(s) (or every other category when none is selected), tests whether the disparity changed between consecutive periods and between the first and last period: the change in the rate ratio (ratio of rate ratios, log interval) and the difference in differences of the rates in percentage points (Wald z-test). The p-values of these changes are corrected together with the selected method, and the CSV export adds long-format tables with one row per period and category or pair.
+              </li>
+              <li>
+                <strong>Comparison to Reference Categories:</strong> The tool allows users to select one or more categories as a reference. It then displays the pairwise comparison results specifically between each non-reference group and the selected reference group(s), making it easy to focus on disparities relative to a baseline or majority group. Each row shows both rates, their difference in percentage points, and the raw and corrected p-values; the selected correction for this section is applied only over the reference comparisons (non-reference categories × references), not over every pair in the matrix.
               </li>
             </ul>
           </section>
@@ -74,11 +127,13 @@ export default function ReadmePage() {
             <h2 className="text-xl font-semibold mb-2 text-secondary-foreground">Functionalities</h2>
             <ul className="list-disc space-y-2 pl-5">
               <li><strong>Dynamic Input Form:</strong> Add, remove, and name categories. Input the counts for &quot;Experienced Outcome&quot; and &quot;Did Not Experience Outcome&quot; for each category.</li>
+              <li><strong>Row-Level Data Upload:</strong> Load one record per row from a CSV file instead of typing counts; the counts per category are tallied from the records.</li>
               <li><strong>Significance Level (α):</strong> Set the threshold for statistical significance (default is 0.05). Results update dynamically when changed.</li>
               <li><strong>Reference Category Selection:</strong> Choose one or more categories to serve as the baseline for focused comparisons using checkboxes.</li>
               <li><strong>Statistical Report Tab:</strong> View the detailed results, including the Contingency Table Summary, Overall Test Statistics, the Pairwise Comparison Matrix, and Comparisons to Selected Reference(s).</li>
+              <li><strong>Planning Tab:</strong> Before collecting data, enter the anticipated baseline rate for each category (or copy the rates from the input data), the disparity to detect as a difference in percentage points or a ratio, α, the correction method and the target power. The planner reports the sample needed per category for the pairwise tests (two-proportion test at the corrected per-comparison α) and for the overall k×2 test (noncentral Chi-square), the power achieved for a given sample, and power curves for both tests. Each category is shifted by the target effect in turn, and the plan follows the least favourable one.</li>
               <li><strong>Input Validation:</strong> Provides feedback for invalid inputs (e.g., non-numeric counts, alpha outside range, insufficient categories).</li>
-              <li><strong>Interpretation Guidance:</strong> Provides brief textual interpretations alongside p-values to help understand the results.</li>
+              <li><strong>Interpretation Guidance:</strong> Provides brief textual interpretations alongside p-values to help understand the results, together with small/medium/large effect size labels (Cramér&apos;s V overall, Cohen&apos;s h for each pair) to separate practical from statistical significance.</li>
               <li><strong>CSV Export:</strong> Download the input parameters and the full statistical report (all tables and results) as a comma-separated values file.</li>
               <li><strong>PDF Export:</strong> Download a snapshot of the generated statistical report section as a PDF document.</li>
               <li><strong>Reset Form:</strong> Clear all inputs and results to start a new analysis.</li>
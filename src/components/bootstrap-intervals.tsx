@@ -0,0 +1,104 @@
+"use client";
+
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+import {
+    type BootstrapResults,
+    type BootstrapInterval,
+    type ConfidenceInterval,
+    formatDecimal,
+    formatPercent
+} from "@/lib/calculations";
+
+
+interface BootstrapIntervalsProps {
+  bootstrap: BootstrapResults;
+}
+
+const formatInterval = (ci: ConfidenceInterval | null, decimalPlaces: number) =>
+    ci ? `${formatDecimal(ci.lower, decimalPlaces)} – ${formatDecimal(ci.upper, decimalPlaces)}` : 'N/A';
+
+interface StatisticRow {
+  key: string;
+  label: string;
+  interval: BootstrapInterval;
+  decimalPlaces: number;
+}
+
+
+// --- Component ---
+export default function BootstrapIntervals({ bootstrap }: BootstrapIntervalsProps) {
+  const level = `${formatDecimal(bootstrap.confidenceLevel * 100, 0)}%`;
+  const rows: StatisticRow[] = [
+      ...bootstrap.impactRatios
+          .filter(row => row.group !== bootstrap.impactComparator)
+          .map(row => ({ key: `${row.group}-impact`, label: `Impact ratio: ${row.group} / ${bootstrap.impactComparator}`, interval: row, decimalPlaces: 3 })),
+      ...bootstrap.riskDifferences
+          .map(row => ({ key: `${row.group1}-${row.group2}-difference`, label: `Risk difference: ${row.group1} − ${row.group2} (pp)`, interval: row, decimalPlaces: 2 })),
+      { key: 'cramers-v', label: "Cramér's V", interval: bootstrap.cramersV, decimalPlaces: 3 },
+  ];
+
+  return (
+      <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-primary mb-2">Bootstrap Intervals</h3>
+          <p className="text-xs text-muted-foreground">
+              {bootstrap.replicates.toLocaleString()} {bootstrap.method === 'nonparametric' ? 'resamples of the row-level records' : 'multinomial draws of the table'} (seed {bootstrap.seed}).
+              Percentile intervals take the quantiles of the replicates; BCa intervals also correct for bias and skewness, using a jackknife estimate of the acceleration.
+          </p>
+          <div className="overflow-x-auto rounded-md border shadow-sm">
+              <Table>
+                  <TableHeader className="table-header-dark">
+                      <TableRow className="hover:bg-table-header-bg">
+                          <TableHead>Statistic</TableHead>
+                          <TableHead className="text-right">Estimate</TableHead>
+                          <TableHead className="text-right">Bootstrap SE</TableHead>
+                          <TableHead className="text-right">{level} Percentile CI</TableHead>
+                          <TableHead className="text-right">{level} BCa CI</TableHead>
+                      </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                      {rows.map(row => (
+                          <TableRow key={row.key} className="table-row-alt hover:bg-muted/50">
+                              <TableCell className="font-medium py-2 px-4">{row.label}</TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint">{formatDecimal(row.interval.estimate, row.decimalPlaces)}</TableCell>
+                              <TableCell className="text-right py-2 px-4">{formatDecimal(row.interval.standardError, row.decimalPlaces)}</TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatInterval(row.interval.percentile, row.decimalPlaces)}</TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatInterval(row.interval.bca, row.decimalPlaces)}</TableCell>
+                          </TableRow>
+                      ))}
+                  </TableBody>
+              </Table>
+          </div>
+          <div className="overflow-x-auto rounded-md border shadow-sm">
+              <Table>
+                  <TableHeader className="table-header-dark">
+                      <TableRow className="hover:bg-table-header-bg">
+                          <TableHead>Category</TableHead>
+                          <TableHead className="text-right">Rank by Rate</TableHead>
+                          <TableHead className="text-right">{level} Percentile CI</TableHead>
+                          <TableHead className="text-right">{level} BCa CI</TableHead>
+                          <TableHead className="text-right">P(Highest Rate)</TableHead>
+                      </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                      {bootstrap.rankings.map(row => (
+                          <TableRow key={`${row.group}-rank`} className="table-row-alt hover:bg-muted/50">
+                              <TableCell className="font-medium py-2 px-4">{row.group}</TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint">{formatDecimal(row.estimate, 1)}</TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatInterval(row.percentile, 1)}</TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatInterval(row.bca, 1)}</TableCell>
+                              <TableCell className="text-right py-2 px-4">{formatPercent(row.probabilityHighest * 100)}</TableCell>
+                          </TableRow>
+                      ))}
+                  </TableBody>
+              </Table>
+          </div>
+          <p className="text-xs text-muted-foreground italic mt-2">
+              Impact ratios divide each category&apos;s rate by the rate of {bootstrap.impactComparator}, which stays the comparator in every replicate.
+              Rank 1 is the highest rate and tied categories share the average rank; P(Highest Rate) is the share of replicates in which the category alone has the highest rate.
+              BCa is shown as N/A when every replicate falls on the same side of the estimate or the jackknife is undefined.
+          </p>
+      </div>
+  );
+}
@@ -18,27 +18,76 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Trash2, PlusCircle, Download, RotateCcw, AlertCircle, FileDown, FileText, Info } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import Link from 'next/link';
+import PowerPlanner from "@/components/power-planner";
+import PeriodTrend from "@/components/period-trend";
+import BootstrapIntervals from "@/components/bootstrap-intervals";
+import UtilizationAnalysis from "@/components/utilization-analysis";
+import ParityGap from "@/components/parity-gap";
+import PrivacyRelease from "@/components/privacy-release";
+import RowLevelDataInput, { type RowLevelGroupCounts } from "@/components/row-level-data-input";
 
 
 import {
     performMultiComparisonReport,
+    performMultiPeriodReport,
+    performDifferentiallyPrivateReport,
+    applySmallCellSuppression,
+    SUPPRESSED_MARKER,
     type MultiComparisonResults,
+    type MultiPeriodResults,
     type GroupInput,
     type ContingencySummaryData,
     type OverallTestStats,
     type PairwiseResultsMatrix,
     type ContributionDetail,
+    type ReferenceComparison,
+    type PairwiseComparison,
+    pairwiseTestLabel,
+    correctionLabel,
+    rateCiMethodLabel,
+    type ConfidenceInterval,
+    type EffectEstimate,
+    type AdverseImpactGroupResult,
+    type StratifiedPairResult,
+    type OutcomePairComparison,
+    type BayesianGroupPosterior,
+    type BayesianPairComparison,
+    type RowLevelInputs,
+    type AdjustedGroupComparison,
+    type OutcomeLevelComparison,
+    adverseImpactVerdictLabel,
+    type EquivalenceResults,
+    equivalenceVerdictLabel,
+    type EffectMagnitude,
+    effectMagnitudeLabel,
     formatScientific,
     formatDecimal,
     formatPercent
 } from "@/lib/calculations";
 import { exportToCSV, type ExportFormValues } from '@/lib/utils';
+import type { BootstrapWorkerRequest, BootstrapWorkerResponse } from '@/lib/bootstrap.worker';
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 
 
 // --- Zod Schema Definition ---
+const stratumCountSchema = z.object({
+  experienced: z.coerce
+    .number({ invalid_type_error: "Experienced count must be a number" })
+    .int("Experienced count must be an integer")
+    .nonnegative("Experienced count cannot be negative"),
+  total: z.coerce
+    .number({ invalid_type_error: "Total count must be a number" })
+    .int("Total count must be an integer")
+    .nonnegative("Total count cannot be negative"),
+}).refine(data => data.experienced <= data.total, {
+  message: "Experienced count cannot exceed total count.",
+  path: ["experienced"],
+});
+
 const groupSchema = z.object({
   name: z.string().min(1, "Category name cannot be empty"),
   experienced: z.coerce
@@ -49,6 +98,26 @@ const groupSchema = z.object({
     .number({ invalid_type_error: "Total count must be a number" })
     .int("Total count must be an integer")
     .nonnegative("Total count cannot be negative"),
+  isReference: z.boolean().default(false),
+  score: z.preprocess(
+    val => (val === '' || val === null || val === undefined ? undefined : Number(val)),
+    z.number({ invalid_type_error: "Score must be a number" }).finite("Score must be a finite number").optional()
+  ),
+  benchmark: z.preprocess(
+    val => (val === '' || val === null || val === undefined ? undefined : Number(val)),
+    z.number({ invalid_type_error: "Benchmark must be a number" })
+      .gt(0, "Benchmark must be greater than 0")
+      .lte(1, "Benchmark must be at most 1")
+      .optional()
+  ),
+  strata: z.array(stratumCountSchema).default([]), // Counts per stratum, in the order of the form's strata
+  periods: z.array(stratumCountSchema).default([]), // Counts per period, in the order of the form's periods
+  outcomeCounts: z.array(
+    z.coerce
+      .number({ invalid_type_error: "Outcome count must be a number" })
+      .int("Outcome count must be an integer")
+      .nonnegative("Outcome count cannot be negative")
+  ).default([]), // Counts per outcome level, in the order of the form's outcome labels
 }).refine(data => data.experienced <= data.total, {
   message: "Experienced count cannot exceed total count.",
   path: ["experienced"],
@@ -63,6 +132,108 @@ const formSchema = z.object({
     .lte(1, "Significance Level must be less than or equal to 1")
     .refine(val => val > 0, { message: "Significance Level must be greater than 0" })
     .default(0.05),
+  pairwiseMethod: z.enum(['chiSquare', 'fisher', 'auto']).default('chiSquare'),
+  fisherAlternative: z.enum(['two-sided', 'less', 'greater']).default('two-sided'),
+  correction: z.enum(['none', 'bonferroni', 'sidak', 'holm', 'hochberg', 'hommel', 'BH', 'BY']).default('bonferroni'),
+  confidenceLevel: z.coerce
+    .number({ invalid_type_error: "Confidence level must be a number" })
+    .gt(0, "Confidence level must be greater than 0")
+    .lt(1, "Confidence level must be less than 1")
+    .default(0.95),
+  rateCiMethod: z.enum(['wilson', 'clopperPearson', 'agrestiCoull', 'jeffreys', 'wald']).default('wilson'),
+  haldaneCorrection: z.boolean().default(false),
+  adverseImpactEnabled: z.boolean().default(false),
+  adverseImpactComparator: z.string().default(''), // Empty selects the highest-rate group
+  adverseImpactThreshold: z.coerce
+    .number({ invalid_type_error: "Impact ratio threshold must be a number" })
+    .gt(0, "Impact ratio threshold must be greater than 0")
+    .lte(1, "Impact ratio threshold must be at most 1")
+    .default(0.8),
+  bayesianEnabled: z.boolean().default(false),
+  bayesianPriorAlpha: z.coerce
+    .number({ invalid_type_error: "Prior α must be a number" })
+    .gt(0, "Prior α must be greater than 0")
+    .default(1),
+  bayesianPriorBeta: z.coerce
+    .number({ invalid_type_error: "Prior β must be a number" })
+    .gt(0, "Prior β must be greater than 0")
+    .default(1),
+  bayesianRatioThreshold: z.coerce
+    .number({ invalid_type_error: "Ratio threshold must be a number" })
+    .gt(0, "Ratio threshold must be greater than 0")
+    .default(0.8),
+  orderedCategories: z.boolean().default(false),
+  utilizationEnabled: z.boolean().default(false),
+  parityGapEnabled: z.boolean().default(false),
+  publicationMode: z.boolean().default(false),
+  suppressionThreshold: z.coerce
+    .number({ invalid_type_error: "Suppression threshold must be a number" })
+    .int("Suppression threshold must be an integer")
+    .min(1, "Suppression threshold must be at least 1")
+    .default(10),
+  privacyEnabled: z.boolean().default(false),
+  privacyEpsilon: z.coerce
+    .number({ invalid_type_error: "Privacy budget must be a number" })
+    .gt(0, "Privacy budget must be greater than 0")
+    .default(1),
+  privacySeed: z.preprocess(
+    val => (val === '' || val === null || val === undefined ? undefined : Number(val)),
+    z.number({ invalid_type_error: "Seed must be a number" })
+      .int("Seed must be an integer")
+      .nonnegative("Seed cannot be negative")
+      .optional()
+  ),
+  differenceOfInterest: z.coerce
+    .number({ invalid_type_error: "Difference of interest must be a number" })
+    .gt(0, "Difference of interest must be greater than 0")
+    .lte(100, "Difference of interest must be at most 100 percentage points")
+    .default(5),
+  fragilityThreshold: z.coerce
+    .number({ invalid_type_error: "Fragility threshold must be a number" })
+    .int("Fragility threshold must be an integer")
+    .min(1, "Fragility threshold must be at least 1")
+    .default(5),
+  exactOverallTest: z.boolean().default(false),
+  monteCarloReplicates: z.coerce
+    .number({ invalid_type_error: "Replicates must be a number" })
+    .int("Replicates must be an integer")
+    .min(0, "Replicates cannot be negative")
+    .max(1000000, "At most 1,000,000 replicates are supported")
+    .default(0),
+  monteCarloSeed: z.preprocess(
+    val => (val === '' || val === null || val === undefined ? undefined : Number(val)),
+    z.number({ invalid_type_error: "Seed must be a number" })
+      .int("Seed must be an integer")
+      .nonnegative("Seed cannot be negative")
+      .optional()
+  ),
+  equivalenceEnabled: z.boolean().default(false),
+  equivalenceScale: z.enum(['difference', 'ratio']).default('difference'),
+  equivalenceMargin: z.coerce
+    .number({ invalid_type_error: "Equivalence margin must be a number" })
+    .gt(0, "Equivalence margin must be greater than 0")
+    .default(5),
+  bootstrapEnabled: z.boolean().default(false),
+  bootstrapReplicates: z.coerce
+    .number({ invalid_type_error: "Replicates must be a number" })
+    .int("Replicates must be an integer")
+    .min(1, "At least 1 replicate is required")
+    .max(100000, "At most 100,000 replicates are supported")
+    .default(2000),
+  bootstrapSeed: z.preprocess(
+    val => (val === '' || val === null || val === undefined ? undefined : Number(val)),
+    z.number({ invalid_type_error: "Seed must be a number" })
+      .int("Seed must be an integer")
+      .nonnegative("Seed cannot be negative")
+      .optional()
+  ),
+  stratifiedEnabled: z.boolean().default(false),
+  periodsEnabled: z.boolean().default(false),
+  periods: z.array(z.object({ name: z.string().min(1, "Period name cannot be empty") })).default([]),
+  multiOutcomeEnabled: z.boolean().default(false),
+  outcomeLabels: z.array(z.object({ label: z.string().min(1, "Outcome label cannot be empty") })).default([]),
+  focusOutcome: z.coerce.number().int().nonnegative().default(0), // Index of the outcome level analysed as "experienced"
+  strata: z.array(z.object({ name: z.string().min(1, "Stratum name cannot be empty") })).default([]),
   groups: z.array(groupSchema).min(2, "At least two categories are required"),
 });
 
@@ -72,10 +243,15 @@ type FormValues = z.infer<typeof formSchema>;
 // --- Component ---
 export default function DisparityCalculator() {
   const { toast } = useToast();
-  const [reportResults, setReportResults] = useState<MultiComparisonResults | null>(null);
+  const [calculatedResults, setCalculatedResults] = useState<MultiComparisonResults | null>(null);
   const [calculationError, setCalculationError] = useState<string | null>(null);
   const reportRef = useRef<HTMLDivElement>(null);
   const [activeTab, setActiveTab] = useState<string>("input");
+  const [rowLevel, setRowLevel] = useState<RowLevelInputs | null>(null);
+  const [periodResults, setPeriodResults] = useState<MultiPeriodResults | null>(null);
+  const [selectedPeriod, setSelectedPeriod] = useState<number>(0);
+  const [bootstrapRunning, setBootstrapRunning] = useState<boolean>(false);
+  const bootstrapWorkerRef = useRef<Worker | null>(null);
 
   const defaultGroups: FormValues['groups'] = [];
 
@@ -84,16 +260,216 @@ export default function DisparityCalculator() {
     defaultValues: {
       reportTitle: "Statistical Disparity Report",
       alpha: 0.05,
+      pairwiseMethod: 'chiSquare',
+      fisherAlternative: 'two-sided',
+      correction: 'bonferroni',
+      confidenceLevel: 0.95,
+      rateCiMethod: 'wilson',
+      haldaneCorrection: false,
+      adverseImpactEnabled: false,
+      adverseImpactComparator: '',
+      adverseImpactThreshold: 0.8,
+      bayesianEnabled: false,
+      bayesianPriorAlpha: 1,
+      bayesianPriorBeta: 1,
+      bayesianRatioThreshold: 0.8,
+      orderedCategories: false,
+      utilizationEnabled: false,
+      parityGapEnabled: false,
+      publicationMode: false,
+      suppressionThreshold: 10,
+      privacyEnabled: false,
+      privacyEpsilon: 1,
+      privacySeed: undefined,
+      differenceOfInterest: 5,
+      fragilityThreshold: 5,
+      exactOverallTest: false,
+      monteCarloReplicates: 0,
+      monteCarloSeed: undefined,
+      equivalenceEnabled: false,
+      equivalenceScale: 'difference',
+      equivalenceMargin: 5,
+      bootstrapEnabled: false,
+      bootstrapReplicates: 2000,
+      bootstrapSeed: undefined,
+      stratifiedEnabled: false,
+      periodsEnabled: false,
+      periods: [],
+      strata: [],
+      multiOutcomeEnabled: false,
+      outcomeLabels: [],
+      focusOutcome: 0,
       groups: defaultGroups,
     },
      mode: "onChange",
   });
 
-  const { fields, append, remove } = useFieldArray({
+  // Publication mode shows a suppressed copy in the report and its CSV and PDF exports; the calculations use the true counts
+  const publicationMode = form.watch('publicationMode');
+  const suppressionThreshold = Number(form.watch('suppressionThreshold'));
+  const reportResults = useMemo(() => {
+      if (!calculatedResults || !publicationMode) return calculatedResults;
+      const threshold = Number.isInteger(suppressionThreshold) && suppressionThreshold >= 1 ? suppressionThreshold : 10;
+      return applySmallCellSuppression(calculatedResults, { threshold });
+  }, [calculatedResults, publicationMode, suppressionThreshold]);
+
+  const { fields, append, remove, replace } = useFieldArray({
     control: form.control,
     name: "groups",
   });
 
+  const { fields: stratumFields, append: appendStratum, remove: removeStratum } = useFieldArray({
+    control: form.control,
+    name: "strata",
+  });
+
+  // With strata, a category's counts are the sums of its stratum counts
+  const syncStratumTotals = (groupIndex: number) => {
+      const counts = form.getValues(`groups.${groupIndex}.strata`) ?? [];
+      const experienced = counts.reduce((sum, c) => sum + (Number(c.experienced) || 0), 0);
+      const total = counts.reduce((sum, c) => sum + (Number(c.total) || 0), 0);
+      form.setValue(`groups.${groupIndex}.experienced`, experienced, { shouldValidate: true });
+      form.setValue(`groups.${groupIndex}.total`, total, { shouldValidate: true });
+  };
+
+  const handleAddStratum = () => {
+      const existingNames = form.getValues('strata').map(s => s.name);
+      let newName = `Stratum ${stratumFields.length + 1}`;
+      let suffix = 1;
+      while (existingNames.includes(newName)) {
+          newName = `Stratum ${stratumFields.length + 1}-${suffix++}`;
+      }
+      appendStratum({ name: newName });
+      form.getValues('groups').forEach((group, index) => {
+          form.setValue(`groups.${index}.strata`, [...(group.strata ?? []), { experienced: 0, total: 0 }]);
+      });
+  };
+
+  const { fields: outcomeFields, append: appendOutcome, remove: removeOutcome } = useFieldArray({
+    control: form.control,
+    name: "outcomeLabels",
+  });
+
+  // With outcome levels, "experienced" is the focus level and the total is the sum over all levels
+  const syncOutcomeTotals = (groupIndex: number) => {
+      const counts = (form.getValues(`groups.${groupIndex}.outcomeCounts`) ?? []).map(c => Number(c) || 0);
+      form.setValue(`groups.${groupIndex}.experienced`, counts[form.getValues('focusOutcome')] ?? 0, { shouldValidate: true });
+      form.setValue(`groups.${groupIndex}.total`, counts.reduce((sum, c) => sum + c, 0), { shouldValidate: true });
+  };
+
+  // Starts from the binary split, which is the two-level special case
+  const handleMultiOutcomeToggle = (enabled: boolean) => {
+      if (enabled && form.getValues('outcomeLabels').length === 0) {
+          appendOutcome([{ label: 'Experienced' }, { label: 'Did Not Experience' }]);
+          form.setValue('focusOutcome', 0);
+          form.getValues('groups').forEach((group, index) => {
+              const experienced = Number(group.experienced) || 0;
+              form.setValue(`groups.${index}.outcomeCounts`, [experienced, (Number(group.total) || 0) - experienced]);
+          });
+      }
+      setCalculatedResults(null);
+      setCalculationError(null);
+  };
+
+  const handleAddOutcome = () => {
+      appendOutcome({ label: `Outcome ${outcomeFields.length + 1}` });
+      form.getValues('groups').forEach((group, index) => {
+          form.setValue(`groups.${index}.outcomeCounts`, [...(group.outcomeCounts ?? []), 0]);
+      });
+  };
+
+  const handleRemoveOutcome = (outcomeIndex: number) => {
+      removeOutcome(outcomeIndex);
+      const focus = form.getValues('focusOutcome');
+      if (focus === outcomeIndex) form.setValue('focusOutcome', 0);
+      else if (focus > outcomeIndex) form.setValue('focusOutcome', focus - 1);
+      form.getValues('groups').forEach((group, index) => {
+          form.setValue(`groups.${index}.outcomeCounts`, (group.outcomeCounts ?? []).filter((_, i) => i !== outcomeIndex));
+          syncOutcomeTotals(index);
+      });
+      setCalculatedResults(null);
+      setCalculationError(null);
+  };
+
+  const { fields: periodFields, append: appendPeriod, remove: removePeriod } = useFieldArray({
+    control: form.control,
+    name: "periods",
+  });
+
+  // With periods, a category's counts shown and checked in the form are those of the latest period
+  const syncPeriodTotals = (groupIndex: number) => {
+      const counts = form.getValues(`groups.${groupIndex}.periods`) ?? [];
+      const latest = counts[counts.length - 1];
+      form.setValue(`groups.${groupIndex}.experienced`, Number(latest?.experienced) || 0, { shouldValidate: true });
+      form.setValue(`groups.${groupIndex}.total`, Number(latest?.total) || 0, { shouldValidate: true });
+  };
+
+  const handleAddPeriod = () => {
+      const existingNames = form.getValues('periods').map(p => p.name);
+      let newName = `Period ${periodFields.length + 1}`;
+      let suffix = 1;
+      while (existingNames.includes(newName)) {
+          newName = `Period ${periodFields.length + 1}-${suffix++}`;
+      }
+      appendPeriod({ name: newName });
+      form.getValues('groups').forEach((group, index) => {
+          form.setValue(`groups.${index}.periods`, [...(group.periods ?? []), { experienced: 0, total: 0 }]);
+          syncPeriodTotals(index);
+      });
+  };
+
+  const handleRemovePeriod = (periodIndex: number) => {
+      removePeriod(periodIndex);
+      form.getValues('groups').forEach((group, index) => {
+          form.setValue(`groups.${index}.periods`, (group.periods ?? []).filter((_, i) => i !== periodIndex));
+          syncPeriodTotals(index);
+      });
+      setCalculatedResults(null);
+      setPeriodResults(null);
+      setCalculationError(null);
+  };
+
+  const handleSelectPeriod = (value: string) => {
+      const index = Number(value);
+      if (!periodResults?.periods[index]) return;
+      setSelectedPeriod(index);
+      setCalculatedResults(periodResults.periods[index].results);
+  };
+
+  // Row-level records replace the category counts with their tallies
+  const handleApplyRowLevel = (data: RowLevelInputs, counts: RowLevelGroupCounts[]) => {
+      form.setValue('multiOutcomeEnabled', false);
+      form.setValue('stratifiedEnabled', false);
+      form.setValue('periodsEnabled', false);
+      replace(counts.map(c => ({
+          name: c.name, experienced: c.experienced, total: c.total, isReference: false, score: undefined, benchmark: undefined,
+          strata: [], periods: [], outcomeCounts: [],
+      })));
+      setRowLevel(data);
+      setCalculatedResults(null);
+      setCalculationError(null);
+      toast({
+          title: "Row-Level Data Loaded",
+          description: `${data.records.length.toLocaleString()} records in ${counts.length} categories.`,
+      });
+  };
+
+  const handleClearRowLevel = () => {
+      setRowLevel(null);
+      setCalculatedResults(null);
+      setCalculationError(null);
+  };
+
+  const handleRemoveStratum = (stratumIndex: number) => {
+      removeStratum(stratumIndex);
+      form.getValues('groups').forEach((group, index) => {
+          form.setValue(`groups.${index}.strata`, (group.strata ?? []).filter((_, i) => i !== stratumIndex));
+          syncStratumTotals(index);
+      });
+      setCalculatedResults(null);
+      setCalculationError(null);
+  };
+
 
   const handleAlphaChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const value = e.target.value;
@@ -116,7 +492,7 @@ export default function DisparityCalculator() {
                  if (currentData.groups.length >= 2 && currentData.groups.every(g => g.experienced <= g.total)) {
                      onSubmit({...currentData, alpha: alphaValue } as FormValues);
                  } else {
-                     setReportResults(null);
+                     setCalculatedResults(null);
                       setCalculationError("Recalculation skipped: Group requirements not met or experienced > total.");
                  }
             } else if (!reportResults) {
@@ -142,23 +518,160 @@ export default function DisparityCalculator() {
   }, [fields, form]);
 
 
+  const stopBootstrap = () => {
+      bootstrapWorkerRef.current?.terminate();
+      bootstrapWorkerRef.current = null;
+      setBootstrapRunning(false);
+  };
+
+  // The bootstrap runs in a web worker; its intervals are merged into the report when they arrive
+  const runBootstrap = (request: BootstrapWorkerRequest) => {
+      stopBootstrap();
+      const worker = new Worker(new URL('../lib/bootstrap.worker.ts', import.meta.url));
+      bootstrapWorkerRef.current = worker;
+      setBootstrapRunning(true);
+      worker.onmessage = (event: MessageEvent<BootstrapWorkerResponse>) => {
+          if (bootstrapWorkerRef.current !== worker) return; // Superseded by a newer calculation
+          stopBootstrap();
+          const { results: bootstrap, error } = event.data;
+          if (error !== undefined) {
+              toast({ title: "Bootstrap Failed", description: error, variant: "destructive" });
+              return;
+          }
+          setCalculatedResults(current => (current ? { ...current, bootstrap: bootstrap ?? null } : current));
+          if (!bootstrap) {
+              toast({
+                  title: "Bootstrap Skipped",
+                  description: "Bootstrap intervals need at least two categories with observations and a comparator with a non-zero rate.",
+              });
+          }
+      };
+      worker.onerror = (event: ErrorEvent) => {
+          if (bootstrapWorkerRef.current !== worker) return;
+          stopBootstrap();
+          toast({ title: "Bootstrap Failed", description: event.message, variant: "destructive" });
+      };
+      worker.postMessage(request);
+  };
+
+  useEffect(() => () => bootstrapWorkerRef.current?.terminate(), []);
+
   const onSubmit = (data: FormValues) => {
     setCalculationError(null);
-    setReportResults(null);
+    setCalculatedResults(null);
+    setPeriodResults(null);
+    stopBootstrap();
 
     try {
       const groupsForCalculation: GroupInput[] = data.groups.map(g => ({
         name: g.name,
         experienced: g.experienced,
         notExperienced: g.total - g.experienced,
+        score: data.orderedCategories ? g.score : undefined,
+        benchmark: data.utilizationEnabled ? g.benchmark : undefined,
+        outcomeCounts: data.multiOutcomeEnabled ? data.outcomeLabels.map((_, i) => Number(g.outcomeCounts?.[i] ?? 0)) : undefined,
       }));
 
-      const results = performMultiComparisonReport({
+      const sharedOptions = {
         alpha: data.alpha ?? 0.05,
-        groups: groupsForCalculation,
-      });
+        referenceGroups: data.groups.filter(g => g.isReference).map(g => g.name),
+        pairwiseMethod: data.pairwiseMethod,
+        fisherAlternative: data.fisherAlternative,
+        correction: data.correction,
+        confidenceLevel: data.confidenceLevel,
+        rateCiMethod: data.rateCiMethod,
+        haldaneCorrection: data.haldaneCorrection,
+        adverseImpact: data.adverseImpactEnabled
+          ? {
+              comparatorGroup: data.adverseImpactComparator || undefined,
+              threshold: data.adverseImpactThreshold,
+            }
+          : undefined,
+        bayesian: data.bayesianEnabled
+          ? {
+              priorAlpha: data.bayesianPriorAlpha,
+              priorBeta: data.bayesianPriorBeta,
+              ratioThreshold: data.bayesianRatioThreshold,
+            }
+          : undefined,
+        equivalence: data.equivalenceEnabled
+          ? {
+              scale: data.equivalenceScale,
+              margin: data.equivalenceMargin,
+            }
+          : undefined,
+        exactOverallTest: data.exactOverallTest,
+        monteCarloReplicates: data.monteCarloReplicates,
+        monteCarloSeed: data.monteCarloSeed,
+        orderedCategories: data.orderedCategories,
+        utilization: data.utilizationEnabled,
+        parityGap: data.parityGapEnabled,
+        differenceOfInterest: data.differenceOfInterest,
+        fragilityThreshold: data.fragilityThreshold,
+      };
+
+      // A private release noises the category counts only, so it runs on the single table
+      const privacyActive = data.privacyEnabled;
+      const periodsActive = data.periodsEnabled && data.periods.length > 0 && !privacyActive;
+      let results: MultiComparisonResults;
+      if (privacyActive) {
+        results = performDifferentiallyPrivateReport({
+          ...sharedOptions,
+          groups: groupsForCalculation.map(g => ({ ...g, outcomeCounts: undefined })),
+          epsilon: data.privacyEpsilon,
+          privacySeed: data.privacySeed,
+        });
+      } else if (periodsActive) {
+        const multiPeriod = performMultiPeriodReport({
+          ...sharedOptions,
+          periods: data.periods.map((period, periodIndex) => ({
+            name: period.name,
+            groups: data.groups.map(g => {
+              const counts = g.periods?.[periodIndex] ?? { experienced: 0, total: 0 };
+              return { name: g.name, experienced: Number(counts.experienced), notExperienced: Number(counts.total) - Number(counts.experienced), score: data.orderedCategories ? g.score : undefined, benchmark: data.utilizationEnabled ? g.benchmark : undefined };
+            }),
+          })),
+        });
+        setPeriodResults(multiPeriod);
+        const latest = multiPeriod.periods.length - 1;
+        setSelectedPeriod(latest);
+        // Messages from every period, so a problem in an earlier period is not hidden by the latest one
+        const periodErrors = multiPeriod.periods.flatMap(p => p.results.errors.map(e => `${p.name}: ${e}`));
+        results = { ...multiPeriod.periods[latest].results, errors: [...multiPeriod.errors, ...periodErrors] };
+      } else {
+        results = performMultiComparisonReport({
+          ...sharedOptions,
+          groups: groupsForCalculation,
+          rowLevel: rowLevel ?? undefined,
+          strata: data.stratifiedEnabled && !data.multiOutcomeEnabled && data.strata.length > 0
+            ? data.strata.map((stratum, stratumIndex) => ({
+                name: stratum.name,
+                groups: data.groups.map(g => {
+                  const counts = g.strata?.[stratumIndex] ?? { experienced: 0, total: 0 };
+                  return { name: g.name, experienced: Number(counts.experienced), notExperienced: Number(counts.total) - Number(counts.experienced) };
+                }),
+              }))
+            : undefined,
+          outcomeLabels: data.multiOutcomeEnabled ? data.outcomeLabels.map(o => o.label) : undefined,
+          focusOutcome: data.multiOutcomeEnabled ? data.outcomeLabels[data.focusOutcome]?.label : undefined,
+        });
+      }
 
-      setReportResults(results);
+      setCalculatedResults(results);
+
+      const calculationFailed = results.errors.some(e => !e.toLowerCase().includes('warning:'));
+      if (data.bootstrapEnabled && !periodsActive && !calculationFailed) {
+        runBootstrap({
+          // A private release is bootstrapped from its released counts
+          groups: results.privacy
+            ? results.contingencySummary.map(g => ({ name: g.name, experienced: g.experienced, notExperienced: g.notExperienced }))
+            : groupsForCalculation,
+          options: { replicates: data.bootstrapReplicates, seed: data.bootstrapSeed },
+          confidenceLevel: data.confidenceLevel,
+          comparatorGroup: data.adverseImpactEnabled ? results.adverseImpact?.comparatorGroup : undefined,
+          rowLevel: results.privacy ? undefined : rowLevel ?? undefined,
+        });
+      }
 
         if (results.errors && results.errors.length > 0) {
             const criticalErrors = results.errors.filter(e => !e.toLowerCase().includes('warning:'));
@@ -214,14 +727,61 @@ export default function DisparityCalculator() {
     }
   };
 
+  const handleUseExactForSmallPairs = () => {
+      form.setValue('pairwiseMethod', 'auto', { shouldValidate: true });
+      onSubmit(form.getValues());
+  };
+
   const handleReset = () => {
      form.reset({
         reportTitle: "Statistical Disparity Report",
         alpha: 0.05,
+        pairwiseMethod: 'chiSquare',
+        fisherAlternative: 'two-sided',
+        correction: 'bonferroni',
+        confidenceLevel: 0.95,
+        rateCiMethod: 'wilson',
+        haldaneCorrection: false,
+        adverseImpactEnabled: false,
+        adverseImpactComparator: '',
+        adverseImpactThreshold: 0.8,
+        bayesianEnabled: false,
+        bayesianPriorAlpha: 1,
+        bayesianPriorBeta: 1,
+        bayesianRatioThreshold: 0.8,
+        orderedCategories: false,
+        utilizationEnabled: false,
+        parityGapEnabled: false,
+        publicationMode: false,
+        suppressionThreshold: 10,
+        privacyEnabled: false,
+        privacyEpsilon: 1,
+        privacySeed: undefined,
+        differenceOfInterest: 5,
+        fragilityThreshold: 5,
+        exactOverallTest: false,
+        monteCarloReplicates: 0,
+        monteCarloSeed: undefined,
+        equivalenceEnabled: false,
+        equivalenceScale: 'difference',
+        equivalenceMargin: 5,
+        bootstrapEnabled: false,
+        bootstrapReplicates: 2000,
+        bootstrapSeed: undefined,
+        stratifiedEnabled: false,
+        periodsEnabled: false,
+        periods: [],
+        strata: [],
+        multiOutcomeEnabled: false,
+        outcomeLabels: [],
+        focusOutcome: 0,
         groups: defaultGroups,
      });
-    setReportResults(null);
+    setCalculatedResults(null);
     setCalculationError(null);
+    setRowLevel(null);
+    setPeriodResults(null);
+    stopBootstrap();
      toast({
         title: "Form Reset",
         description: "All inputs and results have been cleared.",
@@ -242,13 +802,37 @@ export default function DisparityCalculator() {
        const exportFormValues: ExportFormValues = {
          reportTitle: form.getValues('reportTitle'),
          alpha: form.getValues('alpha'),
+         pairwiseMethod: form.getValues('pairwiseMethod'),
+         fisherAlternative: form.getValues('fisherAlternative'),
+         correction: form.getValues('correction'),
+         confidenceLevel: form.getValues('confidenceLevel'),
+         rateCiMethod: form.getValues('rateCiMethod'),
+         haldaneCorrection: form.getValues('haldaneCorrection'),
+         adverseImpactEnabled: form.getValues('adverseImpactEnabled'),
+         bayesianEnabled: form.getValues('bayesianEnabled'),
+         bootstrapEnabled: form.getValues('bootstrapEnabled'),
+         equivalenceEnabled: form.getValues('equivalenceEnabled'),
+         orderedCategories: form.getValues('orderedCategories'),
+         utilizationEnabled: form.getValues('utilizationEnabled'),
+         parityGapEnabled: form.getValues('parityGapEnabled'),
+         differenceOfInterest: form.getValues('differenceOfInterest'),
+         fragilityThreshold: form.getValues('fragilityThreshold'),
+         strata: form.getValues('stratifiedEnabled') && !form.getValues('multiOutcomeEnabled') ? form.getValues('strata').map(s => s.name) : [],
+         outcomeLabels: form.getValues('multiOutcomeEnabled') ? form.getValues('outcomeLabels').map(o => o.label) : [],
+         exactOverallTest: form.getValues('exactOverallTest'),
+         monteCarloReplicates: form.getValues('monteCarloReplicates'),
          groups: form.getValues('groups').map(g => ({
            name: g.name,
            experienced: g.experienced,
            total: g.total,
+           isReference: g.isReference,
+           score: g.score,
+           benchmark: g.benchmark,
+           strata: form.getValues('stratifiedEnabled') ? g.strata : undefined,
+           outcomeCounts: form.getValues('multiOutcomeEnabled') ? g.outcomeCounts : undefined,
          })),
        };
-       exportToCSV(reportResults, exportFormValues, `statistical-report_${Date.now()}.csv`);
+       exportToCSV(reportResults, exportFormValues, `statistical-report_${Date.now()}.csv`, reportResults.suppression ? null : periodResults);
         toast({
            title: "Export Successful",
            description: "Report data exported to CSV.",
@@ -366,13 +950,36 @@ export default function DisparityCalculator() {
  };
 
 
+  const formatPercentCI = (ci: ConfidenceInterval | null | undefined) =>
+      ci ? `${formatPercent(ci.lower)} – ${formatPercent(ci.upper)}` : 'N/A';
+
+  const withheldOr = (withheld: boolean, text: string) => (withheld ? SUPPRESSED_MARKER : text);
+
+  // Comparisons with a group that has a suppressed count are withheld from the published report
+  const isWithheldGroup = (...names: string[]) =>
+      !!reportResults?.suppression && names.some(name => reportResults.suppression!.withheldGroups.includes(name));
+
+  const formatEffect = (effect: EffectEstimate, decimalPlaces: number = 2) =>
+      effect.ci
+          ? `${formatDecimal(effect.estimate, decimalPlaces)} (${formatDecimal(effect.ci.lower, decimalPlaces)} – ${formatDecimal(effect.ci.upper, decimalPlaces)})`
+          : formatDecimal(effect.estimate, decimalPlaces);
+
+  const formatEquivalenceRange = (equivalence: EquivalenceResults) =>
+      equivalence.scale === 'ratio'
+          ? `risk ratio ${formatDecimal(equivalence.lowerMargin, 3)} – ${formatDecimal(equivalence.upperMargin, 3)}`
+          : `risk difference ±${formatDecimal(equivalence.margin, 2)} pp`;
+
   const renderInterpretation = (
     p: number | null | undefined,
     alphaThreshold: number,
+    significanceDecision?: boolean,
+    magnitude?: EffectMagnitude,
+    underpoweredNote?: string | null,
   ) => {
     if (p === null || p === undefined || isNaN(p)) return <span className="text-xs italic text-muted-foreground">N/A</span>;
 
-    const isSignificant = p < alphaThreshold;
+    // Adjusted comparisons pass the engine's decision; overall tests compare p against α directly
+    const isSignificant = significanceDecision ?? p < alphaThreshold;
     const interpretationText = isSignificant
         ? "Statistically different."
         : "Not statistically different.";
@@ -381,7 +988,13 @@ export default function DisparityCalculator() {
         ? " Potential disparity; pursue further investigation."
         : "";
 
-    const fullText = interpretationText + followUpText;
+    // Effect size label separates practical from statistical significance
+    const magnitudeText = magnitude ? ` ${effectMagnitudeLabel(magnitude)} effect size.` : "";
+
+    // A non-significant result from an underpowered comparison is not evidence of no disparity
+    const powerText = !isSignificant && underpoweredNote ? ` Underpowered: ${underpoweredNote}` : "";
+
+    const fullText = interpretationText + followUpText + magnitudeText + powerText;
 
     return (
          <span className={cn("ml-2 text-xs italic", isSignificant ? "text-destructive font-semibold" : "text-muted-foreground")}>
@@ -393,9 +1006,10 @@ export default function DisparityCalculator() {
 
  return (
      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-         <TabsList className="grid w-full grid-cols-2">
+         <TabsList className="grid w-full grid-cols-3">
              <TabsTrigger value="input">Input Parameters</TabsTrigger>
              <TabsTrigger value="report" disabled={!reportResults && !calculationError}>Statistical Report</TabsTrigger>
+             <TabsTrigger value="planning">Planning</TabsTrigger>
          </TabsList>
 
          <TabsContent value="input">
@@ -448,8 +1062,777 @@ export default function DisparityCalculator() {
                              {form.formState.errors.alpha && <p className="text-sm text-destructive">{form.formState.errors.alpha.message}</p>}
                          </div>
 
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="correction">Multiple Comparison Correction</Label>
+                                 <Controller
+                                     control={form.control}
+                                     name="correction"
+                                     render={({ field }) => (
+                                         <Select value={field.value} onValueChange={field.onChange}>
+                                             <SelectTrigger id="correction">
+                                                 <SelectValue />
+                                             </SelectTrigger>
+                                             <SelectContent>
+                                                 <SelectItem value="none">None</SelectItem>
+                                                 <SelectItem value="bonferroni">Bonferroni</SelectItem>
+                                                 <SelectItem value="sidak">Šidák</SelectItem>
+                                                 <SelectItem value="holm">Holm</SelectItem>
+                                                 <SelectItem value="hochberg">Hochberg</SelectItem>
+                                                 <SelectItem value="hommel">Hommel</SelectItem>
+                                                 <SelectItem value="BH">Benjamini–Hochberg (FDR)</SelectItem>
+                                                 <SelectItem value="BY">Benjamini–Yekutieli (FDR)</SelectItem>
+                                             </SelectContent>
+                                         </Select>
+                                     )}
+                                 />
+                             </div>
+                             <div className="space-y-2">
+                                 <Label htmlFor="pairwiseMethod">Pairwise Test</Label>
+                                 <Controller
+                                     control={form.control}
+                                     name="pairwiseMethod"
+                                     render={({ field }) => (
+                                         <Select value={field.value} onValueChange={field.onChange}>
+                                             <SelectTrigger id="pairwiseMethod">
+                                                 <SelectValue />
+                                             </SelectTrigger>
+                                             <SelectContent>
+                                                 <SelectItem value="chiSquare">Chi-square</SelectItem>
+                                                 <SelectItem value="fisher">Fisher&apos;s exact</SelectItem>
+                                                 <SelectItem value="auto">Auto (Fisher&apos;s exact when an expected count &lt; 5)</SelectItem>
+                                             </SelectContent>
+                                         </Select>
+                                     )}
+                                 />
+                             </div>
+                             {form.watch('pairwiseMethod') === 'fisher' && (
+                                 <div className="space-y-2">
+                                     <Label htmlFor="fisherAlternative">Alternative Hypothesis</Label>
+                                     <Controller
+                                         control={form.control}
+                                         name="fisherAlternative"
+                                         render={({ field }) => (
+                                             <Select value={field.value} onValueChange={field.onChange}>
+                                                 <SelectTrigger id="fisherAlternative">
+                                                     <SelectValue />
+                                                 </SelectTrigger>
+                                                 <SelectContent>
+                                                     <SelectItem value="two-sided">Two-sided</SelectItem>
+                                                     <SelectItem value="less">One-sided: first category&apos;s rate is lower</SelectItem>
+                                                     <SelectItem value="greater">One-sided: first category&apos;s rate is higher</SelectItem>
+                                                 </SelectContent>
+                                             </Select>
+                                         )}
+                                     />
+                                 </div>
+                             )}
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="exactOverallTest">Exact Overall Test</Label>
+                                 <div className="flex items-center gap-2 h-10">
+                                     <Controller
+                                         control={form.control}
+                                         name="exactOverallTest"
+                                         render={({ field }) => (
+                                             <Checkbox
+                                                 id="exactOverallTest"
+                                                 checked={!!field.value}
+                                                 onCheckedChange={(checked) => field.onChange(checked === true)}
+                                             />
+                                         )}
+                                     />
+                                     <span className="text-sm text-muted-foreground">Freeman–Halton (small tables)</span>
+                                 </div>
+                             </div>
+                             <div className="space-y-2">
+                                 <Label htmlFor="monteCarloReplicates">Monte Carlo Replicates</Label>
+                                 <Input
+                                     id="monteCarloReplicates"
+                                     type="number"
+                                     min="0"
+                                     step="1"
+                                     {...form.register('monteCarloReplicates')}
+                                     className={cn(form.formState.errors.monteCarloReplicates ? "border-destructive" : "border-input")}
+                                     placeholder="0 to disable"
+                                 />
+                                 {form.formState.errors.monteCarloReplicates && <p className="text-sm text-destructive">{form.formState.errors.monteCarloReplicates.message}</p>}
+                             </div>
+                             <div className="space-y-2">
+                                 <Label htmlFor="monteCarloSeed">Monte Carlo Seed</Label>
+                                 <Input
+                                     id="monteCarloSeed"
+                                     type="number"
+                                     min="0"
+                                     step="1"
+                                     {...form.register('monteCarloSeed')}
+                                     className={cn(form.formState.errors.monteCarloSeed ? "border-destructive" : "border-input")}
+                                     placeholder="Random if empty"
+                                 />
+                                 {form.formState.errors.monteCarloSeed && <p className="text-sm text-destructive">{form.formState.errors.monteCarloSeed.message}</p>}
+                             </div>
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="confidenceLevel">Confidence Level</Label>
+                                 <Input
+                                     id="confidenceLevel"
+                                     type="number"
+                                     step="any"
+                                     {...form.register('confidenceLevel')}
+                                     className={cn(form.formState.errors.confidenceLevel ? "border-destructive" : "border-input")}
+                                     placeholder="e.g., 0.95"
+                                 />
+                                 {form.formState.errors.confidenceLevel && <p className="text-sm text-destructive">{form.formState.errors.confidenceLevel.message}</p>}
+                             </div>
+                             <div className="space-y-2">
+                                 <Label htmlFor="rateCiMethod">Rate Confidence Interval</Label>
+                                 <Controller
+                                     control={form.control}
+                                     name="rateCiMethod"
+                                     render={({ field }) => (
+                                         <Select value={field.value} onValueChange={field.onChange}>
+                                             <SelectTrigger id="rateCiMethod">
+                                                 <SelectValue />
+                                             </SelectTrigger>
+                                             <SelectContent>
+                                                 <SelectItem value="wilson">Wilson</SelectItem>
+                                                 <SelectItem value="clopperPearson">Clopper–Pearson (exact)</SelectItem>
+                                                 <SelectItem value="agrestiCoull">Agresti–Coull</SelectItem>
+                                                 <SelectItem value="jeffreys">Jeffreys</SelectItem>
+                                                 <SelectItem value="wald">Wald</SelectItem>
+                                             </SelectContent>
+                                         </Select>
+                                     )}
+                                 />
+                             </div>
+                             <div className="space-y-2">
+                                 <Label htmlFor="haldaneCorrection">Zero-Cell Correction</Label>
+                                 <div className="flex items-center gap-2 h-10">
+                                     <Controller
+                                         control={form.control}
+                                         name="haldaneCorrection"
+                                         render={({ field }) => (
+                                             <Checkbox
+                                                 id="haldaneCorrection"
+                                                 checked={!!field.value}
+                                                 onCheckedChange={(checked) => field.onChange(checked === true)}
+                                             />
+                                         )}
+                                     />
+                                     <span className="text-sm text-muted-foreground">Haldane–Anscombe (+0.5) for ratios</span>
+                                 </div>
+                             </div>
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="differenceOfInterest">Difference of Interest (pp)</Label>
+                                 <Input
+                                     id="differenceOfInterest"
+                                     type="number"
+                                     step="any"
+                                     {...form.register('differenceOfInterest')}
+                                     className={cn(form.formState.errors.differenceOfInterest ? "border-destructive" : "border-input")}
+                                     placeholder="e.g., 5"
+                                 />
+                                 {form.formState.errors.differenceOfInterest && <p className="text-sm text-destructive">{form.formState.errors.differenceOfInterest.message}</p>}
+                             </div>
+                             <p className="sm:col-span-2 self-end text-xs text-muted-foreground pb-2">
+                                 Non-significant comparisons that could not detect a difference this large with 80% power are flagged as underpowered.
+                             </p>
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="fragilityThreshold">Fragility Threshold</Label>
+                                 <Input
+                                     id="fragilityThreshold"
+                                     type="number"
+                                     min="1"
+                                     step="1"
+                                     {...form.register('fragilityThreshold')}
+                                     className={cn(form.formState.errors.fragilityThreshold ? "border-destructive" : "border-input")}
+                                     placeholder="e.g., 5"
+                                 />
+                                 {form.formState.errors.fragilityThreshold && <p className="text-sm text-destructive">{form.formState.errors.fragilityThreshold.message}</p>}
+                             </div>
+                             <p className="sm:col-span-2 self-end text-xs text-muted-foreground pb-2">
+                                 Significant results that fewer outcome flips than this would make non-significant are flagged as fragile.
+                             </p>
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="adverseImpactEnabled">Adverse Impact Analysis</Label>
+                                 <div className="flex items-center gap-2 h-10">
+                                     <Controller
+                                         control={form.control}
+                                         name="adverseImpactEnabled"
+                                         render={({ field }) => (
+                                             <Checkbox
+                                                 id="adverseImpactEnabled"
+                                                 checked={!!field.value}
+                                                 onCheckedChange={(checked) => field.onChange(checked === true)}
+                                             />
+                                         )}
+                                     />
+                                     <span className="text-sm text-muted-foreground">Four-fifths rule and 2 SD test</span>
+                                 </div>
+                             </div>
+                             {form.watch('adverseImpactEnabled') && (
+                                 <>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="adverseImpactComparator">Impact Ratio Comparator</Label>
+                                         <Controller
+                                             control={form.control}
+                                             name="adverseImpactComparator"
+                                             render={({ field }) => (
+                                                 <Select value={field.value || '__highest__'} onValueChange={(value) => field.onChange(value === '__highest__' ? '' : value)}>
+                                                     <SelectTrigger id="adverseImpactComparator">
+                                                         <SelectValue />
+                                                     </SelectTrigger>
+                                                     <SelectContent>
+                                                         <SelectItem value="__highest__">Highest-rate group</SelectItem>
+                                                         {form.watch('groups').filter(g => g.name).map(g => (
+                                                             <SelectItem key={g.name} value={g.name}>{g.name}</SelectItem>
+                                                         ))}
+                                                     </SelectContent>
+                                                 </Select>
+                                             )}
+                                         />
+                                     </div>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="adverseImpactThreshold">Impact Ratio Threshold</Label>
+                                         <Input
+                                             id="adverseImpactThreshold"
+                                             type="number"
+                                             step="any"
+                                             {...form.register('adverseImpactThreshold')}
+                                             className={cn(form.formState.errors.adverseImpactThreshold ? "border-destructive" : "border-input")}
+                                             placeholder="e.g., 0.8"
+                                         />
+                                         {form.formState.errors.adverseImpactThreshold && <p className="text-sm text-destructive">{form.formState.errors.adverseImpactThreshold.message}</p>}
+                                     </div>
+                                 </>
+                             )}
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 max-w-4xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="bayesianEnabled">Bayesian Comparison</Label>
+                                 <div className="flex items-center gap-2 h-10">
+                                     <Controller
+                                         control={form.control}
+                                         name="bayesianEnabled"
+                                         render={({ field }) => (
+                                             <Checkbox
+                                                 id="bayesianEnabled"
+                                                 checked={!!field.value}
+                                                 onCheckedChange={(checked) => field.onChange(checked === true)}
+                                             />
+                                         )}
+                                     />
+                                     <span className="text-sm text-muted-foreground">Beta-binomial posteriors</span>
+                                 </div>
+                             </div>
+                             {form.watch('bayesianEnabled') && (
+                                 <>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="bayesianPriorAlpha">Prior α</Label>
+                                         <Input
+                                             id="bayesianPriorAlpha"
+                                             type="number"
+                                             step="any"
+                                             {...form.register('bayesianPriorAlpha')}
+                                             className={cn(form.formState.errors.bayesianPriorAlpha ? "border-destructive" : "border-input")}
+                                             placeholder="e.g., 1"
+                                         />
+                                         {form.formState.errors.bayesianPriorAlpha && <p className="text-sm text-destructive">{form.formState.errors.bayesianPriorAlpha.message}</p>}
+                                     </div>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="bayesianPriorBeta">Prior β</Label>
+                                         <Input
+                                             id="bayesianPriorBeta"
+                                             type="number"
+                                             step="any"
+                                             {...form.register('bayesianPriorBeta')}
+                                             className={cn(form.formState.errors.bayesianPriorBeta ? "border-destructive" : "border-input")}
+                                             placeholder="e.g., 1"
+                                         />
+                                         {form.formState.errors.bayesianPriorBeta && <p className="text-sm text-destructive">{form.formState.errors.bayesianPriorBeta.message}</p>}
+                                     </div>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="bayesianRatioThreshold">Rate Ratio Threshold</Label>
+                                         <Input
+                                             id="bayesianRatioThreshold"
+                                             type="number"
+                                             step="any"
+                                             {...form.register('bayesianRatioThreshold')}
+                                             className={cn(form.formState.errors.bayesianRatioThreshold ? "border-destructive" : "border-input")}
+                                             placeholder="e.g., 0.8"
+                                         />
+                                         {form.formState.errors.bayesianRatioThreshold && <p className="text-sm text-destructive">{form.formState.errors.bayesianRatioThreshold.message}</p>}
+                                     </div>
+                                     <p className="sm:col-span-4 text-xs text-muted-foreground">
+                                         Beta(1, 1) is the uniform prior and Beta(0.5, 0.5) the Jeffreys prior; larger values pull every rate towards α / (α + β).
+                                     </p>
+                                 </>
+                             )}
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="equivalenceEnabled">Equivalence Tests</Label>
+                                 <div className="flex items-center gap-2 h-10">
+                                     <Controller
+                                         control={form.control}
+                                         name="equivalenceEnabled"
+                                         render={({ field }) => (
+                                             <Checkbox
+                                                 id="equivalenceEnabled"
+                                                 checked={!!field.value}
+                                                 onCheckedChange={(checked) => field.onChange(checked === true)}
+                                             />
+                                         )}
+                                     />
+                                     <span className="text-sm text-muted-foreground">Two one-sided tests (TOST)</span>
+                                 </div>
+                             </div>
+                             {form.watch('equivalenceEnabled') && (
+                                 <>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="equivalenceScale">Equivalence Scale</Label>
+                                         <Controller
+                                             control={form.control}
+                                             name="equivalenceScale"
+                                             render={({ field }) => (
+                                                 <Select
+                                                     value={field.value}
+                                                     onValueChange={(value) => {
+                                                         field.onChange(value);
+                                                         form.setValue('equivalenceMargin', value === 'ratio' ? 0.8 : 5, { shouldValidate: true });
+                                                     }}
+                                                 >
+                                                     <SelectTrigger id="equivalenceScale">
+                                                         <SelectValue />
+                                                     </SelectTrigger>
+                                                     <SelectContent>
+                                                         <SelectItem value="difference">Risk difference (pp)</SelectItem>
+                                                         <SelectItem value="ratio">Risk ratio</SelectItem>
+                                                     </SelectContent>
+                                                 </Select>
+                                             )}
+                                         />
+                                     </div>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="equivalenceMargin">Equivalence Margin</Label>
+                                         <Input
+                                             id="equivalenceMargin"
+                                             type="number"
+                                             step="any"
+                                             {...form.register('equivalenceMargin')}
+                                             className={cn(form.formState.errors.equivalenceMargin ? "border-destructive" : "border-input")}
+                                             placeholder={form.watch('equivalenceScale') === 'ratio' ? "e.g., 0.8" : "e.g., 5"}
+                                         />
+                                         {form.formState.errors.equivalenceMargin && <p className="text-sm text-destructive">{form.formState.errors.equivalenceMargin.message}</p>}
+                                     </div>
+                                     <p className="sm:col-span-3 text-xs text-muted-foreground">
+                                         {form.watch('equivalenceScale') === 'ratio'
+                                             ? 'Rates are equivalent when their ratio is shown to lie between the margin and its reciprocal (0.8 gives 0.8 to 1.25).'
+                                             : 'Rates are equivalent when their difference is shown to lie within ± the margin, in percentage points.'}
+                                     </p>
+                                 </>
+                             )}
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="bootstrapEnabled">Bootstrap Intervals</Label>
+                                 <div className="flex items-center gap-2 h-10">
+                                     <Controller
+                                         control={form.control}
+                                         name="bootstrapEnabled"
+                                         render={({ field }) => (
+                                             <Checkbox
+                                                 id="bootstrapEnabled"
+                                                 checked={!!field.value}
+                                                 onCheckedChange={(checked) => field.onChange(checked === true)}
+                                             />
+                                         )}
+                                     />
+                                     <span className="text-sm text-muted-foreground">Percentile and BCa</span>
+                                 </div>
+                             </div>
+                             {form.watch('bootstrapEnabled') && (
+                                 <>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="bootstrapReplicates">Bootstrap Replicates</Label>
+                                         <Input
+                                             id="bootstrapReplicates"
+                                             type="number"
+                                             min="1"
+                                             step="1"
+                                             {...form.register('bootstrapReplicates')}
+                                             className={cn(form.formState.errors.bootstrapReplicates ? "border-destructive" : "border-input")}
+                                             placeholder="e.g., 2000"
+                                         />
+                                         {form.formState.errors.bootstrapReplicates && <p className="text-sm text-destructive">{form.formState.errors.bootstrapReplicates.message}</p>}
+                                     </div>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="bootstrapSeed">Bootstrap Seed</Label>
+                                         <Input
+                                             id="bootstrapSeed"
+                                             type="number"
+                                             min="0"
+                                             step="1"
+                                             {...form.register('bootstrapSeed')}
+                                             className={cn(form.formState.errors.bootstrapSeed ? "border-destructive" : "border-input")}
+                                             placeholder="Random if empty"
+                                         />
+                                         {form.formState.errors.bootstrapSeed && <p className="text-sm text-destructive">{form.formState.errors.bootstrapSeed.message}</p>}
+                                     </div>
+                                     <p className="sm:col-span-3 text-xs text-muted-foreground">
+                                         Intervals for impact ratios, risk differences, Cramér&apos;s V and the ranking of the categories. Row-level records are resampled when loaded; otherwise the table is redrawn from its observed proportions. Not run for multi-period reports.
+                                     </p>
+                                 </>
+                             )}
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="parityGapEnabled">Parity Gap Analysis</Label>
+                                 <div className="flex items-center gap-2 h-10">
+                                     <Controller
+                                         control={form.control}
+                                         name="parityGapEnabled"
+                                         render={({ field }) => (
+                                             <Checkbox
+                                                 id="parityGapEnabled"
+                                                 checked={!!field.value}
+                                                 onCheckedChange={(checked) => field.onChange(checked === true)}
+                                             />
+                                         )}
+                                     />
+                                     <span className="text-sm text-muted-foreground">Outcomes needed to close gaps</span>
+                                 </div>
+                             </div>
+                             {form.watch('parityGapEnabled') && (
+                                 <p className="sm:col-span-2 self-end text-xs text-muted-foreground pb-2">
+                                     Counts the outcomes each category would need to reach the overall rate and, for the selected reference categories, the reference rate and non-significance.
+                                 </p>
+                             )}
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="publicationMode">Publication Mode</Label>
+                                 <div className="flex items-center gap-2 h-10">
+                                     <Controller
+                                         control={form.control}
+                                         name="publicationMode"
+                                         render={({ field }) => (
+                                             <Checkbox
+                                                 id="publicationMode"
+                                                 checked={!!field.value}
+                                                 onCheckedChange={(checked) => field.onChange(checked === true)}
+                                             />
+                                         )}
+                                     />
+                                     <span className="text-sm text-muted-foreground">Suppress small cells</span>
+                                 </div>
+                             </div>
+                             {form.watch('publicationMode') && (
+                                 <>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="suppressionThreshold">Suppression Threshold</Label>
+                                         <Input
+                                             id="suppressionThreshold"
+                                             type="number"
+                                             min="1"
+                                             step="1"
+                                             {...form.register('suppressionThreshold')}
+                                             className={cn(form.formState.errors.suppressionThreshold ? "border-destructive" : "border-input")}
+                                             placeholder="e.g., 10"
+                                         />
+                                         {form.formState.errors.suppressionThreshold && <p className="text-sm text-destructive">{form.formState.errors.suppressionThreshold.message}</p>}
+                                     </div>
+                                     <p className="sm:col-span-3 text-xs text-muted-foreground">
+                                         Counts from 1 to one below the threshold are suppressed in the report, the CSV and the PDF, with complementary suppression so they cannot be recovered from the totals.
+                                         Statistics that would reveal a suppressed count are withheld, as are the strata, outcome levels, row-level results and period trends. The calculations still use the true counts.
+                                     </p>
+                                 </>
+                             )}
+                         </div>
+
+                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                             <div className="space-y-2">
+                                 <Label htmlFor="privacyEnabled">Differential Privacy</Label>
+                                 <div className="flex items-center gap-2 h-10">
+                                     <Controller
+                                         control={form.control}
+                                         name="privacyEnabled"
+                                         render={({ field }) => (
+                                             <Checkbox
+                                                 id="privacyEnabled"
+                                                 checked={!!field.value}
+                                                 onCheckedChange={(checked) => field.onChange(checked === true)}
+                                             />
+                                         )}
+                                     />
+                                     <span className="text-sm text-muted-foreground">Release noisy counts</span>
+                                 </div>
+                             </div>
+                             {form.watch('privacyEnabled') && (
+                                 <>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="privacyEpsilon">Privacy Budget (ε)</Label>
+                                         <Input
+                                             id="privacyEpsilon"
+                                             type="number"
+                                             min="0"
+                                             step="0.1"
+                                             {...form.register('privacyEpsilon')}
+                                             className={cn(form.formState.errors.privacyEpsilon ? "border-destructive" : "border-input")}
+                                             placeholder="e.g., 1"
+                                         />
+                                         {form.formState.errors.privacyEpsilon && <p className="text-sm text-destructive">{form.formState.errors.privacyEpsilon.message}</p>}
+                                     </div>
+                                     <div className="space-y-2">
+                                         <Label htmlFor="privacySeed">Privacy Seed</Label>
+                                         <Input
+                                             id="privacySeed"
+                                             type="number"
+                                             min="0"
+                                             step="1"
+                                             {...form.register('privacySeed')}
+                                             className={cn(form.formState.errors.privacySeed ? "border-destructive" : "border-input")}
+                                             placeholder="Random if empty"
+                                         />
+                                         {form.formState.errors.privacySeed && <p className="text-sm text-destructive">{form.formState.errors.privacySeed.message}</p>}
+                                     </div>
+                                     <p className="sm:col-span-3 text-xs text-muted-foreground">
+                                         Noise is added to every count before the report is calculated, so the whole report is ε-differentially private; smaller ε gives more privacy and more noise.
+                                         Strata, outcome levels, row-level records and periods are not used. The seed is recorded in the CSV export only: together with the released counts it reveals the true ones, so keep it confidential.
+                                     </p>
+                                 </>
+                             )}
+                         </div>
+
+                         <RowLevelDataInput onApply={handleApplyRowLevel} onClear={handleClearRowLevel} applied={rowLevel} />
+
                          <div className="space-y-4">
                              <Label className="text-lg font-medium text-primary">Categories (Groups)</Label>
+                             <div className="flex items-center gap-2">
+                                 <Controller
+                                     control={form.control}
+                                     name="orderedCategories"
+                                     render={({ field }) => (
+                                         <Checkbox
+                                             id="orderedCategories"
+                                             checked={!!field.value}
+                                             onCheckedChange={(checked) => field.onChange(checked === true)}
+                                         />
+                                     )}
+                                 />
+                                 <Label htmlFor="orderedCategories" className="font-normal">
+                                     Categories are ordered (e.g., age bands); run the Cochran–Armitage trend test
+                                 </Label>
+                             </div>
+                             {form.watch('orderedCategories') && (
+                                 <p className="text-xs text-muted-foreground">
+                                     Categories are taken in the order listed. Leave a score empty to use the category&apos;s position (1, 2, 3, ...).
+                                 </p>
+                             )}
+                             <div className="flex items-center gap-2">
+                                 <Controller
+                                     control={form.control}
+                                     name="utilizationEnabled"
+                                     render={({ field }) => (
+                                         <Checkbox
+                                             id="utilizationEnabled"
+                                             checked={!!field.value}
+                                             onCheckedChange={(checked) => field.onChange(checked === true)}
+                                         />
+                                     )}
+                                 />
+                                 <Label htmlFor="utilizationEnabled" className="font-normal">
+                                     Compare each category&apos;s share of outcomes with an external benchmark (utilization analysis)
+                                 </Label>
+                             </div>
+                             {form.watch('utilizationEnabled') && (
+                                 <p className="text-xs text-muted-foreground">
+                                     Enter each category&apos;s benchmark as a proportion, e.g. 0.32 for 32% labor-market availability. Benchmarks should sum to 1; otherwise they are rescaled.
+                                 </p>
+                             )}
+                             <div className="flex items-center gap-2">
+                                 <Controller
+                                     control={form.control}
+                                     name="multiOutcomeEnabled"
+                                     render={({ field }) => (
+                                         <Checkbox
+                                             id="multiOutcomeEnabled"
+                                             checked={!!field.value}
+                                             disabled={form.watch('stratifiedEnabled') || form.watch('periodsEnabled')}
+                                             onCheckedChange={(checked) => {
+                                                 field.onChange(checked === true);
+                                                 handleMultiOutcomeToggle(checked === true);
+                                             }}
+                                         />
+                                     )}
+                                 />
+                                 <Label htmlFor="multiOutcomeEnabled" className="font-normal">
+                                     The outcome has more than two levels (e.g., approved / approved with conditions / denied)
+                                 </Label>
+                             </div>
+                             {form.watch('multiOutcomeEnabled') && (
+                                 <div className="space-y-2 p-3 border border-dashed rounded-md">
+                                     <p className="text-xs text-muted-foreground">
+                                         The full table is analysed in its own report section. The other sections compare the focus level (selected with the radio button) with all other levels combined.
+                                     </p>
+                                     {outcomeFields.map((outcomeField, outcomeIndex) => (
+                                         <div key={outcomeField.id} className="flex items-start gap-2 max-w-md">
+                                             <input
+                                                 type="radio"
+                                                 name="focusOutcome"
+                                                 className="mt-3 accent-primary"
+                                                 aria-label="Use as focus outcome"
+                                                 checked={form.watch('focusOutcome') === outcomeIndex}
+                                                 onChange={() => {
+                                                     form.setValue('focusOutcome', outcomeIndex);
+                                                     form.getValues('groups').forEach((_, index) => syncOutcomeTotals(index));
+                                                 }}
+                                             />
+                                             <div className="flex-1 space-y-1">
+                                                 <Input
+                                                     id={`outcomeLabels.${outcomeIndex}.label`}
+                                                     aria-label={`Outcome level ${outcomeIndex + 1} label`}
+                                                     {...form.register(`outcomeLabels.${outcomeIndex}.label`)}
+                                                     className={cn(form.formState.errors.outcomeLabels?.[outcomeIndex]?.label ? "border-destructive" : "border-input")}
+                                                 />
+                                                 {form.formState.errors.outcomeLabels?.[outcomeIndex]?.label && <p className="text-sm text-destructive">{form.formState.errors.outcomeLabels?.[outcomeIndex]?.label?.message}</p>}
+                                             </div>
+                                             <Button
+                                                 type="button"
+                                                 variant="ghost"
+                                                 size="icon"
+                                                 onClick={() => handleRemoveOutcome(outcomeIndex)}
+                                                 disabled={outcomeFields.length <= 2}
+                                                 className="text-destructive hover:bg-destructive/10 disabled:text-muted-foreground disabled:hover:bg-transparent"
+                                                 aria-label="Remove outcome level"
+                                             >
+                                                 <Trash2 className="h-4 w-4" />
+                                             </Button>
+                                         </div>
+                                     ))}
+                                     <Button type="button" variant="outline" size="sm" onClick={handleAddOutcome}>
+                                         <PlusCircle className="mr-2 h-4 w-4" /> Add Outcome Level
+                                     </Button>
+                                 </div>
+                             )}
+                             <div className="flex items-center gap-2">
+                                 <Controller
+                                     control={form.control}
+                                     name="stratifiedEnabled"
+                                     render={({ field }) => (
+                                         <Checkbox
+                                             id="stratifiedEnabled"
+                                             checked={!!field.value}
+                                             disabled={form.watch('multiOutcomeEnabled') || form.watch('periodsEnabled')}
+                                             onCheckedChange={(checked) => field.onChange(checked === true)}
+                                         />
+                                     )}
+                                 />
+                                 <Label htmlFor="stratifiedEnabled" className="font-normal">
+                                     Enter counts by stratum (e.g., department or year); run the Cochran–Mantel–Haenszel analysis
+                                 </Label>
+                             </div>
+                             {form.watch('stratifiedEnabled') && (
+                                 <div className="space-y-2 p-3 border border-dashed rounded-md">
+                                     <p className="text-xs text-muted-foreground">
+                                         Each category&apos;s counts are the sums of its stratum counts. The crude comparison ignores the strata; the adjusted one compares categories within each stratum.
+                                     </p>
+                                     {stratumFields.map((stratumField, stratumIndex) => (
+                                         <div key={stratumField.id} className="flex items-start gap-2 max-w-md">
+                                             <div className="flex-1 space-y-1">
+                                                 <Input
+                                                     id={`strata.${stratumIndex}.name`}
+                                                     aria-label={`Stratum ${stratumIndex + 1} name`}
+                                                     {...form.register(`strata.${stratumIndex}.name`)}
+                                                     className={cn(form.formState.errors.strata?.[stratumIndex]?.name ? "border-destructive" : "border-input")}
+                                                 />
+                                                 {form.formState.errors.strata?.[stratumIndex]?.name && <p className="text-sm text-destructive">{form.formState.errors.strata?.[stratumIndex]?.name?.message}</p>}
+                                             </div>
+                                             <Button
+                                                 type="button"
+                                                 variant="ghost"
+                                                 size="icon"
+                                                 onClick={() => handleRemoveStratum(stratumIndex)}
+                                                 className="text-destructive hover:bg-destructive/10"
+                                                 aria-label="Remove stratum"
+                                             >
+                                                 <Trash2 className="h-4 w-4" />
+                                             </Button>
+                                         </div>
+                                     ))}
+                                     <Button type="button" variant="outline" size="sm" onClick={handleAddStratum}>
+                                         <PlusCircle className="mr-2 h-4 w-4" /> Add Stratum
+                                     </Button>
+                                 </div>
+                             )}
+                             <div className="flex items-center gap-2">
+                                 <Controller
+                                     control={form.control}
+                                     name="periodsEnabled"
+                                     render={({ field }) => (
+                                         <Checkbox
+                                             id="periodsEnabled"
+                                             checked={!!field.value}
+                                             disabled={form.watch('multiOutcomeEnabled') || form.watch('stratifiedEnabled') || !!rowLevel}
+                                             onCheckedChange={(checked) => field.onChange(checked === true)}
+                                         />
+                                     )}
+                                 />
+                                 <Label htmlFor="periodsEnabled" className="font-normal">
+                                     Enter counts for several periods (e.g., quarters); report each period and the trend between them
+                                 </Label>
+                             </div>
+                             {form.watch('periodsEnabled') && (
+                                 <div className="space-y-2 p-3 border border-dashed rounded-md">
+                                     <p className="text-xs text-muted-foreground">
+                                         List the periods in chronological order. The report is run for each period; each category&apos;s counts above are those of the latest period.
+                                     </p>
+                                     {periodFields.map((periodField, periodIndex) => (
+                                         <div key={periodField.id} className="flex items-start gap-2 max-w-md">
+                                             <div className="flex-1 space-y-1">
+                                                 <Input
+                                                     id={`periods.${periodIndex}.name`}
+                                                     aria-label={`Period ${periodIndex + 1} name`}
+                                                     {...form.register(`periods.${periodIndex}.name`)}
+                                                     className={cn(form.formState.errors.periods?.[periodIndex]?.name ? "border-destructive" : "border-input")}
+                                                 />
+                                                 {form.formState.errors.periods?.[periodIndex]?.name && <p className="text-sm text-destructive">{form.formState.errors.periods?.[periodIndex]?.name?.message}</p>}
+                                             </div>
+                                             <Button
+                                                 type="button"
+                                                 variant="ghost"
+                                                 size="icon"
+                                                 onClick={() => handleRemovePeriod(periodIndex)}
+                                                 className="text-destructive hover:bg-destructive/10"
+                                                 aria-label="Remove period"
+                                             >
+                                                 <Trash2 className="h-4 w-4" />
+                                             </Button>
+                                         </div>
+                                     ))}
+                                     <Button type="button" variant="outline" size="sm" onClick={handleAddPeriod}>
+                                         <PlusCircle className="mr-2 h-4 w-4" /> Add Period
+                                     </Button>
+                                 </div>
+                             )}
                              {fields.length === 0 && (
                                 <p className="text-sm text-muted-foreground p-3 border border-dashed rounded-md text-center">
                                     No categories added yet. Click "Add Category" to start.
@@ -461,10 +1844,18 @@ export default function DisparityCalculator() {
                                  const notExperiencedValue = (typeof totalValue === 'number' && typeof experiencedValue === 'number' && totalValue >= experiencedValue)
                                      ? totalValue - experiencedValue
                                      : '';
+                                 const multiOutcome = form.watch('multiOutcomeEnabled') && outcomeFields.length > 0;
+                                 const stratified = !multiOutcome && form.watch('stratifiedEnabled') && stratumFields.length > 0;
+                                 const byPeriod = !multiOutcome && !stratified && form.watch('periodsEnabled') && periodFields.length > 0;
+                                 const derivedCounts = stratified || multiOutcome || byPeriod;
 
                                  return (
                                      <div key={field.id} className="flex items-start gap-2 p-3 border rounded-md bg-card shadow-sm hover:shadow-md transition-shadow">
-                                         <div className="flex-1 grid grid-cols-1 md:grid-cols-4 gap-2">
+                                         <div className={cn(
+                                             "flex-1 grid grid-cols-1 gap-2",
+                                             form.watch('orderedCategories') && form.watch('utilizationEnabled') ? "md:grid-cols-7"
+                                                 : form.watch('orderedCategories') || form.watch('utilizationEnabled') ? "md:grid-cols-6" : "md:grid-cols-5"
+                                         )}>
                                              <div className="space-y-1">
                                                  <Label htmlFor={`groups.${index}.name`}>Name</Label>
                                                  <Input
@@ -486,7 +1877,8 @@ export default function DisparityCalculator() {
                                                      min="0"
                                                      step="1"
                                                       {...form.register(`groups.${index}.experienced`)}
-                                                      className={cn(form.formState.errors.groups?.[index]?.experienced ? "border-destructive" : "border-input")}
+                                                      readOnly={derivedCounts}
+                                                      className={cn(form.formState.errors.groups?.[index]?.experienced ? "border-destructive" : "border-input", derivedCounts && "bg-muted text-muted-foreground")}
                                                       onChange={(e) => {
                                                           const val = e.target.value === '' ? null : Number(e.target.value);
                                                           form.setValue(`groups.${index}.experienced`, val as number, { shouldValidate: true });
@@ -507,7 +1899,8 @@ export default function DisparityCalculator() {
                                                      min="0"
                                                      step="1"
                                                       {...form.register(`groups.${index}.total`)}
-                                                      className={cn(form.formState.errors.groups?.[index]?.total ? "border-destructive" : "border-input")}
+                                                      readOnly={derivedCounts}
+                                                      className={cn(form.formState.errors.groups?.[index]?.total ? "border-destructive" : "border-input", derivedCounts && "bg-muted text-muted-foreground")}
                                                        onChange={(e) => {
                                                            const val = e.target.value === '' ? null : Number(e.target.value);
                                                            form.setValue(`groups.${index}.total`, val as number, { shouldValidate: true });
@@ -531,6 +1924,127 @@ export default function DisparityCalculator() {
                                                      className="bg-muted border-input text-muted-foreground"
                                                  />
                                              </div>
+                                             <div className="space-y-1">
+                                                 <Label htmlFor={`groups.${index}.isReference`}>Reference</Label>
+                                                 <div className="flex items-center h-10">
+                                                     <Controller
+                                                         control={form.control}
+                                                         name={`groups.${index}.isReference`}
+                                                         render={({ field: checkboxField }) => (
+                                                             <Checkbox
+                                                                 id={`groups.${index}.isReference`}
+                                                                 checked={!!checkboxField.value}
+                                                                 onCheckedChange={(checked) => checkboxField.onChange(checked === true)}
+                                                                 aria-label="Use as reference category"
+                                                             />
+                                                         )}
+                                                     />
+                                                 </div>
+                                             </div>
+                                             {form.watch('orderedCategories') && (
+                                                 <div className="space-y-1">
+                                                     <Label htmlFor={`groups.${index}.score`}>Score</Label>
+                                                     <Input
+                                                         id={`groups.${index}.score`}
+                                                         type="number"
+                                                         step="any"
+                                                         {...form.register(`groups.${index}.score`)}
+                                                         className={cn(form.formState.errors.groups?.[index]?.score ? "border-destructive" : "border-input")}
+                                                         placeholder={String(index + 1)}
+                                                     />
+                                                     {form.formState.errors.groups?.[index]?.score && <p className="text-sm text-destructive">{form.formState.errors.groups?.[index]?.score?.message}</p>}
+                                                 </div>
+                                             )}
+                                             {form.watch('utilizationEnabled') && (
+                                                 <div className="space-y-1">
+                                                     <Label htmlFor={`groups.${index}.benchmark`}>Benchmark</Label>
+                                                     <Input
+                                                         id={`groups.${index}.benchmark`}
+                                                         type="number"
+                                                         min="0"
+                                                         max="1"
+                                                         step="any"
+                                                         {...form.register(`groups.${index}.benchmark`)}
+                                                         className={cn(form.formState.errors.groups?.[index]?.benchmark ? "border-destructive" : "border-input")}
+                                                         placeholder="0.25"
+                                                     />
+                                                     {form.formState.errors.groups?.[index]?.benchmark && <p className="text-sm text-destructive">{form.formState.errors.groups?.[index]?.benchmark?.message}</p>}
+                                                 </div>
+                                             )}
+                                             {multiOutcome && (
+                                                 <div className="col-span-full grid grid-cols-2 md:grid-cols-4 gap-2 pt-2 border-t">
+                                                     {outcomeFields.map((outcomeField, outcomeIndex) => (
+                                                         <div key={outcomeField.id} className="space-y-1">
+                                                             <Label htmlFor={`groups.${index}.outcomeCounts.${outcomeIndex}`} className="text-xs text-muted-foreground"># {form.watch(`outcomeLabels.${outcomeIndex}.label`)}</Label>
+                                                             <Input
+                                                                 id={`groups.${index}.outcomeCounts.${outcomeIndex}`}
+                                                                 type="number"
+                                                                 min="0"
+                                                                 step="1"
+                                                                 {...form.register(`groups.${index}.outcomeCounts.${outcomeIndex}`, { onChange: () => syncOutcomeTotals(index) })}
+                                                                 className={cn(form.formState.errors.groups?.[index]?.outcomeCounts?.[outcomeIndex] ? "border-destructive" : "border-input")}
+                                                             />
+                                                             {form.formState.errors.groups?.[index]?.outcomeCounts?.[outcomeIndex] && <p className="text-xs text-destructive">{form.formState.errors.groups?.[index]?.outcomeCounts?.[outcomeIndex]?.message}</p>}
+                                                         </div>
+                                                     ))}
+                                                 </div>
+                                             )}
+                                             {byPeriod && (
+                                                 <div className="col-span-full grid grid-cols-2 md:grid-cols-4 gap-2 pt-2 border-t">
+                                                     {periodFields.map((periodField, periodIndex) => (
+                                                         <div key={periodField.id} className="space-y-1">
+                                                             <Label className="text-xs text-muted-foreground">{form.watch(`periods.${periodIndex}.name`)} (experienced / total)</Label>
+                                                             <div className="flex gap-1">
+                                                                 <Input
+                                                                     type="number"
+                                                                     min="0"
+                                                                     step="1"
+                                                                     aria-label={`${form.watch(`periods.${periodIndex}.name`)} experienced`}
+                                                                     {...form.register(`groups.${index}.periods.${periodIndex}.experienced`, { onChange: () => syncPeriodTotals(index) })}
+                                                                     className={cn(form.formState.errors.groups?.[index]?.periods?.[periodIndex]?.experienced ? "border-destructive" : "border-input")}
+                                                                 />
+                                                                 <Input
+                                                                     type="number"
+                                                                     min="0"
+                                                                     step="1"
+                                                                     aria-label={`${form.watch(`periods.${periodIndex}.name`)} total`}
+                                                                     {...form.register(`groups.${index}.periods.${periodIndex}.total`, { onChange: () => syncPeriodTotals(index) })}
+                                                                     className={cn(form.formState.errors.groups?.[index]?.periods?.[periodIndex]?.total ? "border-destructive" : "border-input")}
+                                                                 />
+                                                             </div>
+                                                             {form.formState.errors.groups?.[index]?.periods?.[periodIndex]?.experienced && <p className="text-xs text-destructive">{form.formState.errors.groups?.[index]?.periods?.[periodIndex]?.experienced?.message}</p>}
+                                                         </div>
+                                                     ))}
+                                                 </div>
+                                             )}
+                                             {stratified && (
+                                                 <div className="col-span-full grid grid-cols-2 md:grid-cols-4 gap-2 pt-2 border-t">
+                                                     {stratumFields.map((stratumField, stratumIndex) => (
+                                                         <div key={stratumField.id} className="space-y-1">
+                                                             <Label className="text-xs text-muted-foreground">{form.watch(`strata.${stratumIndex}.name`)} (experienced / total)</Label>
+                                                             <div className="flex gap-1">
+                                                                 <Input
+                                                                     type="number"
+                                                                     min="0"
+                                                                     step="1"
+                                                                     aria-label={`${form.watch(`strata.${stratumIndex}.name`)} experienced`}
+                                                                     {...form.register(`groups.${index}.strata.${stratumIndex}.experienced`, { onChange: () => syncStratumTotals(index) })}
+                                                                     className={cn(form.formState.errors.groups?.[index]?.strata?.[stratumIndex]?.experienced ? "border-destructive" : "border-input")}
+                                                                 />
+                                                                 <Input
+                                                                     type="number"
+                                                                     min="0"
+                                                                     step="1"
+                                                                     aria-label={`${form.watch(`strata.${stratumIndex}.name`)} total`}
+                                                                     {...form.register(`groups.${index}.strata.${stratumIndex}.total`, { onChange: () => syncStratumTotals(index) })}
+                                                                     className={cn(form.formState.errors.groups?.[index]?.strata?.[stratumIndex]?.total ? "border-destructive" : "border-input")}
+                                                                 />
+                                                             </div>
+                                                             {form.formState.errors.groups?.[index]?.strata?.[stratumIndex]?.experienced && <p className="text-xs text-destructive">{form.formState.errors.groups?.[index]?.strata?.[stratumIndex]?.experienced?.message}</p>}
+                                                         </div>
+                                                     ))}
+                                                 </div>
+                                             )}
                                          </div>
                                          <Button
                                              type="button"
@@ -538,7 +2052,7 @@ export default function DisparityCalculator() {
                                              size="icon"
                                              onClick={() => {
                                                  remove(index);
-                                                  setReportResults(null);
+                                                  setCalculatedResults(null);
                                                   setCalculationError(null);
                                               }}
                                              disabled={fields.length <= 0}
@@ -560,7 +2074,12 @@ export default function DisparityCalculator() {
                                       while (existingNames.includes(newName)) {
                                           newName = `Group ${fields.length + 1}-${suffix++}`;
                                       }
-                                      append({ name: newName, experienced: 0, total: 0 });
+                                      append({
+                                          name: newName, experienced: 0, total: 0, isReference: false, score: undefined, benchmark: undefined,
+                                          strata: form.getValues('strata').map(() => ({ experienced: 0, total: 0 })),
+                                          periods: form.getValues('periods').map(() => ({ experienced: 0, total: 0 })),
+                                          outcomeCounts: form.getValues('outcomeLabels').map(() => 0),
+                                      });
                                   }}
                                  className="mt-2"
                              >
@@ -626,16 +2145,108 @@ export default function DisparityCalculator() {
                              </Alert>
                           )}
 
+                        {periodResults && periodResults.periods.length > 0 && (
+                             <div className="flex items-center gap-3">
+                                 <Label htmlFor="reportPeriod" className="whitespace-nowrap">Report for Period</Label>
+                                 <Select value={String(selectedPeriod)} onValueChange={handleSelectPeriod}>
+                                     <SelectTrigger id="reportPeriod" className="max-w-xs">
+                                         <SelectValue />
+                                     </SelectTrigger>
+                                     <SelectContent>
+                                         {periodResults.periods.map((period, index) => (
+                                             <SelectItem key={period.name} value={String(index)}>{period.name}</SelectItem>
+                                         ))}
+                                     </SelectContent>
+                                 </Select>
+                             </div>
+                        )}
 
                         {reportResults && form.formState.isValid && (
                              <div className="space-y-2 p-4 border rounded-md bg-card mb-6 shadow">
                                 <h3 className="text-md font-semibold text-primary border-b pb-1 mb-2">Report Parameters</h3>
                                 <div className="text-sm grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
                                      <div><strong>Significance Level (α):</strong> {formatDecimal(form.getValues('alpha'), 4)}</div>
+                                     <div><strong>Pairwise Test:</strong> {
+                                         form.getValues('pairwiseMethod') === 'auto'
+                                             ? "Auto (Fisher's exact when an expected count < 5)"
+                                             : form.getValues('pairwiseMethod') === 'fisher'
+                                                 ? pairwiseTestLabel(form.getValues('fisherAlternative') === 'less' ? 'fisherLess' : form.getValues('fisherAlternative') === 'greater' ? 'fisherGreater' : 'fisherTwoSided')
+                                                 : 'Chi-square'
+                                     }</div>
+                                     <div><strong>Rate Confidence Interval:</strong> {rateCiMethodLabel(form.getValues('rateCiMethod'))}, {formatDecimal(form.getValues('confidenceLevel') * 100, 1)}%</div>
+                                     <div><strong>Multiple Comparison Correction:</strong> {correctionLabel(form.getValues('correction'))}</div>
+                                     <div><strong>Difference of Interest:</strong> {formatDecimal(form.getValues('differenceOfInterest'), 1)} pp</div>
+                                     <div><strong>Fragility Threshold:</strong> {form.getValues('fragilityThreshold')} outcome flips</div>
+                                     <div><strong>Reference Category(s):</strong> {form.getValues('groups').filter(g => g.isReference).map(g => g.name).join(', ') || 'None'}</div>
+                                     {reportResults.overallStats?.trendTest && (
+                                         <div><strong>Trend Scores:</strong> {reportResults.contingencySummary.filter(g => g.rowTotal > 0).map((g, i) => `${g.name} = ${formatDecimal(reportResults.overallStats!.trendTest!.scores[i], 2)}`).join(', ')}</div>
+                                     )}
+                                     {reportResults.adverseImpact && (
+                                         <div><strong>Adverse Impact Threshold:</strong> {formatDecimal(reportResults.adverseImpact.threshold, 2)} (comparator: {reportResults.adverseImpact.comparatorGroup})</div>
+                                     )}
+                                     {reportResults.utilization && (
+                                         <div><strong>Utilization Benchmarks:</strong> {reportResults.utilization.groups.map(g => `${g.group} = ${formatDecimal(g.benchmark, 4)}`).join(', ')}</div>
+                                     )}
+                                     {reportResults.bayesian && (
+                                         <div><strong>Bayesian Prior:</strong> Beta({formatDecimal(reportResults.bayesian.priorAlpha, 2)}, {formatDecimal(reportResults.bayesian.priorBeta, 2)}), ratio threshold {formatDecimal(reportResults.bayesian.ratioThreshold, 2)}</div>
+                                     )}
+                                     {reportResults.equivalence && (
+                                         <div><strong>Equivalence Margin:</strong> {formatEquivalenceRange(reportResults.equivalence)} (TOST, {reportResults.equivalence.scale === 'ratio' ? 'log risk ratio' : 'Agresti–Caffo risk difference'})</div>
+                                     )}
+                                     {reportResults.bootstrap && (
+                                         <div><strong>Bootstrap:</strong> {reportResults.bootstrap.replicates.toLocaleString()} {reportResults.bootstrap.method} replicates, seed {reportResults.bootstrap.seed}</div>
+                                     )}
+                                     {reportResults.adjustedDisparity && (
+                                         <div><strong>Regression Covariates:</strong> {reportResults.adjustedDisparity.covariates.join(', ') || 'None'} (reference: {reportResults.adjustedDisparity.referenceGroup})</div>
+                                     )}
+                                     {reportResults.outcomeTable && (
+                                         <div><strong>Outcome Levels:</strong> {reportResults.outcomeTable.outcomeLabels.join(', ')} (focus: {reportResults.outcomeTable.focusOutcome})</div>
+                                     )}
+                                     {reportResults.stratifiedAnalysis && (
+                                         <div><strong>Strata:</strong> {reportResults.stratifiedAnalysis.strata.join(', ')}</div>
+                                     )}
+                                     {reportResults.privacy && (
+                                         <div><strong>Differential Privacy:</strong> ε = {formatDecimal(reportResults.privacy.epsilon, 3)}, noise SD {formatDecimal(reportResults.privacy.noiseStandardDeviation, 2)} per count</div>
+                                     )}
+                                     {reportResults.suppression && (
+                                         <div><strong>Small-Cell Suppression:</strong> counts below {reportResults.suppression.threshold} (publication mode)</div>
+                                     )}
+                                     {periodResults && periodResults.periods[selectedPeriod] && (
+                                         <div><strong>Period:</strong> {periodResults.periods[selectedPeriod].name} (of {periodResults.periods.map(p => p.name).join(', ')})</div>
+                                     )}
                                 </div>
                              </div>
                         )}
 
+                          {reportResults?.suppression && (
+                             <Alert variant="default" className="w-full mb-4">
+                                 <Info className="h-4 w-4" />
+                                 <AlertTitle>Publication mode</AlertTitle>
+                                 <AlertDescription>
+                                     Counts from 1 to {reportResults.suppression.threshold - 1} are suppressed, along with the counts that would let them be recovered from the totals; both are shown as {SUPPRESSED_MARKER}.
+                                     {reportResults.suppression.withheldGroups.length > 0 && ` Rates, residuals and comparisons involving ${reportResults.suppression.withheldGroups.join(', ')} are withheld.`}
+                                     {reportResults.suppression.withheldSections.length > 0 && ` Also withheld: ${reportResults.suppression.withheldSections.join(', ')}.`}
+                                 </AlertDescription>
+                             </Alert>
+                          )}
+
+                          {reportResults?.pairwiseComparisons && form.getValues('pairwiseMethod') === 'chiSquare'
+                            && reportResults.pairwiseComparisons.some((pair: PairwiseComparison) => pair.minExpected < 5) && (
+                             <Alert variant="default" className="w-full mb-4">
+                                 <Info className="h-4 w-4" />
+                                 <AlertTitle>Small expected counts in pairwise comparisons</AlertTitle>
+                                 <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                                     <span>
+                                         One or more pairs have an expected cell count below 5, where the Chi-square approximation is unreliable.
+                                         Fisher&apos;s exact test gives a defensible p-value for these pairs.
+                                     </span>
+                                     <Button type="button" variant="outline" size="sm" onClick={handleUseExactForSmallPairs}>
+                                         Use Fisher&apos;s exact where needed
+                                     </Button>
+                                 </AlertDescription>
+                             </Alert>
+                          )}
+
                           {reportResults?.contingencySummary && reportResults.contingencySummary.length > 0 && reportResults.totals && (
                              <div className="space-y-2">
                                  <h3 className="text-lg font-semibold text-primary mb-2">Contingency Table Summary</h3>
@@ -646,47 +2257,233 @@ export default function DisparityCalculator() {
                                                   <TableHead rowSpan={2} className="align-bottom pb-2">Category (Race)</TableHead>
                                                   <TableHead colSpan={3} className="text-center border-l border-r">Observed (Actual)</TableHead>
                                                   <TableHead rowSpan={2} className="text-center border-r align-bottom pb-2">% Experienced</TableHead>
+                                                  <TableHead rowSpan={2} className="text-center border-r align-bottom pb-2">
+                                                      {formatDecimal(reportResults.rateCI.confidenceLevel * 100, 0)}% CI ({rateCiMethodLabel(reportResults.rateCI.method)})
+                                                  </TableHead>
                                                   <TableHead colSpan={2} className="text-center border-r">Expected</TableHead>
-                                                  <TableHead rowSpan={2} className="text-center align-bottom pb-2">Chi-Sq Contribution</TableHead>
+                                                  <TableHead colSpan={3} className="text-center border-r">Chi-Sq Contribution</TableHead>
+                                                  <TableHead colSpan={2} className="text-center border-r">Pearson Residual</TableHead>
+                                                  <TableHead colSpan={2} className="text-center">Adjusted Residual</TableHead>
                                              </TableRow>
                                               <TableRow className="hover:bg-table-header-bg">
                                                    <TableHead className="text-right border-l"># Did NOT Experience</TableHead>
                                                    <TableHead className="text-right"># Experienced</TableHead>
                                                    <TableHead className="text-right border-r">Row Subtotal</TableHead>
                                                    <TableHead className="text-right border-r"># Did NOT Experience</TableHead>
-                                                   <TableHead className="text-right"># Experienced</TableHead>
+                                                   <TableHead className="text-right border-r"># Experienced</TableHead>
+                                                   <TableHead className="text-right">Did NOT Experience</TableHead>
+                                                   <TableHead className="text-right">Experienced</TableHead>
+                                                   <TableHead className="text-right border-r">Row Subtotal</TableHead>
+                                                   <TableHead className="text-right">Did NOT Experience</TableHead>
+                                                   <TableHead className="text-right border-r">Experienced</TableHead>
+                                                   <TableHead className="text-right">Did NOT Experience</TableHead>
+                                                   <TableHead className="text-right">Experienced</TableHead>
                                               </TableRow>
                                          </TableHeader>
                                          <TableBody>
-                                             {reportResults.contingencySummary.map((row) => (
+                                             {reportResults.contingencySummary.map((row) => {
+                                                 const suppressed = reportResults.suppression?.groups[row.name];
+                                                 const rowWithheld = isWithheldGroup(row.name);
+                                                 const residualsWithheld = rowWithheld || !!reportResults.suppression?.expectedWithheld;
+                                                 // Positive residuals mean more of that outcome than expected
+                                                 const adjustedResidualCell = (residual: number | null, significant: boolean) => (
+                                                     <TableCell
+                                                         className={cn(
+                                                             "text-right py-2 px-4 whitespace-nowrap",
+                                                             !significant ? 'text-muted-foreground'
+                                                                 : (row.adjustedResidual ?? 0) > 0 ? 'text-destructive font-semibold' : 'text-blue-700 dark:text-blue-400 font-semibold',
+                                                         )}
+                                                     >
+                                                         {residualsWithheld ? SUPPRESSED_MARKER : residual === null ? 'N/A' : `${residual > 0 ? '+' : ''}${formatDecimal(residual, 2)}`}
+                                                         {significant && <sup className="ml-0.5">*</sup>}
+                                                     </TableCell>
+                                                 );
+                                                 return (
                                                  <TableRow key={row.name} className={cn("table-row-alt", "hover:bg-muted/50")}>
                                                       <TableCell className="font-medium py-2 px-4">{row.name}</TableCell>
-                                                      <TableCell className="text-right py-2 px-4 table-cell-tint border-l">{row.notExperienced.toLocaleString()}</TableCell>
-                                                      <TableCell className="text-right py-2 px-4 table-cell-tint">{row.experienced.toLocaleString()}</TableCell>
-                                                      <TableCell className="text-right py-2 px-4 table-cell-tint border-r">{row.rowTotal.toLocaleString()}</TableCell>
-                                                      <TableCell className="text-right py-2 px-4 table-cell-tint border-r">{formatPercent(row.percentExperienced)}</TableCell>
-                                                      <TableCell className="text-right py-2 px-4 border-r">{formatDecimal(row.expectedNotExperienced, 1)}</TableCell>
-                                                      <TableCell className="text-right py-2 px-4">{formatDecimal(row.expectedExperienced, 1)}</TableCell>
-                                                      <TableCell className="text-right py-2 px-4">{formatDecimal(row.chiSquareContribution, 3)}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4 table-cell-tint border-l">{withheldOr(!!suppressed?.notExperienced, row.notExperienced.toLocaleString())}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4 table-cell-tint">{withheldOr(!!suppressed?.experienced, row.experienced.toLocaleString())}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4 table-cell-tint border-r">{withheldOr(!!suppressed?.total, row.rowTotal.toLocaleString())}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4 table-cell-tint border-r">{withheldOr(rowWithheld, formatPercent(row.percentExperienced))}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4 table-cell-tint border-r whitespace-nowrap">{withheldOr(rowWithheld, formatPercentCI(row.percentExperiencedCI))}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4 border-r">{withheldOr(residualsWithheld, formatDecimal(row.expectedNotExperienced, 1))}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4 border-r">{withheldOr(residualsWithheld, formatDecimal(row.expectedExperienced, 1))}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4">{withheldOr(residualsWithheld, formatDecimal(row.chiSquareContributionNotExperienced, 3))}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4">{withheldOr(residualsWithheld, formatDecimal(row.chiSquareContributionExperienced, 3))}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4 border-r">{withheldOr(residualsWithheld, formatDecimal(row.chiSquareContribution, 3))}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4">{withheldOr(residualsWithheld, formatDecimal(row.pearsonResidualNotExperienced, 2))}</TableCell>
+                                                      <TableCell className="text-right py-2 px-4 border-r">{withheldOr(residualsWithheld, formatDecimal(row.pearsonResidual, 2))}</TableCell>
+                                                      {adjustedResidualCell(row.adjustedResidualNotExperienced, row.adjustedResidualNotExperiencedSignificant)}
+                                                      {adjustedResidualCell(row.adjustedResidual, row.adjustedResidualSignificant)}
                                                  </TableRow>
-                                             ))}
+                                                 );
+                                             })}
                                          </TableBody>
                                          <TableFooter>
                                                <TableRow className="bg-muted/80 font-semibold hover:bg-muted">
                                                     <TableCell className="py-2 px-4">Column Subtotal</TableCell>
-                                                    <TableCell className="text-right py-2 px-4 border-l">{reportResults.totals.totalNotExperienced.toLocaleString()}</TableCell>
-                                                    <TableCell className="text-right py-2 px-4">{reportResults.totals.totalExperienced.toLocaleString()}</TableCell>
-                                                    <TableCell className="text-right py-2 px-4 border-r">{reportResults.totals.grandTotal.toLocaleString()}</TableCell>
+                                                    <TableCell className="text-right py-2 px-4 border-l">{withheldOr(!!reportResults.suppression?.totals.notExperienced, reportResults.totals.totalNotExperienced.toLocaleString())}</TableCell>
+                                                    <TableCell className="text-right py-2 px-4">{withheldOr(!!reportResults.suppression?.totals.experienced, reportResults.totals.totalExperienced.toLocaleString())}</TableCell>
+                                                    <TableCell className="text-right py-2 px-4 border-r">{withheldOr(!!reportResults.suppression?.totals.total, reportResults.totals.grandTotal.toLocaleString())}</TableCell>
                                                      <TableCell className="text-right py-2 px-4 border-r">
-                                                        {reportResults.totals.grandTotal > 0 ? formatPercent((reportResults.totals.totalExperienced / reportResults.totals.grandTotal) * 100) : 'N/A'}
+                                                        {withheldOr(
+                                                            !!reportResults.suppression?.totals.experienced || !!reportResults.suppression?.totals.total,
+                                                            reportResults.totals.grandTotal > 0 ? formatPercent((reportResults.totals.totalExperienced / reportResults.totals.grandTotal) * 100) : 'N/A',
+                                                        )}
                                                      </TableCell>
-                                                    <TableCell className="text-right py-2 px-4 border-r">{formatDecimal(reportResults.totals.totalExpectedNotExperienced, 1)}</TableCell>
-                                                    <TableCell className="text-right py-2 px-4">{formatDecimal(reportResults.totals.totalExpectedExperienced, 1)}</TableCell>
-                                                    <TableCell className="text-right py-2 px-4">{formatDecimal(reportResults.totals.totalChiSquareContributions, 3)}</TableCell>
+                                                     <TableCell className="text-right py-2 px-4 border-r whitespace-nowrap">{withheldOr(!!reportResults.suppression?.totals.experienced || !!reportResults.suppression?.totals.total, formatPercentCI(reportResults.totals.percentExperiencedCI))}</TableCell>
+                                                    <TableCell className="text-right py-2 px-4 border-r">{withheldOr(!!reportResults.suppression?.totals.notExperienced, formatDecimal(reportResults.totals.totalExpectedNotExperienced, 1))}</TableCell>
+                                                    <TableCell className="text-right py-2 px-4 border-r">{withheldOr(!!reportResults.suppression?.totals.experienced, formatDecimal(reportResults.totals.totalExpectedExperienced, 1))}</TableCell>
+                                                    <TableCell className="text-right py-2 px-4">{withheldOr(isWithheldGroup(...reportResults.contingencySummary.map(g => g.name)), formatDecimal(reportResults.totals.totalChiSquareContributionsNotExperienced, 3))}</TableCell>
+                                                    <TableCell className="text-right py-2 px-4">{withheldOr(isWithheldGroup(...reportResults.contingencySummary.map(g => g.name)), formatDecimal(reportResults.totals.totalChiSquareContributionsExperienced, 3))}</TableCell>
+                                                    <TableCell className="text-right py-2 px-4 border-r">{withheldOr(isWithheldGroup(...reportResults.contingencySummary.map(g => g.name)), formatDecimal(reportResults.totals.totalChiSquareContributions, 3))}</TableCell>
+                                                    <TableCell className="py-2 px-4 border-r" colSpan={2} />
+                                                    <TableCell className="py-2 px-4" colSpan={2} />
                                                </TableRow>
                                           </TableFooter>
                                      </Table>
                                  </div>
+                                 <p className="text-xs text-muted-foreground italic mt-2">
+                                     Pearson residuals are (observed − expected) / √expected for each cell; adjusted residuals put the same gap in standard-error units, so the two cells of a row mirror each other.
+                                     Colours follow the # Experienced cell.
+                                     <sup>*</sup> Significant after the {correctionLabel(reportResults.overallStats?.correction ?? form.getValues('correction'))} correction across categories:{' '}
+                                     <span className="text-destructive font-semibold">red</span> categories experience the outcome more often than expected,{' '}
+                                     <span className="text-blue-700 dark:text-blue-400 font-semibold">blue</span> categories less often.
+                                 </p>
+                                 {reportResults.suppression && (
+                                     <p className="text-xs text-muted-foreground italic">
+                                         {SUPPRESSED_MARKER} Suppressed for publication: a count from 1 to {reportResults.suppression.threshold - 1}, a count that would reveal one, or a statistic computed from them.
+                                     </p>
+                                 )}
+                             </div>
+                         )}
+
+                         {reportResults?.privacy && (
+                             <PrivacyRelease privacy={reportResults.privacy} />
+                         )}
+
+                         {reportResults?.outcomeTable && (
+                             <div className="space-y-4">
+                                 <h3 className="text-lg font-semibold text-primary mb-2">
+                                     Outcome Levels ({reportResults.outcomeTable.rows.length}×{reportResults.outcomeTable.outcomeLabels.length} Table)
+                                 </h3>
+                                 <div className="text-sm space-y-1 bg-secondary/30 p-3 rounded-md">
+                                     <div>
+                                         <strong>Chi-Square (Pearson):</strong> χ² = {formatDecimal(reportResults.outcomeTable.chiSquare.statistic)},
+                                         df = {reportResults.outcomeTable.chiSquare.degreesOfFreedom}, p = {formatScientific(reportResults.outcomeTable.chiSquare.pValue, 3)}
+                                         {' '}{renderInterpretation(reportResults.outcomeTable.chiSquare.pValue, form.getValues('alpha'))}
+                                     </div>
+                                     <div>
+                                         <strong>G-Test (Likelihood Ratio):</strong> G = {formatDecimal(reportResults.outcomeTable.gTest.statistic)},
+                                         df = {reportResults.outcomeTable.gTest.degreesOfFreedom}, p = {formatScientific(reportResults.outcomeTable.gTest.pValue, 3)}
+                                         {' '}{renderInterpretation(reportResults.outcomeTable.gTest.pValue, form.getValues('alpha'))}
+                                     </div>
+                                     {reportResults.outcomeTable.effectSize && (
+                                         <div>
+                                             <strong>Cramér&apos;s V:</strong> {formatEffect(reportResults.outcomeTable.effectSize.cramersV, 3)}
+                                             {' '}<span className="text-muted-foreground">({effectMagnitudeLabel(reportResults.outcomeTable.effectSize.magnitude)})</span>
+                                         </div>
+                                     )}
+                                     <div className="text-muted-foreground">
+                                         The other sections of this report compare <strong>{reportResults.outcomeTable.focusOutcome}</strong> with all other levels combined.
+                                     </div>
+                                 </div>
+                                 <div className="overflow-x-auto rounded-md border shadow-sm">
+                                     <Table>
+                                         <TableHeader className="table-header-dark">
+                                             <TableRow className="hover:bg-table-header-bg">
+                                                 <TableHead>Category</TableHead>
+                                                 {reportResults.outcomeTable.outcomeLabels.map(label => (
+                                                     <TableHead key={label} className="text-right border-l">{label}</TableHead>
+                                                 ))}
+                                                 <TableHead className="text-right border-l">Row Subtotal</TableHead>
+                                             </TableRow>
+                                         </TableHeader>
+                                         <TableBody>
+                                             {reportResults.outcomeTable.rows.map(row => (
+                                                 <TableRow key={`${row.group}-outcomes`} className="table-row-alt hover:bg-muted/50">
+                                                     <TableCell className="font-medium py-2 px-4">{row.group}</TableCell>
+                                                     {row.cells.map((cell, j) => (
+                                                         <TableCell key={j} className="text-right py-2 px-4 border-l table-cell-tint">
+                                                             <div>{cell.observed.toLocaleString()} ({formatPercent(cell.rowPercent)})</div>
+                                                             <div
+                                                                 className={cn(
+                                                                     "text-xs whitespace-nowrap",
+                                                                     !cell.adjustedResidualSignificant ? 'text-muted-foreground'
+                                                                         : cell.adjustedResidual > 0 ? 'text-destructive font-semibold' : 'text-blue-700 dark:text-blue-400 font-semibold',
+                                                                 )}
+                                                             >
+                                                                 {isFinite(cell.adjustedResidual) ? `${cell.adjustedResidual > 0 ? '+' : ''}${formatDecimal(cell.adjustedResidual, 2)}` : 'N/A'}
+                                                                 {cell.adjustedResidualSignificant && <sup className="ml-0.5">*</sup>}
+                                                             </div>
+                                                         </TableCell>
+                                                     ))}
+                                                     <TableCell className="text-right py-2 px-4 border-l">{row.rowTotal.toLocaleString()}</TableCell>
+                                                 </TableRow>
+                                             ))}
+                                         </TableBody>
+                                         <TableFooter>
+                                             <TableRow className="bg-muted/80 font-semibold hover:bg-muted">
+                                                 <TableCell className="py-2 px-4">Column Subtotal</TableCell>
+                                                 {reportResults.outcomeTable.columnTotals.map((total, j) => (
+                                                     <TableCell key={j} className="text-right py-2 px-4 border-l">{total.toLocaleString()}</TableCell>
+                                                 ))}
+                                                 <TableCell className="text-right py-2 px-4 border-l">{reportResults.outcomeTable.grandTotal.toLocaleString()}</TableCell>
+                                             </TableRow>
+                                         </TableFooter>
+                                     </Table>
+                                 </div>
+                                 <p className="text-xs text-muted-foreground italic mt-2">
+                                     Each cell shows the count, the share of the category in parentheses, and the adjusted residual below it.
+                                     <sup>*</sup> Significant after the {correctionLabel(form.getValues('correction'))} correction across all cells:{' '}
+                                     <span className="text-destructive font-semibold">red</span> cells are more frequent than expected,{' '}
+                                     <span className="text-blue-700 dark:text-blue-400 font-semibold">blue</span> cells less frequent.
+                                 </p>
+                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                     <div className="overflow-x-auto rounded-md border shadow-sm">
+                                         <Table>
+                                             <TableHeader className="table-header-dark">
+                                                 <TableRow className="hover:bg-table-header-bg">
+                                                     <TableHead>Pair (2×{reportResults.outcomeTable.outcomeLabels.length})</TableHead>
+                                                     <TableHead className="text-right">χ² (df)</TableHead>
+                                                     <TableHead className="text-right">P-Value (Corrected)</TableHead>
+                                                 </TableRow>
+                                             </TableHeader>
+                                             <TableBody>
+                                                 {reportResults.outcomeTable.pairwise.map((pair: OutcomePairComparison) => (
+                                                     <TableRow key={`${pair.group1}-${pair.group2}-outcomes`} className="table-row-alt hover:bg-muted/50">
+                                                         <TableCell className="font-medium py-2 px-4">{pair.group1} vs {pair.group2}</TableCell>
+                                                         <TableCell className="text-right py-2 px-4">{formatDecimal(pair.chiSquare.statistic, 2)} ({pair.chiSquare.degreesOfFreedom})</TableCell>
+                                                         <TableCell className={cn("text-right py-2 px-4", pair.isSignificant ? 'text-destructive font-semibold' : '')}>{formatScientific(pair.pValueCorrected, 3)}</TableCell>
+                                                     </TableRow>
+                                                 ))}
+                                             </TableBody>
+                                         </Table>
+                                     </div>
+                                     <div className="overflow-x-auto rounded-md border shadow-sm">
+                                         <Table>
+                                             <TableHeader className="table-header-dark">
+                                                 <TableRow className="hover:bg-table-header-bg">
+                                                     <TableHead>Outcome Level vs Rest</TableHead>
+                                                     <TableHead className="text-right">χ² (df)</TableHead>
+                                                     <TableHead className="text-right">P-Value (Corrected)</TableHead>
+                                                 </TableRow>
+                                             </TableHeader>
+                                             <TableBody>
+                                                 {reportResults.outcomeTable.perOutcome.map((level: OutcomeLevelComparison) => (
+                                                     <TableRow key={`${level.outcome}-level`} className="table-row-alt hover:bg-muted/50">
+                                                         <TableCell className="font-medium py-2 px-4">{level.outcome}</TableCell>
+                                                         <TableCell className="text-right py-2 px-4">{formatDecimal(level.chiSquare.statistic, 2)} ({level.chiSquare.degreesOfFreedom})</TableCell>
+                                                         <TableCell className={cn("text-right py-2 px-4", level.isSignificant ? 'text-destructive font-semibold' : '')}>{formatScientific(level.pValueCorrected, 3)}</TableCell>
+                                                     </TableRow>
+                                                 ))}
+                                             </TableBody>
+                                         </Table>
+                                     </div>
+                                 </div>
+                                 <p className="text-xs text-muted-foreground italic mt-2">
+                                     Pairwise tests compare the full outcome distributions of two categories; outcome-level tests compare the categories on one level against all others combined. Both families are corrected with the selected method.
+                                 </p>
                              </div>
                          )}
 
@@ -709,16 +2506,24 @@ export default function DisparityCalculator() {
                                                <span className="font-medium"># of Pairwise Comparisons:</span>
                                                <span>{reportResults.overallStats.numComparisons}</span>
                                            </div>
-                                           {reportResults.overallStats.numComparisons > 0 && (
-                                                <div className="flex justify-between">
-                                                    <span className="font-medium">Bonferroni Corrected α:</span>
-                                                     <span>{formatScientific(reportResults.overallStats.limitAlpha / reportResults.overallStats.numComparisons, 3)}</span>
-                                                </div>
-                                           )}
-                                           {reportResults.overallStats.numComparisons <= 0 && (
+                                           <div className="flex justify-between">
+                                               <span className="font-medium">Correction:</span>
+                                               <span>{correctionLabel(reportResults.overallStats.correction)}</span>
+                                           </div>
+                                           <div className="flex justify-between">
+                                               <span className="font-medium">Per-Comparison α:</span>
+                                               <span>
+                                                   {reportResults.overallStats.perComparisonAlpha !== null
+                                                       ? formatScientific(reportResults.overallStats.perComparisonAlpha, 3)
+                                                       : 'N/A (stepwise; compare adjusted p to α)'}
+                                               </span>
+                                           </div>
+                                           {reportResults.overallStats.power && (
                                                <div className="flex justify-between">
-                                                  <span className="font-medium">Bonferroni Corrected α:</span>
-                                                  <span>N/A</span>
+                                                   <span className="font-medium">Min. Detectable Difference (80% power):</span>
+                                                   <span className={cn(reportResults.overallStats.power.underpowered ? 'text-yellow-700 dark:text-yellow-300 font-semibold' : '')}>
+                                                       {formatDecimal(reportResults.overallStats.power.minimumDetectableDifference, 1)} pp
+                                                   </span>
                                                </div>
                                            )}
                                       </div>
@@ -739,9 +2544,22 @@ export default function DisparityCalculator() {
                                                        <TableCell className="text-right py-1">{formatDecimal(reportResults.overallStats.chiSquare.statistic)}</TableCell>
                                                        <TableCell className={cn("text-right py-1", reportResults.overallStats.chiSquare.pValue < reportResults.overallStats.limitAlpha ? 'text-destructive font-semibold' : '')}>
                                                            {formatScientific(reportResults.overallStats.chiSquare.pValue)}
+                                                           {reportResults.overallStats.fragilityIndex !== null && (
+                                                               <span className={cn("block text-[10px] font-normal", reportResults.overallStats.fragilityIndex < reportResults.overallStats.fragilityThreshold ? 'text-yellow-700 dark:text-yellow-300' : 'text-muted-foreground')}>
+                                                                   {reportResults.overallStats.fragilityIndex < reportResults.overallStats.fragilityThreshold && '⚠ '}FI {reportResults.overallStats.fragilityIndex.toLocaleString()}
+                                                               </span>
+                                                           )}
                                                        </TableCell>
                                                         <TableCell className="text-right pr-0 py-1">
-                                                            {renderInterpretation(reportResults.overallStats.chiSquare.pValue, reportResults.overallStats.limitAlpha)}
+                                                            {renderInterpretation(
+                                                                reportResults.overallStats.chiSquare.pValue,
+                                                                reportResults.overallStats.limitAlpha,
+                                                                undefined,
+                                                                reportResults.overallStats.effectSize?.magnitude,
+                                                                reportResults.overallStats.power?.underpowered
+                                                                    ? `rate spreads below ${formatDecimal(reportResults.overallStats.power.minimumDetectableDifference, 1)} pp could not be reliably detected.`
+                                                                    : null,
+                                                            )}
                                                         </TableCell>
                                                    </TableRow>
                                                     <TableRow className="border-b-0 hover:bg-transparent">
@@ -764,6 +2582,106 @@ export default function DisparityCalculator() {
                                                             {renderInterpretation(reportResults.overallStats.gTest.pValue, reportResults.overallStats.limitAlpha)}
                                                         </TableCell>
                                                     </TableRow>
+                                                    {reportResults.overallStats.exactTest && (
+                                                        <TableRow className="border-b-0 hover:bg-transparent">
+                                                            <TableCell className="font-medium pl-0 py-1">
+                                                                Exact (Freeman–Halton)
+                                                                <span className="block text-xs font-normal text-muted-foreground">
+                                                                    {reportResults.overallStats.exactTest.tablesEnumerated.toLocaleString()} tables enumerated
+                                                                </span>
+                                                            </TableCell>
+                                                            <TableCell className="text-right py-1">-</TableCell>
+                                                            <TableCell className={cn("text-right py-1", reportResults.overallStats.exactTest.pValue < reportResults.overallStats.limitAlpha ? 'text-destructive font-semibold' : '')}>
+                                                                {formatScientific(reportResults.overallStats.exactTest.pValue)}
+                                                            </TableCell>
+                                                            <TableCell className="text-right pr-0 py-1">
+                                                                {renderInterpretation(reportResults.overallStats.exactTest.pValue, reportResults.overallStats.limitAlpha)}
+                                                            </TableCell>
+                                                        </TableRow>
+                                                    )}
+                                                    {reportResults.overallStats.monteCarlo && (
+                                                        <TableRow className="border-b-0 hover:bg-transparent">
+                                                            <TableCell className="font-medium pl-0 py-1">
+                                                                Monte Carlo (Chi-square)
+                                                                <span className="block text-xs font-normal text-muted-foreground">
+                                                                    B = {reportResults.overallStats.monteCarlo.replicates.toLocaleString()}, seed = {reportResults.overallStats.monteCarlo.seed}
+                                                                </span>
+                                                            </TableCell>
+                                                            <TableCell className="text-right py-1">{formatDecimal(reportResults.overallStats.monteCarlo.statistic)}</TableCell>
+                                                            <TableCell className={cn("text-right py-1", reportResults.overallStats.monteCarlo.pValue < reportResults.overallStats.limitAlpha ? 'text-destructive font-semibold' : '')}>
+                                                                {formatScientific(reportResults.overallStats.monteCarlo.pValue)}
+                                                                <span className="block text-xs font-normal text-muted-foreground">
+                                                                    SE {formatScientific(reportResults.overallStats.monteCarlo.standardError, 2)}
+                                                                </span>
+                                                            </TableCell>
+                                                            <TableCell className="text-right pr-0 py-1">
+                                                                {renderInterpretation(reportResults.overallStats.monteCarlo.pValue, reportResults.overallStats.limitAlpha)}
+                                                            </TableCell>
+                                                        </TableRow>
+                                                    )}
+                                                    {reportResults.overallStats.trendTest && (
+                                                        <>
+                                                            <TableRow className="border-b-0 hover:bg-transparent">
+                                                                <TableCell className="font-medium pl-0 py-1">
+                                                                    Cochran–Armitage Trend
+                                                                    <span className="block text-xs font-normal text-muted-foreground">
+                                                                        Z = {formatDecimal(reportResults.overallStats.trendTest.zStatistic)} (rate {reportResults.overallStats.trendTest.zStatistic >= 0 ? 'rises' : 'falls'} with score), df = 1
+                                                                    </span>
+                                                                </TableCell>
+                                                                <TableCell className="text-right py-1">{formatDecimal(reportResults.overallStats.trendTest.statistic)}</TableCell>
+                                                                <TableCell className={cn("text-right py-1", reportResults.overallStats.trendTest.pValue < reportResults.overallStats.limitAlpha ? 'text-destructive font-semibold' : '')}>
+                                                                    {formatScientific(reportResults.overallStats.trendTest.pValue)}
+                                                                </TableCell>
+                                                                <TableCell className="text-right pr-0 py-1">
+                                                                    {renderInterpretation(reportResults.overallStats.trendTest.pValue, reportResults.overallStats.limitAlpha)}
+                                                                </TableCell>
+                                                            </TableRow>
+                                                            <TableRow className="border-b-0 hover:bg-transparent">
+                                                                <TableCell className="font-medium pl-0 py-1">Linear-by-Linear Association</TableCell>
+                                                                <TableCell className="text-right py-1">{formatDecimal(reportResults.overallStats.trendTest.linearByLinear.statistic)}</TableCell>
+                                                                <TableCell className={cn("text-right py-1", reportResults.overallStats.trendTest.linearByLinear.pValue < reportResults.overallStats.limitAlpha ? 'text-destructive font-semibold' : '')}>
+                                                                    {formatScientific(reportResults.overallStats.trendTest.linearByLinear.pValue)}
+                                                                </TableCell>
+                                                                <TableCell className="text-right pr-0 py-1">
+                                                                    {renderInterpretation(reportResults.overallStats.trendTest.linearByLinear.pValue, reportResults.overallStats.limitAlpha)}
+                                                                </TableCell>
+                                                            </TableRow>
+                                                            {reportResults.overallStats.trendTest.departure && (
+                                                                <TableRow className="border-b-0 hover:bg-transparent">
+                                                                    <TableCell className="font-medium pl-0 py-1">
+                                                                        Departure from Linear Trend
+                                                                        <span className="block text-xs font-normal text-muted-foreground">
+                                                                            df = {reportResults.overallStats.trendTest.departure.degreesOfFreedom}
+                                                                        </span>
+                                                                    </TableCell>
+                                                                    <TableCell className="text-right py-1">{formatDecimal(reportResults.overallStats.trendTest.departure.statistic)}</TableCell>
+                                                                    <TableCell className={cn("text-right py-1", reportResults.overallStats.trendTest.departure.pValue < reportResults.overallStats.limitAlpha ? 'text-destructive font-semibold' : '')}>
+                                                                        {formatScientific(reportResults.overallStats.trendTest.departure.pValue)}
+                                                                    </TableCell>
+                                                                    <TableCell className="text-right pr-0 py-1">
+                                                                        {renderInterpretation(reportResults.overallStats.trendTest.departure.pValue, reportResults.overallStats.limitAlpha)}
+                                                                    </TableCell>
+                                                                </TableRow>
+                                                            )}
+                                                        </>
+                                                    )}
+                                                    {reportResults.overallStats.effectSize && (
+                                                        <TableRow className="border-b-0 hover:bg-transparent">
+                                                            <TableCell className="font-medium pl-0 py-1">
+                                                                Cramér&apos;s V
+                                                                <span className="block text-xs font-normal text-muted-foreground">
+                                                                    Bias-corrected V = {formatDecimal(reportResults.overallStats.effectSize.cramersVCorrected, 3)}
+                                                                </span>
+                                                            </TableCell>
+                                                            <TableCell className="text-right py-1 whitespace-nowrap">{formatEffect(reportResults.overallStats.effectSize.cramersV, 3)}</TableCell>
+                                                            <TableCell className="text-right py-1">-</TableCell>
+                                                            <TableCell className="text-right pr-0 py-1">
+                                                                <span className="ml-2 text-xs italic text-muted-foreground">
+                                                                    {effectMagnitudeLabel(reportResults.overallStats.effectSize.magnitude)} association.
+                                                                </span>
+                                                            </TableCell>
+                                                        </TableRow>
+                                                    )}
                                               </TableBody>
                                           </Table>
                                       </div>
@@ -774,11 +2692,11 @@ export default function DisparityCalculator() {
                            {reportResults?.pairwiseResultsMatrix && reportResults?.contingencySummary && reportResults.overallStats && reportResults.overallStats.numComparisons > 0 && reportResults.contingencySummary.length >= 2 && (
                                 <div className="space-y-4">
                                     <h3 className="text-lg font-semibold text-primary mb-2">
-                                        P-Values of Pairwise Chi-Square Comparisons with Bonferroni Correction
+                                        P-Values of Pairwise {form.getValues('pairwiseMethod') === 'chiSquare' ? 'Chi-Square' : form.getValues('pairwiseMethod') === 'fisher' ? "Fisher's Exact" : 'Chi-Square / Fisher\'s Exact'} Comparisons with {correctionLabel(reportResults.overallStats.correction)} Correction
                                     </h3>
                                     <p className="text-xs text-muted-foreground">
-                                        Corrected P-values shown below. The critical alpha for significance is α_bonf = {formatScientific(reportResults.overallStats.limitAlpha / reportResults.overallStats.numComparisons, 3)}.
-                                        Significant p-values (&lt; α_bonf) are highlighted in <span className="text-destructive font-semibold">red and bold</span>.
+                                        Adjusted P-values shown below. A pair is significant when its adjusted p-value is below α = {formatDecimal(reportResults.overallStats.limitAlpha, 4)}.
+                                        Significant p-values are highlighted in <span className="text-destructive font-semibold">red and bold</span>.
                                     </p>
 
                                     <div className="overflow-x-auto rounded-md border shadow-sm">
@@ -797,9 +2715,13 @@ export default function DisparityCalculator() {
                                                         <TableCell className="font-medium sticky left-0 bg-background z-10">{rowName}</TableCell>
                                                         {reportResults.contingencySummary.map(g => g.name).sort().map((colName) => {
                                                             const pValue = reportResults.pairwiseResultsMatrix?.[rowName]?.[colName];
-                                                            const correctedAlpha = (reportResults.overallStats?.limitAlpha ?? 0.05) / Math.max(1, reportResults.overallStats?.numComparisons ?? 1);
-                                                            const isSignificant = typeof pValue === 'number' && !isNaN(pValue) && pValue < correctedAlpha;
+                                                            const isSignificant = reportResults.pairwiseSignificanceMatrix?.[rowName]?.[colName] === true;
                                                             const isDiagonal = rowName === colName;
+                                                            const pair = reportResults.pairwiseComparisons?.find(c =>
+                                                                (c.group1 === rowName && c.group2 === colName) || (c.group1 === colName && c.group2 === rowName));
+                                                            const isExact = !!pair && pair.testUsed !== 'chiSquare';
+                                                            // One-sided pairs carry a fragility index for each direction of the test
+                                                            const fragilityIndex = !pair ? null : rowName === pair.group1 ? pair.fragilityIndex : pair.fragilityIndexReverse;
 
                                                             return (
                                                                 <TableCell
@@ -810,7 +2732,18 @@ export default function DisparityCalculator() {
                                                                         isDiagonal ? 'bg-muted/30' : 'table-cell-tint',
                                                                     )}
                                                                 >
-                                                                     {isDiagonal ? '-' : (pValue === null || isNaN(pValue as number)) ? 'N/A' : formatScientific(pValue as number, 3)}
+                                                                     {isDiagonal ? '-' : isWithheldGroup(rowName, colName) ? SUPPRESSED_MARKER : (pValue === null || isNaN(pValue as number)) ? 'N/A' : formatScientific(pValue as number, 3)}
+                                                                     {!isDiagonal && isExact && <sup className="ml-0.5">†</sup>}
+                                                                     {!isDiagonal && pair && (
+                                                                         <span className={cn("block text-[10px] font-normal", pair.power.underpowered ? 'text-yellow-700 dark:text-yellow-300' : 'text-muted-foreground')}>
+                                                                             {pair.power.underpowered && '⚠ '}MDD {formatDecimal(pair.power.minimumDetectableDifference, 1)} pp
+                                                                         </span>
+                                                                     )}
+                                                                     {!isDiagonal && fragilityIndex !== null && (
+                                                                         <span className={cn("block text-[10px] font-normal", fragilityIndex < reportResults.overallStats!.fragilityThreshold ? 'text-yellow-700 dark:text-yellow-300' : 'text-muted-foreground')}>
+                                                                             {fragilityIndex < reportResults.overallStats!.fragilityThreshold && '⚠ '}FI {fragilityIndex.toLocaleString()}
+                                                                         </span>
+                                                                     )}
                                                                 </TableCell>
                                                             );
                                                         })}
@@ -820,11 +2753,503 @@ export default function DisparityCalculator() {
                                         </Table>
                                     </div>
                                       <p className="text-xs text-muted-foreground italic mt-2">
-                                        <span className="text-destructive font-semibold">Red bold text</span> indicates the pairwise difference is statistically significant (p &lt; α_bonf). Potential disparity between these two groups. Pursue further investigation.
+                                        <span className="text-destructive font-semibold">Red bold text</span> indicates the pairwise difference is statistically significant (adjusted p &lt; α). Potential disparity between these two groups. Pursue further investigation.
+                                      </p>
+                                      <p className="text-xs text-muted-foreground italic">
+                                          MDD is the minimum difference in percentage points the pair could detect with 80% power at its corrected α.
+                                          <span className="text-yellow-700 dark:text-yellow-300"> ⚠ Underpowered</span>: not significant, but differences smaller than the MDD (and larger than the {formatDecimal(form.getValues('differenceOfInterest'), 1)} pp difference of interest) could have gone undetected.
                                       </p>
+                                      {reportResults.pairwiseComparisons?.some(c => c.fragilityIndex !== null || c.fragilityIndexReverse !== null) && (
+                                          <p className="text-xs text-muted-foreground italic">
+                                              FI (fragility index) is the fewest outcome flips in the smaller category of a significant pair, toward the other category&apos;s rate, after which its adjusted p-value is no longer below α, with the same test and correction.
+                                              <span className="text-yellow-700 dark:text-yellow-300"> ⚠ Fragile</span>: fewer than {reportResults.overallStats.fragilityThreshold} flips.
+                                          </p>
+                                      )}
+                                      {reportResults.pairwiseComparisons?.some(c => c.testUsed !== 'chiSquare') && (
+                                          <p className="text-xs text-muted-foreground italic">
+                                              † Evaluated with Fisher&apos;s exact test.
+                                              {form.getValues('pairwiseMethod') === 'fisher' && form.getValues('fisherAlternative') !== 'two-sided' && (
+                                                  <> One-sided tests read row category against column category, so the matrix is not symmetric.</>
+                                              )}
+                                          </p>
+                                      )}
                                 </div>
                            )}
 
+                           {reportResults?.equivalence && reportResults.equivalence.pairs.length > 0 && (
+                                <div className="space-y-4">
+                                    <h3 className="text-lg font-semibold text-primary mb-2">
+                                        Equivalence of Pairs (TOST) with {correctionLabel(form.getValues('correction'))} Correction
+                                    </h3>
+                                    <p className="text-xs text-muted-foreground">
+                                        Equivalence range: {formatEquivalenceRange(reportResults.equivalence)}.
+                                        A pair is <span className="text-primary font-semibold">equivalent</span> when both one-sided tests show its {reportResults.equivalence.scale === 'ratio' ? 'risk ratio' : 'risk difference'} lies inside the range,
+                                        and <span className="text-destructive font-semibold">different</span> when it lies significantly outside it; otherwise the data cannot tell, and the pair is inconclusive.
+                                        Each cell shows the row category relative to the column category, with its {formatDecimal((1 - 2 * form.getValues('alpha')) * 100, 0)}% interval.
+                                    </p>
+                                    <div className="overflow-x-auto rounded-md border shadow-sm">
+                                        <Table>
+                                            <TableHeader className="table-header-dark">
+                                                <TableRow className="hover:bg-table-header-bg">
+                                                    <TableHead className="sticky left-0 bg-table-header-bg z-10">Category</TableHead>
+                                                    {reportResults.contingencySummary.map(g => g.name).sort().map(name => (
+                                                        <TableHead key={name} className="text-right">{name}</TableHead>
+                                                    ))}
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {reportResults.contingencySummary.map(g => g.name).sort().map((rowName) => (
+                                                    <TableRow key={`${rowName}-equivalence`} className="table-row-alt hover:bg-muted/50">
+                                                        <TableCell className="font-medium sticky left-0 bg-background z-10">{rowName}</TableCell>
+                                                        {reportResults.contingencySummary.map(g => g.name).sort().map((colName) => {
+                                                            const equivalence = reportResults.equivalence!;
+                                                            const verdict = equivalence.matrix[rowName]?.[colName] ?? null;
+                                                            const isDiagonal = rowName === colName;
+                                                            const pair = equivalence.pairs.find(c =>
+                                                                (c.group1 === rowName && c.group2 === colName) || (c.group1 === colName && c.group2 === rowName));
+                                                            // Pairs are stored in input order; flip the estimate when the row is the second group
+                                                            const flipped = !!pair && pair.group1 !== rowName;
+                                                            const orient = (value: number) => (!flipped ? value : equivalence.scale === 'ratio' ? 1 / value : -value);
+                                                            const decimalPlaces = equivalence.scale === 'ratio' ? 2 : 1;
+
+                                                            return (
+                                                                <TableCell
+                                                                    key={`${rowName}-vs-${colName}-equivalence`}
+                                                                    className={cn(
+                                                                        "text-right py-2 px-4",
+                                                                        verdict === 'equivalent' ? 'text-primary font-semibold' : verdict === 'different' ? 'text-destructive font-semibold' : (isDiagonal ? '' : 'text-muted-foreground'),
+                                                                        isDiagonal ? 'bg-muted/30' : 'table-cell-tint',
+                                                                    )}
+                                                                >
+                                                                     {isDiagonal ? '-' : isWithheldGroup(rowName, colName) ? SUPPRESSED_MARKER : verdict ? equivalenceVerdictLabel(verdict) : 'N/A'}
+                                                                     {!isDiagonal && pair && (
+                                                                         <span className="block text-[10px] font-normal text-muted-foreground whitespace-nowrap">
+                                                                             {formatDecimal(orient(pair.estimate), decimalPlaces)} ({formatDecimal(Math.min(orient(pair.ci.lower), orient(pair.ci.upper)), decimalPlaces)} – {formatDecimal(Math.max(orient(pair.ci.lower), orient(pair.ci.upper)), decimalPlaces)})
+                                                                             {pair.zeroCellCorrected && <sup className="ml-0.5">‡</sup>}
+                                                                         </span>
+                                                                     )}
+                                                                </TableCell>
+                                                            );
+                                                        })}
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground italic mt-2">
+                                        The equivalence p-value is the larger of the two one-sided p-values; it and the test for a difference beyond the range are each corrected over all pairs.
+                                        The interval is not adjusted for multiplicity, so it can sit inside the range for a pair that is not declared equivalent.
+                                        A non-significant result in the p-value matrix above is not evidence of equivalence.
+                                        {reportResults.equivalence.pairs.some(p => p.zeroCellCorrected) && ' ‡ 0.5 added to every cell because a category had no outcomes.'}
+                                    </p>
+                                </div>
+                           )}
+
+                           {reportResults?.pairwiseComparisons && reportResults.pairwiseComparisons.length > 0 && (
+                                <div className="space-y-4">
+                                    <h3 className="text-lg font-semibold text-primary mb-2">
+                                        Pairwise Effect Sizes
+                                    </h3>
+                                    <p className="text-xs text-muted-foreground">
+                                        Each estimate compares Category 1 with Category 2, with {formatDecimal(reportResults.rateCI.confidenceLevel * 100, 0)}% confidence intervals in parentheses.
+                                        Risk difference is in percentage points (Newcombe score interval); the risk ratio uses the log interval;
+                                        the odds ratio is shown with the Woolf interval and as the conditional MLE with the exact interval.
+                                        Phi and Cohen&apos;s h are labelled small, medium or large using Cohen&apos;s conventions (h: 0.2 / 0.5 / 0.8).
+                                    </p>
+                                    <div className="overflow-x-auto rounded-md border shadow-sm">
+                                        <Table>
+                                            <TableHeader className="table-header-dark">
+                                                <TableRow className="hover:bg-table-header-bg">
+                                                    <TableHead>Category 1</TableHead>
+                                                    <TableHead>Category 2</TableHead>
+                                                    <TableHead className="text-right">Risk Difference (pp)</TableHead>
+                                                    <TableHead className="text-right">Risk Ratio</TableHead>
+                                                    <TableHead className="text-right">Odds Ratio (Woolf)</TableHead>
+                                                    <TableHead className="text-right">Odds Ratio (Exact)</TableHead>
+                                                    <TableHead className="text-right">Phi</TableHead>
+                                                    <TableHead className="text-right">Cohen&apos;s h</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {reportResults.pairwiseComparisons.map((pair: PairwiseComparison) => (
+                                                    <TableRow key={`${pair.group1}-vs-${pair.group2}-effects`} className="table-row-alt hover:bg-muted/50">
+                                                        <TableCell className="font-medium py-2 px-4">{pair.group1}</TableCell>
+                                                        <TableCell className="font-medium py-2 px-4">{pair.group2}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatEffect(pair.effectSizes.riskDifference, 1)}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">
+                                                            {formatEffect(pair.effectSizes.riskRatio)}
+                                                            {pair.effectSizes.haldaneApplied && <sup className="ml-0.5">‡</sup>}
+                                                        </TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">
+                                                            {formatEffect(pair.effectSizes.oddsRatio)}
+                                                            {pair.effectSizes.haldaneApplied && <sup className="ml-0.5">‡</sup>}
+                                                        </TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatEffect(pair.effectSizes.oddsRatioExact)}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint">{formatDecimal(pair.effectSizes.phi, 3)}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">
+                                                            {formatDecimal(pair.effectSizes.cohensH, 3)}
+                                                            <span className="block text-xs text-muted-foreground">{effectMagnitudeLabel(pair.effectSizes.cohensHMagnitude)}</span>
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                    {reportResults.pairwiseComparisons.some(pair => pair.effectSizes.haldaneApplied) && (
+                                        <p className="text-xs text-muted-foreground italic">
+                                            ‡ Haldane–Anscombe correction applied: 0.5 was added to every cell because the pair&apos;s table contains a zero.
+                                        </p>
+                                    )}
+                                </div>
+                           )}
+
+                           {reportResults?.referenceComparisons && reportResults.referenceComparisons.length > 0 && reportResults.overallStats && (
+                                <div className="space-y-4">
+                                    <h3 className="text-lg font-semibold text-primary mb-2">
+                                        Comparisons to Selected Reference(s)
+                                    </h3>
+                                    <p className="text-xs text-muted-foreground">
+                                        Each non-reference category is compared against each reference category with the selected pairwise test.
+                                        The {correctionLabel(reportResults.overallStats.correction)} correction is applied over these {reportResults.referenceComparisons.length + (reportResults.suppression?.withheldReferenceComparisons ?? 0)} comparison(s) only.
+                                        Significant adjusted p-values (&lt; α) are highlighted in <span className="text-destructive font-semibold">red and bold</span>.
+                                    </p>
+                                    <div className="overflow-x-auto rounded-md border shadow-sm">
+                                        <Table>
+                                            <TableHeader className="table-header-dark">
+                                                <TableRow className="hover:bg-table-header-bg">
+                                                    <TableHead>Reference</TableHead>
+                                                    <TableHead>Category</TableHead>
+                                                    <TableHead className="text-right">Reference % Experienced</TableHead>
+                                                    <TableHead className="text-right">Category % Experienced</TableHead>
+                                                    <TableHead className="text-right">Difference (pp)</TableHead>
+                                                    <TableHead className="text-right">Risk Ratio</TableHead>
+                                                    <TableHead>Test</TableHead>
+                                                    <TableHead className="text-right">Raw P-Value</TableHead>
+                                                    <TableHead className="text-right">Adjusted P-Value</TableHead>
+                                                    <TableHead className="text-right">MDD (pp)</TableHead>
+                                                    <TableHead className="text-right">Interpretation (vs α)</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {reportResults.referenceComparisons.map((comparison: ReferenceComparison) => {
+                                                    const alphaThreshold = reportResults.overallStats?.limitAlpha ?? 0.05;
+                                                    const isSignificant = comparison.isSignificant;
+                                                    return (
+                                                        <TableRow key={`${comparison.referenceGroup}-vs-${comparison.comparisonGroup}`} className="table-row-alt hover:bg-muted/50">
+                                                            <TableCell className="font-medium py-2 px-4">{comparison.referenceGroup}</TableCell>
+                                                            <TableCell className="font-medium py-2 px-4">{comparison.comparisonGroup}</TableCell>
+                                                            <TableCell className="text-right py-2 px-4 table-cell-tint">{formatPercent(comparison.referenceRate)}</TableCell>
+                                                            <TableCell className="text-right py-2 px-4 table-cell-tint">{formatPercent(comparison.comparisonRate)}</TableCell>
+                                                            <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatEffect(comparison.effectSizes.riskDifference, 1)}</TableCell>
+                                                            <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatEffect(comparison.effectSizes.riskRatio)}</TableCell>
+                                                            <TableCell className="py-2 px-4 text-xs">{pairwiseTestLabel(comparison.testUsed)}</TableCell>
+                                                            <TableCell className="text-right py-2 px-4">{formatScientific(comparison.pValueRaw, 3)}</TableCell>
+                                                            <TableCell className={cn("text-right py-2 px-4", isSignificant ? 'text-destructive font-semibold' : 'text-muted-foreground')}>
+                                                                {formatScientific(comparison.pValueCorrected, 3)}
+                                                            </TableCell>
+                                                            <TableCell className={cn("text-right py-2 px-4", comparison.power.underpowered ? 'text-yellow-700 dark:text-yellow-300 font-semibold' : '')}>
+                                                                {formatDecimal(comparison.power.minimumDetectableDifference, 1)}
+                                                            </TableCell>
+                                                            <TableCell className="text-right py-2 px-4">
+                                                                {renderInterpretation(
+                                                                    comparison.pValueCorrected,
+                                                                    alphaThreshold,
+                                                                    comparison.isSignificant,
+                                                                    comparison.effectSizes.cohensHMagnitude,
+                                                                    comparison.power.underpowered
+                                                                        ? `differences below ${formatDecimal(comparison.power.minimumDetectableDifference, 1)} pp could not be reliably detected.`
+                                                                        : null,
+                                                                )}
+                                                            </TableCell>
+                                                        </TableRow>
+                                                    );
+                                                })}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground italic mt-2">
+                                        Difference is the category&apos;s rate minus the reference rate, in percentage points, and the risk ratio is the category&apos;s rate divided by the reference rate; confidence intervals are in parentheses.
+                                    </p>
+                                </div>
+                           )}
+
+                           {reportResults?.adverseImpact && (
+                                <div className="space-y-4">
+                                    <h3 className="text-lg font-semibold text-primary mb-2">
+                                        Adverse Impact Analysis (Four-Fifths Rule)
+                                    </h3>
+                                    <p className="text-xs text-muted-foreground">
+                                        Impact ratio = category selection rate ÷ selection rate of <strong>{reportResults.adverseImpact.comparatorGroup}</strong>
+                                        {reportResults.adverseImpact.comparatorBasis === 'highestRate' ? ' (highest-rate group)' : ' (selected comparator)'}.
+                                        Ratios below {formatDecimal(reportResults.adverseImpact.threshold, 2)} indicate practical adverse impact;
+                                        a shortfall of more than 2 standard deviations (pooled two-proportion z-test) indicates statistical adverse impact.
+                                    </p>
+                                    <div className="overflow-x-auto rounded-md border shadow-sm">
+                                        <Table>
+                                            <TableHeader className="table-header-dark">
+                                                <TableRow className="hover:bg-table-header-bg">
+                                                    <TableHead>Category</TableHead>
+                                                    <TableHead className="text-right">Selection Rate</TableHead>
+                                                    <TableHead className="text-right">Impact Ratio</TableHead>
+                                                    <TableHead className="text-center">Below Threshold</TableHead>
+                                                    <TableHead className="text-right">Z (SDs)</TableHead>
+                                                    <TableHead className="text-right">P-Value</TableHead>
+                                                    <TableHead>Verdict</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {reportResults.adverseImpact.groups.map((row: AdverseImpactGroupResult) => (
+                                                    <TableRow key={`${row.group}-adverse-impact`} className="table-row-alt hover:bg-muted/50">
+                                                        <TableCell className="font-medium py-2 px-4">{row.group}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint">{formatPercent(row.selectionRate)}</TableCell>
+                                                        <TableCell className={cn("text-right py-2 px-4 table-cell-tint", row.belowThreshold ? 'text-destructive font-semibold' : '')}>
+                                                            {formatDecimal(row.impactRatio, 3)}
+                                                        </TableCell>
+                                                        <TableCell className="text-center py-2 px-4">{row.verdict === 'comparator' ? '-' : row.belowThreshold ? 'Yes' : 'No'}</TableCell>
+                                                        <TableCell className={cn("text-right py-2 px-4", row.exceedsTwoSD ? 'text-destructive font-semibold' : '')}>
+                                                            {row.verdict === 'comparator' ? '-' : formatDecimal(row.zStatistic, 2)}
+                                                        </TableCell>
+                                                        <TableCell className="text-right py-2 px-4">{row.verdict === 'comparator' ? '-' : formatScientific(row.pValue, 3)}</TableCell>
+                                                        <TableCell className={cn("py-2 px-4 text-xs", row.verdict === 'adverseImpact' ? 'text-destructive font-semibold' : 'text-muted-foreground')}>
+                                                            {adverseImpactVerdictLabel(row.verdict)}
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground italic mt-2">
+                                        Adverse impact is indicated when a category is both below the impact ratio threshold (practical significance) and more than 2 standard deviations below the comparator (statistical significance).
+                                    </p>
+                                </div>
+                           )}
+
+                           {reportResults?.utilization && (
+                                <UtilizationAnalysis utilization={reportResults.utilization} correction={form.getValues('correction')} />
+                           )}
+
+                           {reportResults?.parityGap && (
+                                <ParityGap parityGap={reportResults.parityGap} correction={form.getValues('correction')} />
+                           )}
+
+                           {reportResults?.bayesian && (
+                                <div className="space-y-4">
+                                    <h3 className="text-lg font-semibold text-primary mb-2">
+                                        Bayesian Comparison (Beta-Binomial)
+                                    </h3>
+                                    <p className="text-xs text-muted-foreground">
+                                        Each rate has a Beta({formatDecimal(reportResults.bayesian.priorAlpha, 2)}, {formatDecimal(reportResults.bayesian.priorBeta, 2)}) prior, updated with the category&apos;s counts.
+                                        The probabilities are direct statements about the rates given the data and the prior, not p-values, and are not corrected for multiple comparisons.
+                                    </p>
+                                    <div className="overflow-x-auto rounded-md border shadow-sm">
+                                        <Table>
+                                            <TableHeader className="table-header-dark">
+                                                <TableRow className="hover:bg-table-header-bg">
+                                                    <TableHead>Category</TableHead>
+                                                    <TableHead className="text-right">Posterior Mean</TableHead>
+                                                    <TableHead className="text-right">{formatDecimal(reportResults.bayesian.credibleLevel * 100, 0)}% Credible Interval</TableHead>
+                                                    <TableHead className="text-right">Posterior</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {reportResults.bayesian.groups.map((row: BayesianGroupPosterior) => (
+                                                    <TableRow key={`${row.group}-posterior`} className="table-row-alt hover:bg-muted/50">
+                                                        <TableCell className="font-medium py-2 px-4">{row.group}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint">{formatPercent(row.mean)}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatPercentCI(row.credibleInterval)}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 text-muted-foreground whitespace-nowrap">
+                                                            Beta({formatDecimal(row.posteriorAlpha, 1)}, {formatDecimal(row.posteriorBeta, 1)})
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                    <div className="overflow-x-auto rounded-md border shadow-sm">
+                                        <Table>
+                                            <TableHeader className="table-header-dark">
+                                                <TableRow className="hover:bg-table-header-bg">
+                                                    <TableHead>Comparison (A vs B)</TableHead>
+                                                    <TableHead className="text-right">P(rate A &lt; rate B)</TableHead>
+                                                    <TableHead className="text-right">P(A / B &lt; {formatDecimal(reportResults.bayesian.ratioThreshold, 2)})</TableHead>
+                                                    <TableHead className="text-right">P(B / A &lt; {formatDecimal(reportResults.bayesian.ratioThreshold, 2)})</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {reportResults.bayesian.pairs.map((pair: BayesianPairComparison) => (
+                                                    <TableRow key={`${pair.group1}-${pair.group2}-bayesian`} className="table-row-alt hover:bg-muted/50">
+                                                        <TableCell className="font-medium py-2 px-4">{pair.group1} vs {pair.group2}</TableCell>
+                                                        <TableCell className={cn("text-right py-2 px-4", Math.max(pair.probabilityLower, 1 - pair.probabilityLower) >= 0.95 ? 'font-semibold' : '')}>
+                                                            {formatPercent(pair.probabilityLower * 100)}
+                                                        </TableCell>
+                                                        <TableCell className={cn("text-right py-2 px-4", pair.probabilityRatioBelowThreshold >= 0.95 ? 'text-destructive font-semibold' : '')}>
+                                                            {formatPercent(pair.probabilityRatioBelowThreshold * 100)}
+                                                        </TableCell>
+                                                        <TableCell className={cn("text-right py-2 px-4", pair.probabilityInverseRatioBelowThreshold >= 0.95 ? 'text-destructive font-semibold' : '')}>
+                                                            {formatPercent(pair.probabilityInverseRatioBelowThreshold * 100)}
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground italic mt-2">
+                                        For example, P(rate A &lt; rate B) = 97% reads as &quot;there is a 97% probability that A&apos;s rate is lower than B&apos;s&quot;.
+                                        Ratio probabilities of 95% or more are highlighted: the lower rate is very likely below the threshold share of the higher one.
+                                    </p>
+                                </div>
+                           )}
+
+                           {bootstrapRunning && (
+                                <p className="text-sm text-muted-foreground italic">
+                                    Running {form.getValues('bootstrapReplicates').toLocaleString()} bootstrap replicates…
+                                </p>
+                           )}
+                           {reportResults?.bootstrap && !bootstrapRunning && (
+                                <BootstrapIntervals bootstrap={reportResults.bootstrap} />
+                           )}
+
+                           {reportResults?.adjustedDisparity && (
+                                <div className="space-y-4">
+                                    <h3 className="text-lg font-semibold text-primary mb-2">
+                                        Covariate-Adjusted Disparity (Logistic Regression)
+                                    </h3>
+                                    <div className="text-sm space-y-1 bg-secondary/30 p-3 rounded-md">
+                                        <div>
+                                            <strong>Records used:</strong> {reportResults.adjustedDisparity.recordsUsed.toLocaleString()}
+                                            {reportResults.adjustedDisparity.recordsExcluded > 0 && ` (${reportResults.adjustedDisparity.recordsExcluded.toLocaleString()} excluded for missing covariate values)`}
+                                        </div>
+                                        <div>
+                                            <strong>Category effect, crude (LR test):</strong> χ² = {formatDecimal(reportResults.adjustedDisparity.crudeGroupTest.statistic)},
+                                            df = {reportResults.adjustedDisparity.crudeGroupTest.degreesOfFreedom}, p = {formatScientific(reportResults.adjustedDisparity.crudeGroupTest.pValue, 3)}
+                                            {' '}{renderInterpretation(reportResults.adjustedDisparity.crudeGroupTest.pValue, form.getValues('alpha'))}
+                                        </div>
+                                        <div>
+                                            <strong>Category effect, adjusted for {reportResults.adjustedDisparity.covariates.join(', ') || 'nothing'} (LR test):</strong> χ² = {formatDecimal(reportResults.adjustedDisparity.adjustedGroupTest.statistic)},
+                                            df = {reportResults.adjustedDisparity.adjustedGroupTest.degreesOfFreedom}, p = {formatScientific(reportResults.adjustedDisparity.adjustedGroupTest.pValue, 3)}
+                                            {' '}{renderInterpretation(reportResults.adjustedDisparity.adjustedGroupTest.pValue, form.getValues('alpha'))}
+                                        </div>
+                                    </div>
+                                    <div className="overflow-x-auto rounded-md border shadow-sm">
+                                        <Table>
+                                            <TableHeader className="table-header-dark">
+                                                <TableRow className="hover:bg-table-header-bg">
+                                                    <TableHead>Category vs {reportResults.adjustedDisparity.referenceGroup}</TableHead>
+                                                    <TableHead className="text-right">Crude OR</TableHead>
+                                                    <TableHead className="text-right">Adjusted OR</TableHead>
+                                                    <TableHead className="text-right">Wald P-Value</TableHead>
+                                                    <TableHead className="text-right">LR P-Value (Corrected)</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {reportResults.adjustedDisparity.groups.map((row: AdjustedGroupComparison) => (
+                                                    <TableRow key={`${row.group}-adjusted`} className="table-row-alt hover:bg-muted/50">
+                                                        <TableCell className="font-medium py-2 px-4">{row.group}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatEffect(row.crudeOddsRatio)}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatEffect(row.adjustedOddsRatio)}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4">{formatScientific(row.adjustedWaldPValue, 3)}</TableCell>
+                                                        <TableCell className={cn("text-right py-2 px-4", row.isSignificant ? 'text-destructive font-semibold' : '')}>
+                                                            {formatScientific(row.likelihoodRatioPValueCorrected, 3)}
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                    {reportResults.adjustedDisparity.covariateTerms.length > 0 && (
+                                        <div className="overflow-x-auto rounded-md border shadow-sm">
+                                            <Table>
+                                                <TableHeader className="table-header-dark">
+                                                    <TableRow className="hover:bg-table-header-bg">
+                                                        <TableHead>Covariate Term</TableHead>
+                                                        <TableHead className="text-right">Adjusted OR</TableHead>
+                                                        <TableHead className="text-right">Wald P-Value</TableHead>
+                                                    </TableRow>
+                                                </TableHeader>
+                                                <TableBody>
+                                                    {reportResults.adjustedDisparity.covariateTerms.map(term => (
+                                                        <TableRow key={`${term.term}-covariate`} className="table-row-alt hover:bg-muted/50">
+                                                            <TableCell className="font-medium py-2 px-4">{term.term}</TableCell>
+                                                            <TableCell className="text-right py-2 px-4 whitespace-nowrap">{formatEffect(term.oddsRatio, 3)}</TableCell>
+                                                            <TableCell className="text-right py-2 px-4">{formatScientific(term.waldPValue, 3)}</TableCell>
+                                                        </TableRow>
+                                                    ))}
+                                                </TableBody>
+                                            </Table>
+                                        </div>
+                                    )}
+                                    <p className="text-xs text-muted-foreground italic mt-2">
+                                        Odds ratios compare each category with {reportResults.adjustedDisparity.referenceGroup}; Wald confidence intervals are in parentheses.
+                                        The crude OR ignores the covariates, the adjusted OR holds them fixed. The likelihood ratio (LR) test compares the adjusted model with one that merges the category into the reference, and is corrected across categories with the selected method.
+                                        Numeric covariates are per unit; text covariates are relative to their first level.
+                                    </p>
+                                </div>
+                           )}
+
+                           {reportResults?.stratifiedAnalysis && (
+                                <div className="space-y-4">
+                                    <h3 className="text-lg font-semibold text-primary mb-2">
+                                        Stratified Analysis (Cochran–Mantel–Haenszel)
+                                    </h3>
+                                    <div className="text-sm space-y-1 bg-secondary/30 p-3 rounded-md">
+                                        <div>
+                                            <strong>Crude (strata collapsed):</strong> χ² = {formatDecimal(reportResults.stratifiedAnalysis.crude.statistic)},
+                                            df = {reportResults.stratifiedAnalysis.crude.degreesOfFreedom}, p = {formatScientific(reportResults.stratifiedAnalysis.crude.pValue, 3)}
+                                            {' '}{renderInterpretation(reportResults.stratifiedAnalysis.crude.pValue, form.getValues('alpha'))}
+                                        </div>
+                                        {reportResults.stratifiedAnalysis.cochranMantelHaenszel && (
+                                            <div>
+                                                <strong>Adjusted for strata (CMH):</strong> χ² = {formatDecimal(reportResults.stratifiedAnalysis.cochranMantelHaenszel.statistic)},
+                                                df = {reportResults.stratifiedAnalysis.cochranMantelHaenszel.degreesOfFreedom}, p = {formatScientific(reportResults.stratifiedAnalysis.cochranMantelHaenszel.pValue, 3)}
+                                                {' '}{renderInterpretation(reportResults.stratifiedAnalysis.cochranMantelHaenszel.pValue, form.getValues('alpha'))}
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div className="overflow-x-auto rounded-md border shadow-sm">
+                                        <Table>
+                                            <TableHeader className="table-header-dark">
+                                                <TableRow className="hover:bg-table-header-bg">
+                                                    <TableHead>Comparison</TableHead>
+                                                    <TableHead className="text-right">Crude OR</TableHead>
+                                                    <TableHead className="text-right">Mantel–Haenszel OR</TableHead>
+                                                    <TableHead className="text-right">MH P-Value (Corrected)</TableHead>
+                                                    <TableHead className="text-right">Breslow–Day P-Value</TableHead>
+                                                    <TableHead>Note</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {reportResults.stratifiedAnalysis.pairs.map((pair: StratifiedPairResult) => (
+                                                    <TableRow key={`${pair.group1}-${pair.group2}-stratified`} className="table-row-alt hover:bg-muted/50">
+                                                        <TableCell className="font-medium py-2 px-4">{pair.group1} vs {pair.group2}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint">{formatEffect(pair.crudeOddsRatio)}</TableCell>
+                                                        <TableCell className="text-right py-2 px-4 table-cell-tint">{formatEffect(pair.mantelHaenszelOddsRatio)}</TableCell>
+                                                        <TableCell className={cn("text-right py-2 px-4", pair.mantelHaenszelTest.isSignificant ? 'text-destructive font-semibold' : '')}>
+                                                            {formatScientific(pair.mantelHaenszelTest.pValueCorrected, 3)}
+                                                        </TableCell>
+                                                        <TableCell className={cn("text-right py-2 px-4", pair.breslowDay && pair.breslowDay.pValue < form.getValues('alpha') ? 'text-yellow-700 dark:text-yellow-300 font-semibold' : '')}>
+                                                            {pair.breslowDay ? formatScientific(pair.breslowDay.pValue, 3) : 'N/A'}
+                                                        </TableCell>
+                                                        <TableCell className="py-2 px-4 text-xs">
+                                                            {pair.directionReversed && <span className="text-destructive font-semibold">Direction reverses after adjustment (Simpson&apos;s paradox)</span>}
+                                                            {!pair.directionReversed && pair.breslowDay && pair.breslowDay.pValue < form.getValues('alpha') && <span className="text-muted-foreground">Odds ratio differs across strata</span>}
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground italic mt-2">
+                                        Odds ratios compare the odds of experiencing the outcome in the first category with the second; confidence intervals are in parentheses (Woolf for the crude OR, Robins–Breslow–Greenland for the Mantel–Haenszel OR).
+                                        The Mantel–Haenszel test compares the categories within each stratum and is corrected over all pairs with the selected method.
+                                        A significant Breslow–Day test (Tarone-corrected) means the odds ratio is not constant across strata, so the pooled estimate should be read alongside the per-stratum data.
+                                    </p>
+                                </div>
+                           )}
+
+                           {periodResults?.trend && !reportResults?.suppression && (
+                                <PeriodTrend trend={periodResults.trend} correction={form.getValues('correction')} />
+                           )}
+
                          {!reportResults && !calculationError && (!form.formState.isValid || fields.length < 2) && (
                              <p className="text-center text-muted-foreground italic py-6">
                                 {fields.length < 2 ? "Add at least two categories with valid counts." : "Correct any input errors."}
@@ -840,6 +3265,14 @@ export default function DisparityCalculator() {
                  </Card>
              </div>
          </TabsContent>
+
+         <TabsContent value="planning">
+             <PowerPlanner
+                 observedGroups={form.watch('groups')
+                     .filter(g => g.name && g.total > 0)
+                     .map(g => ({ name: g.name, rate: g.experienced / g.total }))}
+             />
+         </TabsContent>
      </Tabs>
  );
 }
@@ -0,0 +1,126 @@
+"use client";
+
+import React from 'react';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+import {
+    type ParityGapResults,
+    correctionLabel,
+    type CorrectionMethod,
+    formatDecimal,
+    formatPercent
+} from "@/lib/calculations";
+import { cn } from "@/lib/utils";
+
+
+interface ParityGapProps {
+  parityGap: ParityGapResults;
+  correction: CorrectionMethod;
+}
+
+// Signed outcome change: "+3" more, "−3" fewer
+const formatChange = (changes: number) =>
+    changes > 0 ? `+${changes.toLocaleString()}` : changes < 0 ? `−${(-changes).toLocaleString()}` : '0';
+
+const formatTotals = (additional: number, fewer: number) =>
+    fewer > 0 && additional > 0 ? `${formatChange(additional)} / ${formatChange(-fewer)}` : formatChange(additional - fewer);
+
+
+// --- Component ---
+export default function ParityGap({ parityGap, correction }: ParityGapProps) {
+  const { totals } = parityGap;
+
+  return (
+      <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-primary mb-2">Parity Gap (Outcomes Needed to Close Disparities)</h3>
+          <p className="text-xs text-muted-foreground">
+              The number of people in each category whose outcome would have had to be different for the category to reach the overall rate of {formatPercent(parityGap.overallRate)}:
+              + counts additional outcomes, − counts outcomes fewer. The other categories&apos; counts are held fixed.
+          </p>
+          <div className="overflow-x-auto rounded-md border shadow-sm">
+              <Table>
+                  <TableHeader className="table-header-dark">
+                      <TableRow className="hover:bg-table-header-bg">
+                          <TableHead>Category</TableHead>
+                          <TableHead className="text-right">Rate</TableHead>
+                          <TableHead className="text-right">Outcomes to Overall Rate</TableHead>
+                          <TableHead className="text-center">Significant Residual</TableHead>
+                          <TableHead className="text-right">Changes to Non-Significance</TableHead>
+                      </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                      {parityGap.groups.map(row => (
+                          <TableRow key={`${row.group}-parity-gap`} className="table-row-alt hover:bg-muted/50">
+                              <TableCell className="font-medium py-2 px-4">{row.group}</TableCell>
+                              <TableCell className="text-right py-2 px-4">{formatPercent(row.rate)}</TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint">{formatChange(row.outcomesToOverallRate)}</TableCell>
+                              <TableCell className={cn("text-center py-2 px-4", row.isSignificant ? 'text-destructive font-semibold' : '')}>
+                                  {row.isSignificant ? 'Yes' : 'No'}
+                              </TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint">
+                                  {row.changesToNonSignificance !== null ? formatChange(Math.sign(row.outcomesToOverallRate) * row.changesToNonSignificance) : '-'}
+                              </TableCell>
+                          </TableRow>
+                      ))}
+                  </TableBody>
+                  <TableFooter>
+                      <TableRow className="bg-muted/80 font-semibold hover:bg-muted">
+                          <TableCell className="py-2 px-4">Total</TableCell>
+                          <TableCell className="text-right py-2 px-4">{formatPercent(parityGap.overallRate)}</TableCell>
+                          <TableCell className="text-right py-2 px-4">{formatTotals(totals.additionalToOverallRate, totals.fewerToOverallRate)}</TableCell>
+                          <TableCell />
+                          <TableCell className="text-right py-2 px-4">{totals.groupChangesToNonSignificance.toLocaleString()}</TableCell>
+                      </TableRow>
+                  </TableFooter>
+              </Table>
+          </div>
+
+          {parityGap.pairs.length > 0 ? (
+              <div className="overflow-x-auto rounded-md border shadow-sm">
+                  <Table>
+                      <TableHeader className="table-header-dark">
+                          <TableRow className="hover:bg-table-header-bg">
+                              <TableHead>Comparison</TableHead>
+                              <TableHead className="text-right">Difference (pp)</TableHead>
+                              <TableHead className="text-right">Outcomes to Reference Rate</TableHead>
+                              <TableHead className="text-center">Significant</TableHead>
+                              <TableHead className="text-right">Changes to Non-Significance</TableHead>
+                          </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                          {parityGap.pairs.map(row => (
+                              <TableRow key={`${row.comparisonGroup}-${row.referenceGroup}-parity-gap`} className="table-row-alt hover:bg-muted/50">
+                                  <TableCell className="font-medium py-2 px-4">{row.comparisonGroup} vs {row.referenceGroup}</TableCell>
+                                  <TableCell className="text-right py-2 px-4">{formatDecimal(row.rateDifference, 1)}</TableCell>
+                                  <TableCell className="text-right py-2 px-4 table-cell-tint">{formatChange(row.outcomesToReferenceRate)}</TableCell>
+                                  <TableCell className={cn("text-center py-2 px-4", row.isSignificant ? 'text-destructive font-semibold' : '')}>
+                                      {row.isSignificant ? 'Yes' : 'No'}
+                                  </TableCell>
+                                  <TableCell className="text-right py-2 px-4 table-cell-tint">
+                                      {row.changesToNonSignificance !== null ? formatChange(Math.sign(row.outcomesToReferenceRate) * row.changesToNonSignificance) : '-'}
+                                  </TableCell>
+                              </TableRow>
+                          ))}
+                      </TableBody>
+                      <TableFooter>
+                          <TableRow className="bg-muted/80 font-semibold hover:bg-muted">
+                              <TableCell className="py-2 px-4">Total</TableCell>
+                              <TableCell />
+                              <TableCell className="text-right py-2 px-4">{formatTotals(totals.additionalToReferenceRate, totals.fewerToReferenceRate)}</TableCell>
+                              <TableCell />
+                              <TableCell className="text-right py-2 px-4">{totals.changesToNonSignificance.toLocaleString()}</TableCell>
+                          </TableRow>
+                      </TableFooter>
+                  </Table>
+              </div>
+          ) : (
+              <p className="text-sm text-muted-foreground">Select one or more reference categories to see the gaps to each reference rate.</p>
+          )}
+          <p className="text-xs text-muted-foreground italic mt-2">
+              Changes to non-significance is the smallest number of those outcome changes in the category after which its comparison with the reference is no longer significant,
+              using the same test and the {correctionLabel(correction)} correction over the reference comparisons. Totals over pairs count a category once per reference.
+              For a category on its own, it counts the changes toward the overall rate after which its adjusted residual is no longer significant under the same correction across categories.
+          </p>
+      </div>
+  );
+}
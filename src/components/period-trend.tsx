@@ -0,0 +1,134 @@
+"use client";
+
+import React from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+
+import {
+    type PeriodTrendResults,
+    type PeriodChangeComparison,
+    type EffectEstimate,
+    correctionLabel,
+    type CorrectionMethod,
+    formatDecimal,
+    formatPercent,
+    formatScientific
+} from "@/lib/calculations";
+import { cn } from "@/lib/utils";
+
+
+interface PeriodTrendProps {
+  trend: PeriodTrendResults;
+  correction: CorrectionMethod;
+}
+
+// Chart series keys must be valid CSS identifiers, so groups are keyed by position
+const seriesKey = (index: number) => `group${index}`;
+
+const formatEstimate = (effect: EffectEstimate, decimalPlaces: number) =>
+    effect.ci
+        ? `${formatDecimal(effect.estimate, decimalPlaces)} (${formatDecimal(effect.ci.lower, decimalPlaces)} – ${formatDecimal(effect.ci.upper, decimalPlaces)})`
+        : formatDecimal(effect.estimate, decimalPlaces);
+
+
+// --- Component ---
+export default function PeriodTrend({ trend, correction }: PeriodTrendProps) {
+  const chartConfig: ChartConfig = Object.fromEntries(trend.groups.map((g, index) => [
+      seriesKey(index),
+      { label: g.group, color: `hsl(var(--chart-${(index % 5) + 1}))` },
+  ]));
+  const chartData = trend.periods.map((period, t) => ({
+      period,
+      ...Object.fromEntries(trend.groups.map((g, index) => [seriesKey(index), isFinite(g.points[t].rate) ? Number(g.points[t].rate.toFixed(2)) : null])),
+  }));
+
+  return (
+      <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-primary mb-2">Disparity Trend Across Periods</h3>
+          <ChartContainer config={chartConfig} className="h-[300px] w-full">
+              <LineChart data={chartData} margin={{ left: 12, right: 12, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} tickFormatter={(value: number) => `${value}%`} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {trend.groups.map((_, index) => (
+                      <Line
+                          key={seriesKey(index)}
+                          dataKey={seriesKey(index)}
+                          type="linear"
+                          stroke={`var(--color-${seriesKey(index)})`}
+                          strokeWidth={2}
+                          dot
+                          connectNulls
+                      />
+                  ))}
+              </LineChart>
+          </ChartContainer>
+
+          <div className="overflow-x-auto rounded-md border shadow-sm">
+              <Table>
+                  <TableHeader className="table-header-dark">
+                      <TableRow className="hover:bg-table-header-bg">
+                          <TableHead>Category</TableHead>
+                          {trend.periods.map(period => (
+                              <TableHead key={period} className="text-right">{period}</TableHead>
+                          ))}
+                      </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                      {trend.groups.map(g => (
+                          <TableRow key={`${g.group}-trend`} className="table-row-alt hover:bg-muted/50">
+                              <TableCell className="font-medium py-2 px-4">{g.group}</TableCell>
+                              {g.points.map(point => (
+                                  <TableCell key={point.period} className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">
+                                      {formatPercent(point.rate)}
+                                      <span className="text-xs text-muted-foreground"> (n = {point.total.toLocaleString()})</span>
+                                  </TableCell>
+                              ))}
+                          </TableRow>
+                      ))}
+                  </TableBody>
+              </Table>
+          </div>
+
+          <div className="overflow-x-auto rounded-md border shadow-sm">
+              <Table>
+                  <TableHeader className="table-header-dark">
+                      <TableRow className="hover:bg-table-header-bg">
+                          <TableHead>Comparison</TableHead>
+                          <TableHead>Periods</TableHead>
+                          <TableHead className="text-right">Rate Ratio (From → To)</TableHead>
+                          <TableHead className="text-right">Change in Rate Ratio</TableHead>
+                          <TableHead className="text-right">Difference in Differences (pp)</TableHead>
+                          <TableHead className="text-right">P-Value (Corrected)</TableHead>
+                      </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                      {trend.changes.map((change: PeriodChangeComparison) => (
+                          <TableRow key={`${change.group}-${change.comparator}-${change.fromPeriod}-${change.toPeriod}`} className="table-row-alt hover:bg-muted/50">
+                              <TableCell className="font-medium py-2 px-4">{change.group} vs {change.comparator}</TableCell>
+                              <TableCell className="py-2 px-4 whitespace-nowrap">{change.fromPeriod} → {change.toPeriod}</TableCell>
+                              <TableCell className="text-right py-2 px-4 whitespace-nowrap">
+                                  {formatDecimal(change.rateRatioFrom, 3)} → {formatDecimal(change.rateRatioTo, 3)}
+                              </TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatEstimate(change.rateRatioChange, 2)}</TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">{formatEstimate(change.differenceInDifferences, 1)}</TableCell>
+                              <TableCell className={cn("text-right py-2 px-4", change.isSignificant ? 'text-destructive font-semibold' : '')}>
+                                  {formatScientific(change.pValueCorrected, 3)}
+                              </TableCell>
+                          </TableRow>
+                      ))}
+                  </TableBody>
+              </Table>
+          </div>
+          <p className="text-xs text-muted-foreground italic mt-2">
+              Each category is compared with the selected reference(s), or with every other category when none is selected, between consecutive periods
+              {trend.periods.length > 2 ? ' and between the first and last period' : ''}.
+              The difference in differences is the change in (category rate − comparator rate); its z-test is the test for change, corrected across all rows with the {correctionLabel(correction)} method.
+              A change in rate ratio above 1 means the category&apos;s rate moved up relative to the comparator&apos;s.
+          </p>
+      </div>
+  );
+}
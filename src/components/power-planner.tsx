@@ -0,0 +1,408 @@
+"use client";
+
+import React, { useState } from 'react';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm, Controller } from "react-hook-form";
+import { z } from "zod";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Trash2, PlusCircle, AlertCircle, Calculator } from 'lucide-react';
+
+import {
+    performPowerPlan,
+    type PowerPlanResults,
+    type PowerPlanGroupResult,
+    correctionLabel,
+    formatDecimal,
+    formatPercent,
+    formatScientific
+} from "@/lib/calculations";
+import { cn } from "@/lib/utils";
+
+
+// --- Zod Schema Definition ---
+const plannerGroupSchema = z.object({
+  name: z.string().min(1, "Category name cannot be empty"),
+  baselineRate: z.coerce
+    .number({ invalid_type_error: "Baseline rate must be a number" })
+    .gt(0, "Baseline rate must be greater than 0%")
+    .lt(100, "Baseline rate must be less than 100%"),
+});
+
+const plannerSchema = z.object({
+  alpha: z.coerce
+    .number({ invalid_type_error: "Significance Level must be a number" })
+    .gt(0, "Significance Level must be greater than 0")
+    .lte(1, "Significance Level must be less than or equal to 1")
+    .default(0.05),
+  correction: z.enum(['none', 'bonferroni', 'sidak', 'holm', 'hochberg', 'hommel', 'BH', 'BY']).default('bonferroni'),
+  targetPower: z.coerce
+    .number({ invalid_type_error: "Target power must be a number" })
+    .gt(0, "Target power must be greater than 0")
+    .lt(1, "Target power must be less than 1")
+    .default(0.8),
+  effectType: z.enum(['difference', 'ratio']).default('difference'),
+  effectValue: z.coerce
+    .number({ invalid_type_error: "Target effect must be a number" })
+    .default(5),
+  sampleSizePerGroup: z.preprocess(
+    val => (val === '' || val === null || val === undefined ? undefined : Number(val)),
+    z.number({ invalid_type_error: "Sample size must be a number" })
+      .int("Sample size must be an integer")
+      .positive("Sample size must be positive")
+      .optional()
+  ),
+  groups: z.array(plannerGroupSchema).min(2, "At least two categories are required"),
+});
+
+type PlannerValues = z.infer<typeof plannerSchema>;
+
+const chartConfig = {
+  pairwisePower: { label: "Pairwise test", color: "hsl(var(--chart-1))" },
+  overallPower: { label: "Overall k×2 test", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+interface PowerPlannerProps {
+  // Observed rates (0-1) from the input data, offered as baseline rates
+  observedGroups: { name: string; rate: number }[];
+}
+
+const formatSampleSize = (n: number) => (isFinite(n) ? n.toLocaleString() : 'Not reachable');
+
+
+// --- Component ---
+export default function PowerPlanner({ observedGroups }: PowerPlannerProps) {
+  const [planResults, setPlanResults] = useState<PowerPlanResults | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+
+  const form = useForm<PlannerValues>({
+    resolver: zodResolver(plannerSchema),
+    defaultValues: {
+      alpha: 0.05,
+      correction: 'bonferroni',
+      targetPower: 0.8,
+      effectType: 'difference',
+      effectValue: 5,
+      sampleSizePerGroup: undefined,
+      groups: [
+        { name: 'Group 1', baselineRate: 10 },
+        { name: 'Group 2', baselineRate: 10 },
+      ],
+    },
+    mode: "onChange",
+  });
+
+  const { fields, append, remove, replace } = useFieldArray({
+    control: form.control,
+    name: "groups",
+  });
+
+  const handleUseObservedRates = () => {
+      replace(observedGroups.map(g => ({ name: g.name, baselineRate: Number((g.rate * 100).toFixed(2)) })));
+      setPlanResults(null);
+      setPlanError(null);
+  };
+
+  const onSubmit = (data: PlannerValues) => {
+      const results = performPowerPlan({
+          alpha: data.alpha,
+          correction: data.correction,
+          targetPower: data.targetPower,
+          groups: data.groups.map(g => ({ name: g.name, baselineRate: g.baselineRate / 100 })),
+          targetEffect: { type: data.effectType, value: data.effectValue },
+          sampleSizePerGroup: data.sampleSizePerGroup,
+      });
+      const criticalErrors = results.errors.filter(e => !e.toLowerCase().includes('warning:'));
+      if (criticalErrors.length > 0) {
+          setPlanResults(null);
+          setPlanError(`Planning failed: ${criticalErrors.join('; ')}`);
+          return;
+      }
+      setPlanResults(results);
+      setPlanError(results.errors.length > 0 ? results.errors.join('; ') : null);
+  };
+
+  return (
+      <Card className="w-full max-w-5xl mx-auto shadow-lg mt-4">
+          <CardHeader>
+              <CardTitle className="text-2xl text-primary">Power &amp; Sample Size Planning</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                  Estimate how many records to pull per category before an audit. Each category is shifted in turn from its baseline rate by the target effect;
+                  the plan reports the sample per category needed by the least favourable category.
+              </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                      <div className="space-y-2">
+                          <Label htmlFor="planAlpha">Significance Level (α)</Label>
+                          <Input
+                              id="planAlpha"
+                              type="number"
+                              step="any"
+                              {...form.register('alpha')}
+                              className={cn(form.formState.errors.alpha ? "border-destructive" : "border-input")}
+                              placeholder="e.g., 0.05"
+                          />
+                          {form.formState.errors.alpha && <p className="text-sm text-destructive">{form.formState.errors.alpha.message}</p>}
+                      </div>
+                      <div className="space-y-2">
+                          <Label htmlFor="planCorrection">Multiple Comparison Correction</Label>
+                          <Controller
+                              control={form.control}
+                              name="correction"
+                              render={({ field }) => (
+                                  <Select value={field.value} onValueChange={field.onChange}>
+                                      <SelectTrigger id="planCorrection">
+                                          <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                          {(['none', 'bonferroni', 'sidak', 'holm', 'hochberg', 'hommel', 'BH', 'BY'] as const).map(method => (
+                                              <SelectItem key={method} value={method}>{correctionLabel(method)}</SelectItem>
+                                          ))}
+                                      </SelectContent>
+                                  </Select>
+                              )}
+                          />
+                      </div>
+                      <div className="space-y-2">
+                          <Label htmlFor="planTargetPower">Target Power</Label>
+                          <Input
+                              id="planTargetPower"
+                              type="number"
+                              step="any"
+                              {...form.register('targetPower')}
+                              className={cn(form.formState.errors.targetPower ? "border-destructive" : "border-input")}
+                              placeholder="e.g., 0.8"
+                          />
+                          {form.formState.errors.targetPower && <p className="text-sm text-destructive">{form.formState.errors.targetPower.message}</p>}
+                      </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
+                      <div className="space-y-2">
+                          <Label htmlFor="planEffectType">Target Effect</Label>
+                          <Controller
+                              control={form.control}
+                              name="effectType"
+                              render={({ field }) => (
+                                  <Select value={field.value} onValueChange={field.onChange}>
+                                      <SelectTrigger id="planEffectType">
+                                          <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                          <SelectItem value="difference">Difference (percentage points)</SelectItem>
+                                          <SelectItem value="ratio">Ratio of rates</SelectItem>
+                                      </SelectContent>
+                                  </Select>
+                              )}
+                          />
+                      </div>
+                      <div className="space-y-2">
+                          <Label htmlFor="planEffectValue">{form.watch('effectType') === 'ratio' ? 'Rate Ratio' : 'Difference (pp)'}</Label>
+                          <Input
+                              id="planEffectValue"
+                              type="number"
+                              step="any"
+                              {...form.register('effectValue')}
+                              className={cn(form.formState.errors.effectValue ? "border-destructive" : "border-input")}
+                              placeholder={form.watch('effectType') === 'ratio' ? 'e.g., 0.8' : 'e.g., 5'}
+                          />
+                          {form.formState.errors.effectValue && <p className="text-sm text-destructive">{form.formState.errors.effectValue.message}</p>}
+                      </div>
+                      <div className="space-y-2">
+                          <Label htmlFor="planSampleSize">Sample per Category (optional)</Label>
+                          <Input
+                              id="planSampleSize"
+                              type="number"
+                              min="1"
+                              step="1"
+                              {...form.register('sampleSizePerGroup')}
+                              className={cn(form.formState.errors.sampleSizePerGroup ? "border-destructive" : "border-input")}
+                              placeholder="Power at this size"
+                          />
+                          {form.formState.errors.sampleSizePerGroup && <p className="text-sm text-destructive">{form.formState.errors.sampleSizePerGroup.message}</p>}
+                      </div>
+                  </div>
+
+                  <div className="space-y-4">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                          <Label className="text-lg font-medium text-primary">Baseline Rates</Label>
+                          <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={handleUseObservedRates}
+                              disabled={observedGroups.length < 2}
+                          >
+                              Use rates from input data
+                          </Button>
+                      </div>
+                      {fields.map((field, index) => (
+                          <div key={field.id} className="flex items-start gap-2 p-3 border rounded-md bg-card shadow-sm">
+                              <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+                                  <div className="space-y-1">
+                                      <Label htmlFor={`planGroups.${index}.name`}>Name</Label>
+                                      <Input
+                                          id={`planGroups.${index}.name`}
+                                          {...form.register(`groups.${index}.name`)}
+                                          className={cn(form.formState.errors.groups?.[index]?.name ? "border-destructive" : "border-input")}
+                                      />
+                                      {form.formState.errors.groups?.[index]?.name && <p className="text-sm text-destructive">{form.formState.errors.groups?.[index]?.name?.message}</p>}
+                                  </div>
+                                  <div className="space-y-1">
+                                      <Label htmlFor={`planGroups.${index}.baselineRate`}>Baseline Rate (%)</Label>
+                                      <Input
+                                          id={`planGroups.${index}.baselineRate`}
+                                          type="number"
+                                          step="any"
+                                          {...form.register(`groups.${index}.baselineRate`)}
+                                          className={cn(form.formState.errors.groups?.[index]?.baselineRate ? "border-destructive" : "border-input")}
+                                      />
+                                      {form.formState.errors.groups?.[index]?.baselineRate && <p className="text-sm text-destructive">{form.formState.errors.groups?.[index]?.baselineRate?.message}</p>}
+                                  </div>
+                              </div>
+                              <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => remove(index)}
+                                  className="mt-6 text-destructive hover:bg-destructive/10"
+                                  aria-label="Remove category"
+                              >
+                                  <Trash2 className="h-4 w-4" />
+                              </Button>
+                          </div>
+                      ))}
+                      <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => append({ name: `Group ${fields.length + 1}`, baselineRate: 10 })}
+                      >
+                          <PlusCircle className="mr-2 h-4 w-4" /> Add Category
+                      </Button>
+                      {form.formState.errors.groups?.root && <p className="text-sm text-destructive mt-2">{form.formState.errors.groups.root.message}</p>}
+                      {form.formState.errors.groups && typeof form.formState.errors.groups.message === 'string' && <p className="text-sm text-destructive mt-2">{form.formState.errors.groups.message}</p>}
+                  </div>
+
+                  <Button type="submit" className="bg-primary hover:bg-accent text-primary-foreground">
+                      <Calculator className="mr-2 h-4 w-4" /> Calculate Plan
+                  </Button>
+              </form>
+
+              {planError && (
+                  <Alert variant={planError.toLowerCase().includes('warning:') ? "default" : "destructive"} className="w-full">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle>{planError.toLowerCase().includes('warning:') ? 'Warning' : 'Error'}</AlertTitle>
+                      <AlertDescription>{planError}</AlertDescription>
+                  </Alert>
+              )}
+
+              {planResults && (
+                  <div className="space-y-6">
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                          <div className="p-4 border rounded-md bg-card shadow space-y-1 text-sm">
+                              <h3 className="text-md font-semibold text-primary border-b pb-1 mb-2">Pairwise Tests</h3>
+                              <div className="flex justify-between"><span className="font-medium">Required per category:</span><span className="font-semibold">{formatSampleSize(planResults.pairwiseRequiredPerGroup)}</span></div>
+                              <div className="flex justify-between"><span className="font-medium"># of Comparisons:</span><span>{planResults.numComparisons}</span></div>
+                              <div className="flex justify-between"><span className="font-medium">Planning α per comparison:</span><span>{formatScientific(planResults.planningAlpha, 3)}</span></div>
+                              {planResults.pairwisePower !== null && (
+                                  <div className="flex justify-between"><span className="font-medium">Power at given sample:</span><span>{formatPercent(planResults.pairwisePower * 100)}</span></div>
+                              )}
+                          </div>
+                          <div className="p-4 border rounded-md bg-card shadow space-y-1 text-sm">
+                              <h3 className="text-md font-semibold text-primary border-b pb-1 mb-2">Overall k×2 Test</h3>
+                              <div className="flex justify-between"><span className="font-medium">Required per category:</span><span className="font-semibold">{formatSampleSize(planResults.overallRequiredPerGroup)}</span></div>
+                              <div className="flex justify-between"><span className="font-medium">Target power:</span><span>{formatPercent(planResults.targetPower * 100)}</span></div>
+                              {planResults.overallPower !== null && (
+                                  <div className="flex justify-between"><span className="font-medium">Power at given sample:</span><span>{formatPercent(planResults.overallPower * 100)}</span></div>
+                              )}
+                          </div>
+                      </div>
+
+                      <div className="overflow-x-auto rounded-md border shadow-sm">
+                          <Table>
+                              <TableHeader className="table-header-dark">
+                                  <TableRow className="hover:bg-table-header-bg">
+                                      <TableHead>Category</TableHead>
+                                      <TableHead className="text-right">Baseline Rate</TableHead>
+                                      <TableHead className="text-right">Shifted Rate</TableHead>
+                                      <TableHead className="text-right">Pairwise: Required</TableHead>
+                                      <TableHead className="text-right">Overall: Required</TableHead>
+                                      {planResults.pairwisePower !== null && <TableHead className="text-right">Pairwise Power</TableHead>}
+                                      {planResults.overallPower !== null && <TableHead className="text-right">Overall Power</TableHead>}
+                                  </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                  {planResults.groups.map((row: PowerPlanGroupResult) => (
+                                      <TableRow key={`${row.group}-plan`} className="table-row-alt hover:bg-muted/50">
+                                          <TableCell className="font-medium py-2 px-4">{row.group}</TableCell>
+                                          <TableCell className="text-right py-2 px-4 table-cell-tint">{formatPercent(row.baselineRate * 100)}</TableCell>
+                                          <TableCell className="text-right py-2 px-4 table-cell-tint">{formatPercent(row.shiftedRate * 100)}</TableCell>
+                                          <TableCell className={cn("text-right py-2 px-4", row.pairwiseRequiredPerGroup === planResults.pairwiseRequiredPerGroup ? 'font-semibold' : '')}>
+                                              {formatSampleSize(row.pairwiseRequiredPerGroup)}
+                                          </TableCell>
+                                          <TableCell className={cn("text-right py-2 px-4", row.overallRequiredPerGroup === planResults.overallRequiredPerGroup ? 'font-semibold' : '')}>
+                                              {formatSampleSize(row.overallRequiredPerGroup)}
+                                          </TableCell>
+                                          {row.pairwisePower !== null && <TableCell className="text-right py-2 px-4">{formatPercent(row.pairwisePower * 100)}</TableCell>}
+                                          {row.overallPower !== null && <TableCell className="text-right py-2 px-4">{formatPercent(row.overallPower * 100)}</TableCell>}
+                                      </TableRow>
+                                  ))}
+                              </TableBody>
+                          </Table>
+                      </div>
+                      <p className="text-xs text-muted-foreground italic">
+                          Pairwise requirements detect a category&apos;s baseline rate against the shifted rate with a two-sided two-proportion test at the
+                          {' '}{correctionLabel(form.getValues('correction'))} planning α (stepwise and FDR methods use their most stringent first step, so the plan is conservative).
+                          Overall requirements are for the k×2 Chi-square test with that category shifted and the others at baseline.
+                      </p>
+
+                      <div className="space-y-2">
+                          <h3 className="text-lg font-semibold text-primary">Power Curves</h3>
+                          <p className="text-xs text-muted-foreground">
+                              Least favourable power of each test against the sample per category; the dashed line marks the target power of {formatDecimal(planResults.targetPower, 2)}.
+                          </p>
+                          <ChartContainer config={chartConfig} className="h-[320px] w-full">
+                              <LineChart data={planResults.powerCurve} margin={{ left: 12, right: 12, top: 8 }}>
+                                  <CartesianGrid vertical={false} />
+                                  <XAxis
+                                      dataKey="sampleSizePerGroup"
+                                      tickLine={false}
+                                      axisLine={false}
+                                      tickFormatter={(value: number) => value.toLocaleString()}
+                                  />
+                                  <YAxis
+                                      domain={[0, 1]}
+                                      tickLine={false}
+                                      axisLine={false}
+                                      tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                                  />
+                                  <ReferenceLine y={planResults.targetPower} strokeDasharray="4 4" />
+                                  <ChartTooltip
+                                      content={
+                                          <ChartTooltipContent
+                                              labelFormatter={(_, payload) => `n = ${payload?.[0]?.payload?.sampleSizePerGroup?.toLocaleString()} per category`}
+                                              formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${formatPercent(Number(value) * 100)}`}
+                                          />
+                                      }
+                                  />
+                                  <ChartLegend content={<ChartLegendContent />} />
+                                  <Line type="monotone" dataKey="pairwisePower" stroke="var(--color-pairwisePower)" strokeWidth={2} dot={false} />
+                                  <Line type="monotone" dataKey="overallPower" stroke="var(--color-overallPower)" strokeWidth={2} dot={false} />
+                              </LineChart>
+                          </ChartContainer>
+                      </div>
+                  </div>
+              )}
+          </CardContent>
+      </Card>
+  );
+}
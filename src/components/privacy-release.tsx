@@ -0,0 +1,117 @@
+"use client";
+
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+import {
+    type DifferentialPrivacyResults,
+    formatDecimal,
+    formatPercent,
+    formatScientific
+} from "@/lib/calculations";
+import { cn } from "@/lib/utils";
+
+
+interface PrivacyReleaseProps {
+  privacy: DifferentialPrivacyResults;
+}
+
+
+// --- Component ---
+export default function PrivacyRelease({ privacy }: PrivacyReleaseProps) {
+  const level = `${formatDecimal(privacy.confidenceLevel * 100, 0)}%`;
+
+  return (
+      <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-primary mb-2">Differential Privacy Release</h3>
+          <p className="text-xs text-muted-foreground">
+              Every count in this report was released with a privacy budget of ε = {formatDecimal(privacy.epsilon, 3)}: each cell of the table received two-sided geometric noise
+              with a standard deviation of {formatDecimal(privacy.noiseStandardDeviation, 2)} counts, within ±{privacy.noiseMargin.toLocaleString()} counts at {level} confidence.
+              All statistics are computed from the released counts, and the tests treat them as exact; the tables below add the noise back in.
+          </p>
+          <div className="overflow-x-auto rounded-md border shadow-sm">
+              <Table>
+                  <TableHeader className="table-header-dark">
+                      <TableRow className="hover:bg-table-header-bg">
+                          <TableHead>Category</TableHead>
+                          <TableHead className="text-right">Released % Experienced</TableHead>
+                          <TableHead className="text-right">Sampling SE (pp)</TableHead>
+                          <TableHead className="text-right">Noise SE (pp)</TableHead>
+                          <TableHead className="text-right">{level} CI with Noise</TableHead>
+                      </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                      {privacy.groups.map(row => (
+                          <TableRow key={`${row.group}-privacy`} className="table-row-alt hover:bg-muted/50">
+                              <TableCell className="font-medium py-2 px-4">
+                                  {row.group}
+                                  {row.clamped && <span className="text-yellow-700 dark:text-yellow-300"> ⚠</span>}
+                              </TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint">{formatPercent(row.rate)}</TableCell>
+                              <TableCell className="text-right py-2 px-4">{formatDecimal(row.samplingStandardError, 2)}</TableCell>
+                              <TableCell className="text-right py-2 px-4">{formatDecimal(row.noiseStandardError, 2)}</TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint whitespace-nowrap">
+                                  {row.ci ? `${formatPercent(row.ci.lower)} – ${formatPercent(row.ci.upper)}` : 'N/A'}
+                              </TableCell>
+                          </TableRow>
+                      ))}
+                  </TableBody>
+              </Table>
+          </div>
+          <p className="text-xs text-muted-foreground italic mt-2">
+              Noise SE is the standard error the noise adds to the released rate (delta method); the interval is a normal approximation combining it with the sampling error.
+              Adding or removing one person changes one cell by one, so the release is ε-differentially private; changing one person&apos;s record costs 2ε.
+              <span className="text-yellow-700 dark:text-yellow-300"> ⚠</span> A noisy count fell below zero and was released as zero.
+          </p>
+
+          {privacy.pairs.length > 0 && (
+              <>
+                  <div className="overflow-x-auto rounded-md border shadow-sm">
+                      <Table>
+                          <TableHeader className="table-header-dark">
+                              <TableRow className="hover:bg-table-header-bg">
+                                  <TableHead>Comparison</TableHead>
+                                  <TableHead className="text-right">Difference (pp)</TableHead>
+                                  <TableHead className="text-right">Sampling SE (pp)</TableHead>
+                                  <TableHead className="text-right">Noise SE (pp)</TableHead>
+                                  <TableHead className="text-right">{level} CI with Noise</TableHead>
+                                  <TableHead className="text-right">Impact Ratio</TableHead>
+                                  <TableHead className="text-right">{level} CI with Noise</TableHead>
+                                  <TableHead className="text-right">Adj. P-Value with Noise</TableHead>
+                                  <TableHead className="text-center">Significant in Report</TableHead>
+                              </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                              {privacy.pairs.map(row => (
+                                  <TableRow key={`${row.group1}-${row.group2}-privacy`} className="table-row-alt hover:bg-muted/50">
+                                      <TableCell className="font-medium py-2 px-4">{row.group1} vs {row.group2}</TableCell>
+                                      <TableCell className="text-right py-2 px-4 table-cell-tint">{formatDecimal(row.riskDifference, 2)}</TableCell>
+                                      <TableCell className="text-right py-2 px-4">{formatDecimal(row.samplingStandardError, 2)}</TableCell>
+                                      <TableCell className="text-right py-2 px-4">{formatDecimal(row.noiseStandardError, 2)}</TableCell>
+                                      <TableCell className="text-right py-2 px-4 whitespace-nowrap">
+                                          {row.riskDifferenceCI ? `${formatDecimal(row.riskDifferenceCI.lower, 2)} – ${formatDecimal(row.riskDifferenceCI.upper, 2)}` : 'N/A'}
+                                      </TableCell>
+                                      <TableCell className="text-right py-2 px-4 table-cell-tint">{formatDecimal(row.impactRatio, 3)}</TableCell>
+                                      <TableCell className="text-right py-2 px-4 whitespace-nowrap">
+                                          {row.impactRatioCI ? `${formatDecimal(row.impactRatioCI.lower, 3)} – ${formatDecimal(row.impactRatioCI.upper, 3)}` : 'N/A'}
+                                      </TableCell>
+                                      <TableCell className={cn("text-right py-2 px-4", row.isSignificant ? 'text-destructive font-semibold' : '')}>
+                                          {formatScientific(row.pValueCorrected, 3)}
+                                      </TableCell>
+                                      <TableCell className={cn("text-center py-2 px-4", row.reportSignificant && !row.isSignificant ? 'text-yellow-700 dark:text-yellow-300 font-semibold' : '')}>
+                                          {row.reportSignificant ? (row.isSignificant ? 'Yes' : '⚠ Yes') : 'No'}
+                                      </TableCell>
+                                  </TableRow>
+                              ))}
+                          </TableBody>
+                      </Table>
+                  </div>
+                  <p className="text-xs text-muted-foreground italic mt-2">
+                      Each pair&apos;s difference and impact ratio (first category&apos;s rate over the second&apos;s) carry both the sampling error and the noise of the two released rates, and the z-test of the difference uses the report&apos;s correction across the pairs.
+                      <span className="text-yellow-700 dark:text-yellow-300"> ⚠</span> The report&apos;s own test, which treats the released counts as exact, is significant, but the comparison is not once the noise is included.
+                  </p>
+              </>
+          )}
+      </div>
+  );
+}
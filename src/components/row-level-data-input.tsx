@@ -0,0 +1,264 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Upload, X } from 'lucide-react';
+
+import type { RowLevelInputs, RowLevelRecord } from "@/lib/calculations";
+import { parseCSV } from "@/lib/utils";
+
+
+interface ParsedFile {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface RowLevelGroupCounts {
+  name: string;
+  experienced: number;
+  total: number;
+}
+
+interface RowLevelDataInputProps {
+  // Called with the records to analyse and the group counts they tally to
+  onApply: (rowLevel: RowLevelInputs, counts: RowLevelGroupCounts[]) => void;
+  onClear: () => void;
+  applied: RowLevelInputs | null;
+}
+
+const NONE = '__none__';
+
+const distinctValues = (rows: string[][], column: number) =>
+  Array.from(new Set(rows.map(row => (row[column] ?? '').trim()).filter(value => value !== '')));
+
+
+// --- Component ---
+export default function RowLevelDataInput({ onApply, onClear, applied }: RowLevelDataInputProps) {
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [groupColumn, setGroupColumn] = useState<string>(NONE);
+  const [outcomeColumn, setOutcomeColumn] = useState<string>(NONE);
+  const [experiencedValue, setExperiencedValue] = useState<string>(NONE);
+  const [covariates, setCovariates] = useState<string[]>([]);
+  const [referenceGroup, setReferenceGroup] = useState<string>(NONE);
+
+  const columnIndex = (name: string) => parsed?.headers.indexOf(name) ?? -1;
+
+  const groupValues = useMemo(
+    () => (parsed && groupColumn !== NONE ? distinctValues(parsed.rows, parsed.headers.indexOf(groupColumn)) : []),
+    [parsed, groupColumn]
+  );
+  const outcomeValues = useMemo(
+    () => (parsed && outcomeColumn !== NONE ? distinctValues(parsed.rows, parsed.headers.indexOf(outcomeColumn)).sort() : []),
+    [parsed, outcomeColumn]
+  );
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = () => {
+          const rows = parseCSV(String(reader.result ?? ''));
+          if (rows.length < 2) {
+              setParsed(null);
+              setFileError("The file needs a header row and at least one record.");
+              return;
+          }
+          setParsed({ fileName: file.name, headers: rows[0].map(h => h.trim()), rows: rows.slice(1) });
+          setFileError(null);
+          setGroupColumn(NONE);
+          setOutcomeColumn(NONE);
+          setExperiencedValue(NONE);
+          setCovariates([]);
+          setReferenceGroup(NONE);
+      };
+      reader.onerror = () => setFileError("The file could not be read.");
+      reader.readAsText(file);
+  };
+
+  const handleOutcomeColumnChange = (value: string) => {
+      setOutcomeColumn(value);
+      setCovariates(current => current.filter(c => c !== value));
+      // Default to "1" for 0/1 coded outcomes
+      const values = parsed ? distinctValues(parsed.rows, parsed.headers.indexOf(value)) : [];
+      setExperiencedValue(values.includes('1') ? '1' : NONE);
+  };
+
+  const handleGroupColumnChange = (value: string) => {
+      setGroupColumn(value);
+      setCovariates(current => current.filter(c => c !== value));
+      setReferenceGroup(NONE);
+  };
+
+  const toggleCovariate = (name: string, checked: boolean) => {
+      setCovariates(current => (checked ? [...current, name] : current.filter(c => c !== name)));
+  };
+
+  const handleApply = () => {
+      if (!parsed || groupColumn === NONE || outcomeColumn === NONE || experiencedValue === NONE) return;
+      const groupIndex = columnIndex(groupColumn);
+      const outcomeIndex = columnIndex(outcomeColumn);
+      // A covariate is numeric when every non-empty value parses as a number
+      const numericCovariates = new Set(covariates.filter(name => {
+          const index = columnIndex(name);
+          return parsed.rows.every(row => {
+              const value = (row[index] ?? '').trim();
+              return value === '' || isFinite(Number(value));
+          });
+      }));
+
+      const records: RowLevelRecord[] = parsed.rows
+          .filter(row => (row[groupIndex] ?? '').trim() !== '' && (row[outcomeIndex] ?? '').trim() !== '')
+          .map(row => ({
+              group: row[groupIndex].trim(),
+              experienced: row[outcomeIndex].trim() === experiencedValue,
+              covariates: Object.fromEntries(covariates.map(name => {
+                  const value = (row[columnIndex(name)] ?? '').trim();
+                  if (value === '') return [name, null];
+                  return [name, numericCovariates.has(name) ? Number(value) : value];
+              })),
+          }));
+
+      const counts: RowLevelGroupCounts[] = groupValues.map(name => {
+          const groupRecords = records.filter(r => r.group === name);
+          return { name, experienced: groupRecords.filter(r => r.experienced).length, total: groupRecords.length };
+      });
+
+      onApply(
+          { records, covariates, referenceGroup: referenceGroup === NONE ? undefined : referenceGroup },
+          counts
+      );
+  };
+
+  const canApply = parsed && groupColumn !== NONE && outcomeColumn !== NONE && experiencedValue !== NONE && groupValues.length >= 2;
+
+  return (
+      <div className="space-y-4 p-3 border border-dashed rounded-md">
+          <div className="space-y-1">
+              <Label className="text-lg font-medium text-primary">Row-Level Data (Optional)</Label>
+              <p className="text-xs text-muted-foreground">
+                  Upload a CSV file with one record per row to adjust the disparity for covariates such as qualifications or credit score.
+                  The category counts are replaced by the tallies of the records, and the report adds a logistic regression of the outcome on the categories and the selected covariates.
+              </p>
+          </div>
+
+          {applied && (
+              <div className="flex flex-wrap items-center gap-2 text-sm bg-secondary/30 p-2 rounded-md">
+                  <span>
+                      Using {applied.records.length.toLocaleString()} records
+                      {applied.covariates.length > 0 ? `, adjusted for ${applied.covariates.join(', ')}` : ', without covariates'}.
+                  </span>
+                  <Button type="button" variant="ghost" size="sm" onClick={onClear} className="text-destructive hover:bg-destructive/10">
+                      <X className="mr-1 h-4 w-4" /> Remove
+                  </Button>
+              </div>
+          )}
+
+          <div className="space-y-2 max-w-md">
+              <Label htmlFor="rowLevelFile">CSV File</Label>
+              <Input id="rowLevelFile" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+          </div>
+
+          {fileError && (
+              <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>File Error</AlertTitle>
+                  <AlertDescription>{fileError}</AlertDescription>
+              </Alert>
+          )}
+
+          {parsed && (
+              <div className="space-y-4">
+                  <p className="text-xs text-muted-foreground">
+                      {parsed.fileName}: {parsed.rows.length.toLocaleString()} records, {parsed.headers.length} columns.
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                      <div className="space-y-2">
+                          <Label htmlFor="rowLevelGroupColumn">Category Column</Label>
+                          <Select value={groupColumn} onValueChange={handleGroupColumnChange}>
+                              <SelectTrigger id="rowLevelGroupColumn">
+                                  <SelectValue placeholder="Select column" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                  <SelectItem value={NONE}>Select column</SelectItem>
+                                  {parsed.headers.map(header => (
+                                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                          </Select>
+                      </div>
+                      <div className="space-y-2">
+                          <Label htmlFor="rowLevelOutcomeColumn">Outcome Column</Label>
+                          <Select value={outcomeColumn} onValueChange={handleOutcomeColumnChange}>
+                              <SelectTrigger id="rowLevelOutcomeColumn">
+                                  <SelectValue placeholder="Select column" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                  <SelectItem value={NONE}>Select column</SelectItem>
+                                  {parsed.headers.filter(h => h !== groupColumn).map(header => (
+                                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                          </Select>
+                      </div>
+                      <div className="space-y-2">
+                          <Label htmlFor="rowLevelExperiencedValue">Value Meaning &quot;Experienced&quot;</Label>
+                          <Select value={experiencedValue} onValueChange={setExperiencedValue} disabled={outcomeColumn === NONE}>
+                              <SelectTrigger id="rowLevelExperiencedValue">
+                                  <SelectValue placeholder="Select value" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                  <SelectItem value={NONE}>Select value</SelectItem>
+                                  {outcomeValues.map(value => (
+                                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                          </Select>
+                      </div>
+                      <div className="space-y-2">
+                          <Label htmlFor="rowLevelReferenceGroup">Regression Reference</Label>
+                          <Select value={referenceGroup} onValueChange={setReferenceGroup} disabled={groupColumn === NONE}>
+                              <SelectTrigger id="rowLevelReferenceGroup">
+                                  <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                  <SelectItem value={NONE}>First category</SelectItem>
+                                  {groupValues.map(value => (
+                                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                          </Select>
+                      </div>
+                  </div>
+                  <div className="space-y-2">
+                      <Label>Covariates</Label>
+                      <div className="flex flex-wrap gap-x-6 gap-y-2">
+                          {parsed.headers.filter(h => h !== groupColumn && h !== outcomeColumn).map(header => (
+                              <div key={header} className="flex items-center gap-2">
+                                  <Checkbox
+                                      id={`covariate-${header}`}
+                                      checked={covariates.includes(header)}
+                                      onCheckedChange={(checked) => toggleCovariate(header, checked === true)}
+                                  />
+                                  <Label htmlFor={`covariate-${header}`} className="font-normal">{header}</Label>
+                              </div>
+                          ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                          Numeric columns enter the model as they are; text columns are dummy-coded. Records with a missing covariate value are left out of the regression.
+                      </p>
+                  </div>
+                  <Button type="button" variant="outline" onClick={handleApply} disabled={!canApply}>
+                      <Upload className="mr-2 h-4 w-4" /> Use Row-Level Data
+                  </Button>
+              </div>
+          )}
+      </div>
+  );
+}
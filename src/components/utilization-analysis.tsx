@@ -0,0 +1,99 @@
+"use client";
+
+import React from 'react';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+import {
+    type UtilizationResults,
+    correctionLabel,
+    type CorrectionMethod,
+    utilizationVerdictLabel,
+    formatDecimal,
+    formatPercent,
+    formatScientific
+} from "@/lib/calculations";
+import { cn } from "@/lib/utils";
+
+
+interface UtilizationAnalysisProps {
+  utilization: UtilizationResults;
+  correction: CorrectionMethod;
+}
+
+
+// --- Component ---
+export default function UtilizationAnalysis({ utilization, correction }: UtilizationAnalysisProps) {
+  const { goodnessOfFit } = utilization;
+  const totalExpected = utilization.groups.reduce((sum, row) => sum + row.expected, 0);
+
+  return (
+      <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-primary mb-2">Utilization Against Benchmarks</h3>
+          <p className="text-xs text-muted-foreground">
+              Each category&apos;s share of the {utilization.totalOutcomes.toLocaleString()} outcomes is compared with its benchmark share (e.g. labor-market availability),
+              not with the other categories. Expected = total outcomes × benchmark share.
+          </p>
+          <div className="text-sm">
+              <strong>Goodness of Fit (Pearson):</strong> χ² = {formatDecimal(goodnessOfFit.statistic)},
+              df = {goodnessOfFit.degreesOfFreedom},
+              p = {formatScientific(goodnessOfFit.pValue, 3)}
+          </div>
+          <div className="overflow-x-auto rounded-md border shadow-sm">
+              <Table>
+                  <TableHeader className="table-header-dark">
+                      <TableRow className="hover:bg-table-header-bg">
+                          <TableHead>Category</TableHead>
+                          <TableHead className="text-right">Benchmark Share</TableHead>
+                          <TableHead className="text-right">Observed Share</TableHead>
+                          <TableHead className="text-right">Observed</TableHead>
+                          <TableHead className="text-right">Expected</TableHead>
+                          <TableHead className="text-right">Shortfall</TableHead>
+                          <TableHead className="text-right">Z</TableHead>
+                          <TableHead className="text-right">Exact P-Value</TableHead>
+                          <TableHead className="text-right">Exact P-Value (Corrected)</TableHead>
+                          <TableHead>Verdict</TableHead>
+                      </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                      {utilization.groups.map(row => (
+                          <TableRow key={`${row.group}-utilization`} className="table-row-alt hover:bg-muted/50">
+                              <TableCell className="font-medium py-2 px-4">{row.group}</TableCell>
+                              <TableCell className="text-right py-2 px-4">{formatPercent(row.expectedShare)}</TableCell>
+                              <TableCell className="text-right py-2 px-4 table-cell-tint">{formatPercent(row.observedShare)}</TableCell>
+                              <TableCell className="text-right py-2 px-4">{row.observed.toLocaleString()}</TableCell>
+                              <TableCell className="text-right py-2 px-4">{formatDecimal(row.expected, 2)}</TableCell>
+                              <TableCell className={cn("text-right py-2 px-4 table-cell-tint", row.verdict === 'underutilized' ? 'text-destructive font-semibold' : '')}>
+                                  {row.shortfall.toLocaleString()}
+                              </TableCell>
+                              <TableCell className="text-right py-2 px-4">{formatDecimal(row.zStatistic, 2)}</TableCell>
+                              <TableCell className="text-right py-2 px-4">{formatScientific(row.exactPValue, 3)}</TableCell>
+                              <TableCell className={cn("text-right py-2 px-4", row.verdict !== 'none' ? 'text-destructive font-semibold' : '')}>
+                                  {formatScientific(row.exactPValueCorrected, 3)}
+                              </TableCell>
+                              <TableCell className={cn("py-2 px-4 text-xs", row.verdict === 'underutilized' ? 'text-destructive font-semibold' : 'text-muted-foreground')}>
+                                  {utilizationVerdictLabel(row.verdict)}
+                              </TableCell>
+                          </TableRow>
+                      ))}
+                  </TableBody>
+                  <TableFooter>
+                      <TableRow className="bg-muted/80 font-semibold hover:bg-muted">
+                          <TableCell className="py-2 px-4">Total</TableCell>
+                          <TableCell className="text-right py-2 px-4">{formatPercent(100)}</TableCell>
+                          <TableCell className="text-right py-2 px-4">{formatPercent(100)}</TableCell>
+                          <TableCell className="text-right py-2 px-4">{utilization.totalOutcomes.toLocaleString()}</TableCell>
+                          <TableCell className="text-right py-2 px-4">{formatDecimal(totalExpected, 2)}</TableCell>
+                          <TableCell className="text-right py-2 px-4">{utilization.totalShortfall.toLocaleString()}</TableCell>
+                          <TableCell colSpan={4} />
+                      </TableRow>
+                  </TableFooter>
+              </Table>
+          </div>
+          <p className="text-xs text-muted-foreground italic mt-2">
+              Shortfall is the number of additional outcomes a category needs to reach its expected count. Z is the normal approximation, (observed − expected) ÷ √(N·p·(1 − p)), negative below the benchmark.
+              Exact p-values are two-sided binomial tests, corrected across categories with the {correctionLabel(correction)} method; a significant result is flagged as under- or overutilization.
+              {Math.abs(utilization.benchmarkTotal - 1) > 0.001 && ` The benchmarks entered sum to ${formatDecimal(utilization.benchmarkTotal, 3)} and were rescaled to sum to 1.`}
+          </p>
+      </div>
+  );
+}
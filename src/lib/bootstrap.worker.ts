@@ -0,0 +1,25 @@
+// Runs the bootstrap off the main thread so the calculator stays responsive while it resamples.
+import { calculateBootstrapIntervals, type BootstrapOptions, type BootstrapResults, type GroupInput, type RowLevelInputs } from './calculations';
+
+export interface BootstrapWorkerRequest {
+  groups: GroupInput[];
+  options: BootstrapOptions;
+  confidenceLevel: number;
+  comparatorGroup?: string;
+  rowLevel?: RowLevelInputs;
+}
+
+export type BootstrapWorkerResponse =
+  | { results: BootstrapResults | null; error?: undefined }
+  | { results?: undefined; error: string };
+
+self.onmessage = (event: MessageEvent<BootstrapWorkerRequest>) => {
+  const { groups, options, confidenceLevel, comparatorGroup, rowLevel } = event.data;
+  let response: BootstrapWorkerResponse;
+  try {
+    response = { results: calculateBootstrapIntervals(groups, options, confidenceLevel, comparatorGroup, rowLevel) };
+  } catch (e: any) {
+    response = { error: e.message ?? String(e) };
+  }
+  self.postMessage(response);
+};
@@ -9,23 +9,604 @@ export interface GroupInput {
     name: string;
     experienced: number; // Count of those who experienced the outcome
     notExperienced: number; // Count of those who did NOT experience the outcome
+    score?: number; // Ordinal score for the trend test; defaults to the group's position (1, 2, ...)
+    outcomeCounts?: number[]; // Counts per outcome level, in the order of outcomeLabels; required with outcomeLabels
+    benchmark?: number; // Expected share of all outcomes (e.g. labor-market availability), 0-1; required for the utilization analysis
 }
 
+// Test used for pairwise 2x2 comparisons.
+// 'auto' uses the Chi-square test unless any expected cell of the pair's 2x2 table
+// is below 5, in which case Fisher's exact test (two-sided) is used for that pair.
+export type PairwiseTestMethod = 'chiSquare' | 'fisher' | 'auto';
+
+// Alternative hypothesis for Fisher's exact test, stated for the first group of a pair
+// against the second: 'less' means the first group's rate is lower than the second's.
+export type FisherAlternative = 'two-sided' | 'less' | 'greater';
+
+// Multiple-comparison correction applied to a family of pairwise p-values.
+// 'BH' (Benjamini-Hochberg) and 'BY' (Benjamini-Yekutieli) control the false discovery
+// rate; the others control the family-wise error rate.
+export type CorrectionMethod = 'none' | 'bonferroni' | 'sidak' | 'holm' | 'hochberg' | 'hommel' | 'BH' | 'BY';
+
+// Method for the confidence interval of a single group's outcome rate
+export type RateCiMethod = 'wilson' | 'clopperPearson' | 'agrestiCoull' | 'jeffreys' | 'wald';
+
+// Confidence interval bounds, in the same units as the estimate they accompany
+export interface ConfidenceInterval {
+    lower: number;
+    upper: number;
+}
+
+// A point estimate with its confidence interval (null when the interval is undefined)
+export interface EffectEstimate {
+    estimate: number;
+    ci: ConfidenceInterval | null;
+}
+
+// Effect sizes for a 2x2 comparison of a first group against a second group
+export interface PairwiseEffectSizes {
+    riskDifference: EffectEstimate; // p1 - p2 in percentage points, Newcombe hybrid score CI
+    riskRatio: EffectEstimate;      // p1 / p2, log (Katz) CI
+    oddsRatio: EffectEstimate;      // Sample odds ratio, Woolf (logit) CI
+    oddsRatioExact: EffectEstimate; // Conditional MLE, exact CI from the noncentral hypergeometric distribution
+    phi: number;                    // Signed phi coefficient of the 2x2 table (positive when p1 > p2)
+    cohensH: number;                // 2·asin(√p1) − 2·asin(√p2)
+    cohensHMagnitude: EffectMagnitude;
+    haldaneApplied: boolean;        // 0.5 added to every cell for the risk and odds ratios because of a zero cell
+}
+
+// Conventional (Cohen, 1988) size labels for an effect size
+export type EffectMagnitude = 'negligible' | 'small' | 'medium' | 'large';
+
+// Cochran-Armitage test for a linear trend in the rates across ordered groups
+export interface TrendTestResult {
+    scores: number[];   // Scores of the groups with observations, in input order
+    zStatistic: number; // Positive when the rate rises with the score
+    statistic: number;  // Z², Chi-square with 1 df
+    pValue: number;     // Two-sided
+    linearByLinear: {   // M² = (N − 1)·r² between score and outcome, Chi-square with 1 df
+        statistic: number;
+        pValue: number;
+    };
+    departure: {        // Pearson X² − Z²: departure from a linear trend; null for two groups
+        statistic: number;
+        degreesOfFreedom: number;
+        pValue: number;
+    } | null;
+}
+
+// Overall strength of association for the k×2 table
+export interface OverallEffectSize {
+    cramersV: EffectEstimate;  // √(X² / N); equals |phi| for two groups. CI inverts the noncentral Chi-square
+    cramersVCorrected: number; // Bergsma (2013) bias-corrected V
+    magnitude: EffectMagnitude;
+}
+
+// Options for the adverse impact (four-fifths rule) analysis
+export interface AdverseImpactOptions {
+    comparatorGroup?: string; // Group whose rate is the denominator; defaults to the highest-rate group
+    threshold?: number;       // Impact ratio below which practical adverse impact is flagged; defaults to 0.8
+}
+
+// Combined practical (four-fifths) and statistical (2 SD) verdict for a group
+export type AdverseImpactVerdict = 'comparator' | 'adverseImpact' | 'practicalOnly' | 'statisticalOnly' | 'none' | 'notAvailable';
+
+// Adverse impact results for a single group against the comparator
+export interface AdverseImpactGroupResult {
+    group: string;
+    selectionRate: number;      // % experienced
+    impactRatio: number;        // selectionRate / comparator's selectionRate
+    belowThreshold: boolean;    // impactRatio < threshold (four-fifths rule)
+    zStatistic: number;         // Pooled two-proportion z, positive when the group's rate is below the comparator's
+    pValue: number;             // Two-sided p-value of the z-test
+    exceedsTwoSD: boolean;      // zStatistic > 2 (shortfall of more than two standard deviations)
+    verdict: AdverseImpactVerdict;
+}
+
+// Adverse impact analysis for the whole report
+export interface AdverseImpactResults {
+    comparatorGroup: string;
+    comparatorBasis: 'highestRate' | 'selected';
+    threshold: number;
+    groups: AdverseImpactGroupResult[];
+}
+
+// Options for the Bayesian comparison (beta-binomial model)
+export interface BayesianOptions {
+    priorAlpha?: number;     // α of the Beta prior on every group's rate; defaults to 1 (uniform prior)
+    priorBeta?: number;      // β of the Beta prior; defaults to 1
+    ratioThreshold?: number; // Practical threshold for the rate ratio; defaults to 0.8
+}
+
+// Beta posterior of a single group's rate
+export interface BayesianGroupPosterior {
+    group: string;
+    posteriorAlpha: number;
+    posteriorBeta: number;
+    mean: number;                         // Posterior mean, in percent
+    credibleInterval: ConfidenceInterval; // Equal-tailed, in percent
+}
+
+// Posterior probabilities comparing the rates of two groups
+export interface BayesianPairComparison {
+    group1: string;
+    group2: string;
+    probabilityLower: number;                     // P(rate1 < rate2)
+    probabilityRatioBelowThreshold: number;        // P(rate1 / rate2 < threshold)
+    probabilityInverseRatioBelowThreshold: number; // P(rate2 / rate1 < threshold)
+}
+
+export interface BayesianResults {
+    priorAlpha: number;
+    priorBeta: number;
+    credibleLevel: number;
+    ratioThreshold: number;
+    groups: BayesianGroupPosterior[];
+    pairs: BayesianPairComparison[];
+}
+
+// One row-level record for the covariate-adjusted analysis
+export interface RowLevelRecord {
+    group: string;
+    experienced: boolean;
+    covariates: Record<string, number | string | null>; // Numbers are numeric covariates; strings are dummy-coded; null is missing
+}
+
+// Row-level data for the logistic regression
+export interface RowLevelInputs {
+    records: RowLevelRecord[];
+    covariates: string[];    // Covariate names to adjust for, keys of each record's covariates
+    referenceGroup?: string; // Baseline of the group dummies; defaults to the first group
+}
+
+// A single term of a fitted logistic regression
+export interface LogisticCoefficient {
+    term: string;
+    estimate: number;      // Log-odds coefficient
+    standardError: number;
+    oddsRatio: EffectEstimate; // exp(estimate) with the Wald interval
+    waldZ: number;
+    waldPValue: number;
+}
+
+// Crude and covariate-adjusted comparison of one group with the reference group
+export interface AdjustedGroupComparison {
+    group: string;
+    crudeOddsRatio: EffectEstimate;
+    crudeWaldPValue: number;
+    adjustedOddsRatio: EffectEstimate;
+    adjustedWaldZ: number;
+    adjustedWaldPValue: number;
+    likelihoodRatio: ChiSquareTestResult; // Adjusted model against the one merging this group into the reference
+    likelihoodRatioPValueCorrected: number;
+    isSignificant: boolean;
+}
+
+// Results of the covariate-adjusted (logistic regression) analysis
+export interface AdjustedDisparityResults {
+    referenceGroup: string;
+    covariates: string[];
+    recordsUsed: number;
+    recordsExcluded: number; // Records with a missing covariate value (complete-case analysis)
+    groups: AdjustedGroupComparison[];
+    covariateTerms: LogisticCoefficient[]; // Adjusted model terms other than the intercept and the group dummies
+    crudeGroupTest: ChiSquareTestResult;    // Likelihood ratio test of all group terms without covariates
+    adjustedGroupTest: ChiSquareTestResult; // The same test with the covariates in both models
+    converged: boolean;
+    separation: boolean; // Some estimate diverged, usually a group or covariate level with all or no outcomes
+}
+
+// Resampling scheme of the bootstrap: multinomial draws of the k×2 table, or records drawn with replacement
+export type BootstrapMethod = 'parametric' | 'nonparametric';
+
+// Options for the bootstrap intervals
+export interface BootstrapOptions {
+    replicates?: number; // Defaults to 2000
+    seed?: number;       // Generated and recorded when omitted
+}
+
+// Bootstrap distribution summary of one statistic
+export interface BootstrapInterval {
+    estimate: number;                    // Value in the observed data
+    standardError: number;               // Standard deviation of the replicates
+    percentile: ConfidenceInterval | null;
+    bca: ConfidenceInterval | null;      // Null when the bias correction or acceleration is undefined (e.g. every replicate equal)
+    validReplicates: number;             // Replicates in which the statistic was defined
+}
+
+export interface BootstrapImpactRatio extends BootstrapInterval {
+    group: string;
+}
+
+export interface BootstrapRiskDifference extends BootstrapInterval {
+    group1: string;
+    group2: string; // Estimate is group1's rate minus group2's, in percentage points
+}
+
+export interface BootstrapRank extends BootstrapInterval {
+    group: string;              // Rank 1 is the highest rate; tied rates share the average rank
+    probabilityHighest: number; // Share of replicates in which the group alone has the highest rate
+}
+
+export interface BootstrapResults {
+    method: BootstrapMethod;
+    replicates: number;
+    seed: number; // Recorded so the intervals can be reproduced exactly
+    confidenceLevel: number;
+    impactComparator: string; // Denominator of every impact ratio, fixed across replicates
+    impactRatios: BootstrapImpactRatio[];
+    riskDifferences: BootstrapRiskDifference[];
+    cramersV: BootstrapInterval;
+    rankings: BootstrapRank[];
+}
+
+// Scale of the equivalence margin: rate difference in percentage points, or rate ratio
+export type EquivalenceScale = 'difference' | 'ratio';
+
+// Options for the equivalence tests (TOST)
+export interface EquivalenceOptions {
+    scale?: EquivalenceScale; // Defaults to 'difference'
+    margin?: number;          // ±margin in percentage points (default 5), or the ratio bound m < 1 for the range [m, 1/m] (default 0.8)
+}
+
+export type EquivalenceVerdict = 'equivalent' | 'different' | 'inconclusive';
+
+// Two one-sided tests for one pair, group1 relative to group2
+export interface EquivalencePairResult {
+    group1: string;
+    group2: string;
+    estimate: number;                   // Rate difference (pp) or rate ratio
+    ci: ConfidenceInterval;             // (1 - 2α) interval, not adjusted for multiplicity
+    zeroCellCorrected: boolean;         // Ratio scale only: 0.5 added to every cell because a group had no outcomes
+    pValueLower: number;                // H0: effect at or below the lower margin
+    pValueUpper: number;                // H0: effect at or above the upper margin
+    pValueEquivalence: number;          // Larger of the two one-sided p-values
+    pValueEquivalenceCorrected: number; // Adjusted over all pairs with the selected correction
+    pValueDifference: number;           // H0: effect within the margins, two-sided
+    pValueDifferenceCorrected: number;
+    verdict: EquivalenceVerdict;
+}
+
+export interface EquivalenceResults {
+    scale: EquivalenceScale;
+    margin: number;
+    lowerMargin: number; // Equivalence range on the reported scale
+    upperMargin: number;
+    pairs: EquivalencePairResult[];
+    matrix: EquivalenceMatrix;
+}
+
+// Whether a group's share of outcomes falls significantly short of, or exceeds, its benchmark
+export type UtilizationVerdict = 'underutilized' | 'overutilized' | 'none';
+
+// One group's outcomes against the count expected under its benchmark
+export interface UtilizationGroupResult {
+    group: string;
+    benchmark: number;             // As entered, 0-1
+    expectedShare: number;         // Benchmark rescaled so the benchmarks sum to 1, in percent
+    observed: number;              // Outcomes (experienced) in the group
+    observedShare: number;         // observed / all outcomes, in percent
+    expected: number;              // All outcomes × expected share
+    shortfall: number;             // Whole outcomes needed to reach the expected count; 0 at or above it
+    zStatistic: number;            // (observed - expected) / √(N p (1 - p)), negative below the benchmark
+    zPValue: number;               // Two-sided
+    exactPValue: number;           // Two-sided exact binomial test
+    exactPValueBelow: number;      // One-sided exact P(X ≤ observed)
+    exactPValueCorrected: number;  // Two-sided exact p adjusted over the groups with the selected correction
+    verdict: UtilizationVerdict;
+}
+
+// Utilization analysis: each group's share of all outcomes against an external benchmark
+export interface UtilizationResults {
+    totalOutcomes: number;
+    benchmarkTotal: number;                // Sum of the benchmarks as entered
+    groups: UtilizationGroupResult[];
+    goodnessOfFit: ChiSquareTestResult;    // Pearson test of all groups' outcomes against the benchmarks, df = k - 1
+    totalShortfall: number;
+}
+
+// Outcome changes needed to bring one group to the overall rate.
+// Positive counts are additional outcomes; negative counts are outcomes fewer.
+export interface ParityGapGroupResult {
+    group: string;
+    rate: number;                  // % experienced
+    outcomesToOverallRate: number;
+    isSignificant: boolean;        // Adjusted residual significant after correction, as in the contingency summary
+    changesToNonSignificance: number | null; // Changes toward the overall rate after which the corrected adjusted-residual p-value is no longer below alpha; null unless significant
+}
+
+// Outcome changes in the comparison group needed to close its gap with a reference group
+export interface ParityGapPairResult {
+    referenceGroup: string;
+    comparisonGroup: string;
+    rateDifference: number;                 // comparisonRate - referenceRate, in percentage points
+    outcomesToReferenceRate: number;        // Signed as in ParityGapGroupResult
+    isSignificant: boolean;                 // As in the reference comparisons
+    changesToNonSignificance: number | null; // Changes toward the reference rate after which the corrected p-value is no longer below alpha; null unless significant
+}
+
+// Parity gap (shortfall) analysis for the whole report
+export interface ParityGapResults {
+    overallRate: number;         // % experienced over all groups
+    groups: ParityGapGroupResult[];
+    pairs: ParityGapPairResult[]; // One per reference comparison; empty without reference groups
+    totals: {
+        additionalToOverallRate: number;   // Sum over groups below the overall rate
+        fewerToOverallRate: number;        // Sum over groups above it
+        additionalToReferenceRate: number; // Sum over pairs, so a group is counted once per reference
+        fewerToReferenceRate: number;
+        changesToNonSignificance: number;  // Sum over significant pairs
+        groupChangesToNonSignificance: number; // Sum over groups with a significant adjusted residual
+    };
+}
+
+// Why a count of the published k×2 table is hidden: below the threshold itself, or to protect one that is
+export type SuppressionReason = 'primary' | 'complementary';
+
+// Options for small-cell suppression of a published report
+export interface SuppressionOptions {
+    threshold?: number; // Counts from 1 to threshold - 1 are suppressed; defaults to 10
+}
+
+// Suppression of the counts of one row of the k×2 table; null when the count is shown
+export interface SuppressedCounts {
+    experienced: SuppressionReason | null;
+    notExperienced: SuppressionReason | null;
+    total: SuppressionReason | null;
+}
+
+// Small-cell suppression applied to a copy of the report for publication
+export interface SuppressionResults {
+    threshold: number;
+    groups: Record<string, SuppressedCounts>; // By group name
+    totals: SuppressedCounts;                 // Column totals; total is the grand total
+    withheldGroups: string[];                 // Groups with a suppressed count; statistics involving them are withheld
+    withheldReferenceComparisons: number;     // Removed from referenceComparisons, but still part of their correction family
+    expectedWithheld: boolean;                // A column total is suppressed, so every group's expected counts and residuals are withheld
+    withheldSections: string[];               // Report sections withheld in full, by title
+}
+
+// Shown in place of suppressed counts and the statistics withheld with them
+export const SUPPRESSED_MARKER = 'S';
+
+// Input for a differentially private release; the group counts are noised before anything is computed.
+// Strata, outcome levels and row-level records carry counts of their own and are not released.
+export type DifferentialPrivacyInputs = Omit<MultiComparisonInputs, 'strata' | 'rowLevel' | 'outcomeLabels' | 'focusOutcome'> & {
+    epsilon: number;      // Privacy budget ε for the whole table
+    privacySeed?: number; // Seed for the noise; generated and recorded when omitted
+};
+
+// Uncertainty the privacy noise adds to one group's released rate
+export interface PrivateGroupRelease {
+    group: string;
+    rate: number;                  // Released % experienced
+    clamped: boolean;              // A noisy count fell below zero and was released as zero
+    samplingStandardError: number; // Binomial standard error of the released rate, in percentage points
+    noiseStandardError: number;    // Standard error added by the noise (delta method), in percentage points
+    ci: ConfidenceInterval | null; // Normal interval with both errors, in percent; null when the group has no released observations
+}
+
+// Uncertainty the privacy noise adds to the comparison of two groups' released rates
+export interface PrivatePairRelease {
+    group1: string;
+    group2: string;
+    riskDifference: number;                      // Released rate1 - rate2, in percentage points
+    samplingStandardError: number;               // Of the risk difference, in percentage points
+    noiseStandardError: number;                  // Added to the risk difference by the noise, in percentage points
+    riskDifferenceCI: ConfidenceInterval | null; // Normal interval with both errors
+    impactRatio: number;                         // Released rate1 / rate2
+    impactRatioCI: ConfidenceInterval | null;    // Log interval with both errors; null when either rate is 0
+    pValue: number;                              // Two-sided z-test of the risk difference with both errors; NaN when it cannot be formed
+    pValueCorrected: number;                     // Under the report's correction across the pairs
+    isSignificant: boolean;                      // Corrected p-value below alpha
+    reportSignificant: boolean;                  // The report's own test of the pair (noise ignored) is significant
+}
+
+// Record of a differentially private release, computed from the released counts only
+export interface DifferentialPrivacyResults {
+    epsilon: number;
+    seed: number;                   // Reproduces the noise; with the released counts it reveals the true ones, so keep it confidential
+    confidenceLevel: number;
+    noiseStandardDeviation: number; // Of the two-sided geometric noise added to each cell, in counts
+    noiseMargin: number;            // The noise of a cell is within ±noiseMargin at the report's confidence level
+    groups: PrivateGroupRelease[];
+    pairs: PrivatePairRelease[]; // One per pair of groups, in input order
+}
+
+// Counts of one stratum (e.g. a department or year) for a stratified analysis.
+// Holds the same groups, in the same order, as the top-level input.
+export interface StratumInput {
+    name: string;
+    groups: GroupInput[];
+}
+
+// A Chi-square test result used by the stratified analysis
+export interface ChiSquareTestResult {
+    statistic: number;
+    degreesOfFreedom: number;
+    pValue: number;
+}
+
+// Crude and stratum-adjusted comparison of a pair of groups
+export interface StratifiedPairResult {
+    group1: string;
+    group2: string;
+    crudeOddsRatio: EffectEstimate;          // Collapsed over strata, Woolf CI
+    mantelHaenszelOddsRatio: EffectEstimate; // Pooled over strata, Robins-Breslow-Greenland CI
+    mantelHaenszelTest: ChiSquareTestResult & {
+        pValueCorrected: number; // Adjusted over all pairs with the selected correction
+        isSignificant: boolean;
+    };
+    breslowDay: ChiSquareTestResult | null;  // Tarone-corrected homogeneity test; null with fewer than two informative strata
+    directionReversed: boolean;              // Crude and adjusted odds ratios on opposite sides of 1 (Simpson's paradox)
+}
+
+// Results of the analysis stratified by a third factor
+export interface StratifiedAnalysisResults {
+    strata: string[];
+    crude: ChiSquareTestResult;                       // Pearson test of the collapsed k×2 table
+    cochranMantelHaenszel: ChiSquareTestResult | null; // Generalized CMH test of association, df = k - 1
+    pairs: StratifiedPairResult[];
+}
+
+// One cell of the k×m outcome table
+export interface OutcomeCell {
+    observed: number;
+    expected: number;
+    rowPercent: number;                      // Share of the group with this outcome, in percent
+    pearsonResidual: number;                 // (O - E) / √E
+    adjustedResidual: number;                // Haberman adjusted standardized residual, approximately N(0, 1)
+    adjustedResidualPValue: number;          // Two-sided, uncorrected
+    adjustedResidualPValueCorrected: number; // Under the selected correction across all cells
+    adjustedResidualSignificant: boolean;
+}
+
+export interface OutcomeTableRow {
+    group: string;
+    rowTotal: number;
+    cells: OutcomeCell[]; // One per outcome level
+}
+
+// 2×m test of the outcome distributions of two groups
+export interface OutcomePairComparison {
+    group1: string;
+    group2: string;
+    chiSquare: ChiSquareTestResult;
+    pValueCorrected: number; // Adjusted over all pairs
+    isSignificant: boolean;
+}
+
+// k×2 test of one outcome level against all others
+export interface OutcomeLevelComparison {
+    outcome: string;
+    chiSquare: ChiSquareTestResult;
+    pValueCorrected: number; // Adjusted over all outcome levels
+    isSignificant: boolean;
+}
+
+// Results for the full k×m table of a multi-level outcome
+export interface OutcomeTableResults {
+    outcomeLabels: string[];
+    focusOutcome: string; // Level counted as "experienced" by the rest of the report
+    rows: OutcomeTableRow[];
+    columnTotals: number[];
+    grandTotal: number;
+    chiSquare: ChiSquareTestResult; // Pearson, df = (k - 1)(m - 1) over non-empty rows and columns
+    gTest: ChiSquareTestResult;     // Likelihood ratio
+    effectSize: OverallEffectSize | null;
+    pairwise: OutcomePairComparison[];
+    perOutcome: OutcomeLevelComparison[];
+}
+
+// Test actually applied to a given pair
+export type AppliedPairwiseTest = 'chiSquare' | 'fisherTwoSided' | 'fisherLess' | 'fisherGreater';
+
 // Input for the overall calculation
 export interface MultiComparisonInputs {
     alpha: number;
     groups: GroupInput[];
+    referenceGroups?: string[]; // Names of the baseline group(s) for focused comparisons
+    pairwiseMethod?: PairwiseTestMethod; // Defaults to 'chiSquare'
+    fisherAlternative?: FisherAlternative; // Only used when pairwiseMethod is 'fisher'; defaults to 'two-sided'
+    correction?: CorrectionMethod; // Defaults to 'bonferroni'
+    confidenceLevel?: number; // Confidence level for interval estimates, e.g. 0.95 (default)
+    rateCiMethod?: RateCiMethod; // Defaults to 'wilson'
+    haldaneCorrection?: boolean; // Add 0.5 to every cell of a 2x2 table with a zero cell for risk/odds ratios; defaults to false
+    adverseImpact?: AdverseImpactOptions; // Runs the adverse impact analysis when provided
+    exactOverallTest?: boolean; // Freeman-Halton exact test of the k×2 table; off by default (enumeration can be slow)
+    monteCarloReplicates?: number; // Permutation replicates for the Monte Carlo p-value; 0 disables it (default)
+    monteCarloSeed?: number; // Seed for the Monte Carlo simulation; generated and recorded when omitted
+    orderedCategories?: boolean; // Groups are ordinal (in input order); runs the Cochran-Armitage trend test. Defaults to false
+    differenceOfInterest?: number; // Smallest disparity worth detecting, in percentage points; defaults to 5
+    strata?: StratumInput[]; // Per-stratum counts; the top-level groups must equal their sums
+    // Labels of the outcome levels (m ≥ 2). When given, every group carries outcomeCounts and the k×m
+    // table is analysed; the binary sections compare focusOutcome (default: the first level) with the rest.
+    outcomeLabels?: string[];
+    focusOutcome?: string;
+    bayesian?: BayesianOptions; // Runs the Bayesian comparison when provided
+    rowLevel?: RowLevelInputs; // Row-level records; the group counts must equal their tallies
+    bootstrap?: BootstrapOptions; // Runs the bootstrap intervals when provided; nonparametric with rowLevel, parametric otherwise
+    equivalence?: EquivalenceOptions; // Runs the equivalence tests (TOST) when provided
+    utilization?: boolean; // Compares each group's share of outcomes with its benchmark; defaults to false
+    parityGap?: boolean; // Counts the outcomes needed to close each disparity; defaults to false
+    fragilityThreshold?: number; // Significant results with a fragility index below this are flagged; defaults to 5
+}
+
+// Counts of the same groups in one reporting period (e.g. a quarter)
+export interface PeriodInput {
+    name: string;
+    groups: GroupInput[];
+}
+
+// Input for a multi-period analysis; every other option applies to each period's report
+export type MultiPeriodInputs = Omit<MultiComparisonInputs, 'groups' | 'strata' | 'rowLevel' | 'outcomeLabels' | 'focusOutcome'> & {
+    periods: PeriodInput[]; // In chronological order
+};
+
+// Rate of one group in every period
+export interface GroupRateTrend {
+    group: string;
+    points: {
+        period: string;
+        total: number;
+        rate: number;                  // % experienced; NaN without observations
+        ci: ConfidenceInterval | null; // In percent
+    }[];
+}
+
+// Change in the disparity between a group and its comparator from one period to another
+export interface PeriodChangeComparison {
+    group: string;
+    comparator: string;
+    fromPeriod: string;
+    toPeriod: string;
+    rateRatioFrom: number; // group rate / comparator rate in fromPeriod
+    rateRatioTo: number;   // ... and in toPeriod
+    rateRatioChange: EffectEstimate;         // rateRatioTo / rateRatioFrom, log interval
+    differenceInDifferences: EffectEstimate; // Change in (group rate - comparator rate), percentage points, Wald interval
+    zStatistic: number;
+    pValue: number;
+    pValueCorrected: number; // Adjusted over all changes in the report
+    isSignificant: boolean;
+}
+
+export interface PeriodTrendResults {
+    periods: string[];
+    groups: GroupRateTrend[];
+    changes: PeriodChangeComparison[];
+}
+
+export interface MultiPeriodResults {
+    periods: { name: string; results: MultiComparisonResults }[];
+    trend: PeriodTrendResults | null; // Null when the periods cannot be compared
+    errors: string[]; // Errors about the periods themselves; each period's report has its own
 }
 
 // Structure for Contingency Table Summary data (Observed)
 export interface ContingencySummaryData extends GroupInput {
     rowTotal: number;
     percentExperienced: number;
+    percentExperiencedCI: ConfidenceInterval | null; // In percent; null when the group has no observations
     // Added Expected values
     expectedExperienced: number;
     expectedNotExperienced: number;
-    // Add contribution for overall Chi-square
-    chiSquareContribution: number | null;
+    // Contributions to the overall Pearson Chi-square, one per cell of the k×2 table
+    chiSquareContributionExperienced: number | null;
+    chiSquareContributionNotExperienced: number | null;
+    chiSquareContribution: number | null; // Row sum of both cell contributions
+    // Residuals of the Experienced cell
+    pearsonResidual: number | null;   // (O - E) / √E
+    adjustedResidual: number | null;  // Haberman adjusted standardized residual, approximately N(0, 1)
+    adjustedResidualPValue: number | null;          // Two-sided, uncorrected
+    adjustedResidualPValueCorrected: number | null; // Under the selected correction across the groups
+    adjustedResidualSignificant: boolean;           // Corrected p-value below alpha
+    // Residuals of the Did Not Experience cell. Its Pearson residual has its own scale (√E differs);
+    // its adjusted residual mirrors the Experienced one in a k×2 table, so both share one correction family
+    pearsonResidualNotExperienced: number | null;
+    adjustedResidualNotExperienced: number | null;
+    adjustedResidualNotExperiencedPValue: number | null;
+    adjustedResidualNotExperiencedPValueCorrected: number | null;
+    adjustedResidualNotExperiencedSignificant: boolean;
 }
 
 
@@ -34,6 +615,8 @@ export interface OverallTestStats {
     limitAlpha: number;
     degreesOfFreedom: number;
     numComparisons: number; // Number of pairwise comparisons
+    correction: CorrectionMethod; // Applied to the pairwise and reference comparison families
+    perComparisonAlpha: number | null; // Single-step methods only (none, Bonferroni, Šidák); null for stepwise methods
     chiSquare: {
         statistic: number;
         pValue: number;
@@ -49,22 +632,108 @@ export interface OverallTestStats {
         pValue: number;
         // Interpretation removed
     };
+    // Freeman-Halton exact test; null when disabled or the table is too large to enumerate
+    exactTest: {
+        pValue: number;
+        tablesEnumerated: number;
+    } | null;
+    // Monte Carlo permutation test on the Pearson statistic; null when disabled
+    monteCarlo: {
+        statistic: number; // Observed Pearson Chi-square
+        pValue: number;
+        standardError: number; // Simulation standard error of the p-value
+        replicates: number;
+        seed: number; // Recorded so the report can be reproduced exactly
+    } | null;
+    // Cramér's V for the whole table; null when the Pearson statistic is not finite
+    effectSize: OverallEffectSize | null;
+    // Only run for ordered categories; null otherwise or when every score is the same
+    trendTest: TrendTestResult | null;
+    // Sensitivity of the Pearson test; null when the Pearson statistic is not finite
+    power: {
+        minimumDetectableDifference: number; // Spread between the highest and lowest rates (pp) detectable with 80% power at alpha
+        underpowered: boolean; // Not significant, and the minimum detectable difference exceeds the difference of interest
+    } | null;
+    // Outcome flips, chosen greedily across groups, that make the Pearson test non-significant; null unless it is significant
+    fragilityIndex: number | null;
+    fragilityThreshold: number; // Fragility indices below this are flagged, for this test and the pairwise comparisons
 }
 
 // Structure for pairwise results (matrix) - Storing corrected p-values
 // The keys of the outer object are the row category names.
 // The keys of the inner object are the column category names.
-// The value is the Bonferroni-corrected p-value.
+// The value is the adjusted p-value under the selected correction. For one-sided Fisher tests
+// the cell tests the row category against the column category, so the matrix is not symmetric.
 export type PairwiseResultsMatrix = Record<string, Record<string, number | null>>; // Use null for diagonal or invalid pairs
 
+// Significance decisions matching PairwiseResultsMatrix (adjusted p-value < alpha)
+export type PairwiseSignificanceMatrix = Record<string, Record<string, boolean | null>>; // Null for diagonal or invalid pairs
+
+// Equivalence verdicts laid out like PairwiseResultsMatrix; always symmetric
+export type EquivalenceMatrix = Record<string, Record<string, EquivalenceVerdict | null>>; // Null for diagonal or invalid pairs
+
+// Structure for a single pairwise comparison (one entry per unordered pair, in input order)
+export interface PairwiseComparison {
+    group1: string;
+    group2: string;
+    testUsed: AppliedPairwiseTest;
+    minExpected: number; // Smallest expected cell count of the pair's 2x2 table
+    pValueRaw: number;
+    pValueCorrected: number; // Adjusted over all pairwise comparisons with the selected correction
+    isSignificant: boolean; // pValueCorrected < alpha
+    effectSizes: PairwiseEffectSizes; // group1 relative to group2
+    power: ComparisonPower;
+    fragilityIndex: number | null; // Fewest outcome flips in the smaller group that bring pValueCorrected back to alpha; null unless significant
+    // One-sided tests: the same for the group2-vs-group1 test, against the reverse family; equals fragilityIndex otherwise
+    fragilityIndexReverse: number | null;
+}
+
+// Sensitivity of a 2x2 comparison given its actual counts and corrected alpha
+export interface ComparisonPower {
+    minimumDetectableDifference: number; // Percentage points detectable with 80% power; NaN when the pooled rate is 0% or 100%
+    powerAtDifferenceOfInterest: number; // Power to detect the smallest difference of interest
+    underpowered: boolean; // Not significant, and the minimum detectable difference exceeds the difference of interest
+}
+
+// Structure for a single comparison of a non-reference group against a reference group.
+// P-values are adjusted only within the family of reference comparisons,
+// independently of the full pairwise matrix.
+export interface ReferenceComparison {
+    referenceGroup: string;
+    comparisonGroup: string;
+    referenceRate: number;  // % experienced in the reference group
+    comparisonRate: number; // % experienced in the comparison group
+    rateDifference: number; // comparisonRate - referenceRate, in percentage points
+    testUsed: AppliedPairwiseTest; // One-sided Fisher tests state the comparison group against the reference
+    pValueRaw: number;
+    pValueCorrected: number; // Adjusted within the reference family with the selected correction
+    isSignificant: boolean; // pValueCorrected < alpha
+    effectSizes: PairwiseEffectSizes; // Comparison group relative to the reference
+    power: ComparisonPower;
+}
+
 // Structure for individual contributions (for display and verification)
+// Each category contributes one cell per outcome column of the k×2 table;
+// the un-suffixed fields hold the row sum of both cells.
 export interface ContributionDetail {
     category: string;
-    observedExperienced: number; // O_i
-    expectedExperienced: number; // E_i
-    chiSquareContrib: number; // (O_i - E_i)^2 / E_i
-    yatesContrib: number;     // (|O_i - E_i| - 0.5)^2 / E_i
-    gTestContrib: number;     // 2 * O_i * ln(O_i / E_i)
+    observedExperienced: number;    // O_i1
+    expectedExperienced: number;    // E_i1
+    observedNotExperienced: number; // O_i2
+    expectedNotExperienced: number; // E_i2
+    chiSquareContribExperienced: number;    // (O_i1 - E_i1)^2 / E_i1
+    chiSquareContribNotExperienced: number; // (O_i2 - E_i2)^2 / E_i2
+    chiSquareContrib: number;
+    yatesContribExperienced: number;        // (|O_i1 - E_i1| - 0.5)^2 / E_i1
+    yatesContribNotExperienced: number;     // (|O_i2 - E_i2| - 0.5)^2 / E_i2
+    yatesContrib: number;
+    gTestContribExperienced: number;        // 2 * O_i1 * ln(O_i1 / E_i1)
+    gTestContribNotExperienced: number;     // 2 * O_i2 * ln(O_i2 / E_i2)
+    gTestContrib: number;
+    pearsonResidualExperienced: number;     // (O_i1 - E_i1) / √E_i1
+    pearsonResidualNotExperienced: number;  // (O_i2 - E_i2) / √E_i2
+    adjustedResidualExperienced: number;    // (O_i1 - E_i1) / √(E_i1 (1 - n_i/N)(1 - c_1/N))
+    adjustedResidualNotExperienced: number; // (O_i2 - E_i2) / √(E_i2 (1 - n_i/N)(1 - c_2/N))
 }
 
 
@@ -73,7 +742,26 @@ export interface MultiComparisonResults {
     contingencySummary: ContingencySummaryData[];
     overallStats: OverallTestStats | null; // Can be null if calculation fails early
     pairwiseResultsMatrix: PairwiseResultsMatrix | null; // Matrix of corrected p-values
+    pairwiseSignificanceMatrix: PairwiseSignificanceMatrix | null; // Matrix of significance decisions
+    pairwiseComparisons: PairwiseComparison[] | null; // Per-pair details, including the test used
+    referenceComparisons: ReferenceComparison[] | null; // Null when no reference group was selected
+    adverseImpact: AdverseImpactResults | null; // Null unless the adverse impact analysis was requested
+    stratifiedAnalysis: StratifiedAnalysisResults | null; // Null unless strata were provided
+    outcomeTable: OutcomeTableResults | null; // Null unless outcome levels were provided
+    bayesian: BayesianResults | null; // Null unless the Bayesian comparison was requested
+    adjustedDisparity: AdjustedDisparityResults | null; // Null unless row-level data was provided
+    bootstrap: BootstrapResults | null; // Null unless the bootstrap was requested
+    equivalence: EquivalenceResults | null; // Null unless the equivalence tests were requested
+    utilization: UtilizationResults | null; // Null unless the utilization analysis was requested
+    parityGap: ParityGapResults | null; // Null unless the parity gap analysis was requested
+    suppression: SuppressionResults | null; // Set only on copies made for publication by applySmallCellSuppression
+    privacy: DifferentialPrivacyResults | null; // Set only on reports released by performDifferentiallyPrivateReport
     errors: string[]; // General calculation errors
+    // Settings used for the per-group rate confidence intervals
+    rateCI: {
+        method: RateCiMethod;
+        confidenceLevel: number;
+    };
     // Add overall totals for rendering
     totals: {
       grandTotal: number;
@@ -81,11 +769,56 @@ export interface MultiComparisonResults {
       totalNotExperienced: number;
       totalExpectedExperienced: number;
       totalExpectedNotExperienced: number;
-      totalChiSquareContributions: number; // Sum of contributions for verification
+      totalChiSquareContributionsExperienced: number;
+      totalChiSquareContributionsNotExperienced: number;
+      totalChiSquareContributions: number; // Sum over all cells, equals the overall Pearson statistic
+      percentExperiencedCI: ConfidenceInterval | null; // CI of the pooled rate, in percent
     } | null;
     contributions: ContributionDetail[] | null; // Detailed contributions per category
 }
 
+// Disparity the study should be able to detect, applied to a group's baseline rate
+export interface TargetEffect {
+    type: 'difference' | 'ratio'; // Difference in percentage points, or ratio of rates
+    value: number;
+}
+
+// Input for power and sample size planning
+export interface PowerPlanInputs {
+    alpha: number;
+    correction?: CorrectionMethod; // Defaults to 'bonferroni'
+    targetPower?: number; // Defaults to 0.8
+    groups: { name: string; baselineRate: number }[]; // Anticipated outcome rate of each group, on the 0-1 scale
+    targetEffect: TargetEffect;
+    sampleSizePerGroup?: number; // Sample per group for which the achieved power is reported
+}
+
+// Planning results for one group shifted by the target effect
+export interface PowerPlanGroupResult {
+    group: string;
+    baselineRate: number;
+    shiftedRate: number;      // Baseline rate with the target effect applied
+    pairwiseRequiredPerGroup: number; // To detect baseline vs shifted rate at the planning alpha
+    pairwisePower: number | null;     // At sampleSizePerGroup; null when no sample size was given
+    overallRequiredPerGroup: number;  // k×2 test with this group shifted and the others at baseline
+    overallPower: number | null;
+}
+
+// Overall results of the power and sample size planner
+export interface PowerPlanResults {
+    numComparisons: number;
+    planningAlpha: number; // Per-comparison alpha used for the pairwise tests
+    targetPower: number;
+    groups: PowerPlanGroupResult[];
+    pairwiseRequiredPerGroup: number; // Largest requirement over the groups
+    overallRequiredPerGroup: number;
+    pairwisePower: number | null;     // Smallest power over the groups
+    overallPower: number | null;
+    // Least favourable power of each test against the sample per group, for charting
+    powerCurve: { sampleSizePerGroup: number; pairwisePower: number; overallPower: number }[];
+    errors: string[];
+}
+
 
 // --- Helper Functions ---
 
@@ -120,9 +853,8 @@ function chiSquarePValue(statistic: number, df: number): number {
 }
 
 /**
- * Calculates the contribution of a single category to the overall Chi-square statistic.
- * Uses only the 'experienced' counts.
- * contrib_i = (O_i - E_i)^2 / E_i
+ * Calculates the contribution of a single cell to the overall Chi-square statistic.
+ * contrib_ij = (O_ij - E_ij)^2 / E_ij
  * Handles E_i = 0 case.
  */
 function calculateChiSquareContribution(observed: number, expected: number, useYates: boolean = false): number {
@@ -138,10 +870,10 @@ function calculateChiSquareContribution(observed: number, expected: number, useY
 }
 
 /**
- * Calculates the contribution of a single category to the overall G-Test statistic.
- * Uses only the 'experienced' counts.
- * G_contrib_i = 2 * O_i * ln(O_i / E_i)
- * Handles O_i = 0 or E_i = 0 cases.
+ * Calculates the contribution of a single cell to the overall G-Test statistic.
+ * G_contrib_ij = 2 * O_ij * ln(O_ij / E_ij)
+ * Handles O_ij = 0 or E_ij = 0 cases. Individual cell terms can be negative;
+ * only their sum over the whole table is guaranteed to be non-negative.
  */
 function calculateGTestContribution(observed: number, expected: number): number {
     if (observed === 0) {
@@ -153,6 +885,23 @@ function calculateGTestContribution(observed: number, expected: number): number
     return 2 * observed * Math.log(observed / expected);
 }
 
+/**
+ * Pearson residual of a single cell: (O_ij - E_ij) / √E_ij. NaN when E_ij is zero.
+ */
+function calculatePearsonResidual(observed: number, expected: number): number {
+    return expected > 0 ? (observed - expected) / Math.sqrt(expected) : NaN;
+}
+
+/**
+ * Haberman adjusted standardized residual of a single cell:
+ * (O_ij - E_ij) / √(E_ij (1 - rowTotal/N)(1 - colTotal/N)).
+ * NaN when the variance is zero (an empty row or column, or a single row or column).
+ */
+function calculateAdjustedResidual(observed: number, expected: number, rowTotal: number, colTotal: number, grandTotal: number): number {
+    const variance = expected * (1 - rowTotal / grandTotal) * (1 - colTotal / grandTotal);
+    return variance > 0 ? (observed - expected) / Math.sqrt(variance) : NaN;
+}
+
 
 /**
  * Calculates Chi-square statistic for a 2x2 contingency table.
@@ -215,40 +964,2289 @@ function calculate2x2ChiSquarePairwise(table: number[][]): number {
     return numerator / denominator;
 }
 
-// --- Main Calculation Function ---
+/**
+ * Two-sided standard normal critical value for a confidence level, e.g. 1.96 for 0.95.
+ */
+function normalCriticalValue(confidenceLevel: number): number {
+    return jStat.normal.inv(1 - (1 - confidenceLevel) / 2, 0, 1);
+}
 
-export function performMultiComparisonReport(inputs: MultiComparisonInputs): MultiComparisonResults {
-    const {
-        alpha,
-        groups
-    } = inputs;
-    const errors: string[] = [];
-    const numGroups = groups.length;
+/**
+ * Confidence interval for a binomial proportion x / n, on the 0-1 scale.
+ * - wald: p ± z·sqrt(p(1-p)/n), truncated to [0, 1]
+ * - wilson: score interval (inverts the score test)
+ * - agrestiCoull: Wald interval around (x + z²/2) / (n + z²)
+ * - clopperPearson: exact interval from Beta quantiles
+ * - jeffreys: equal-tailed Beta(x + 0.5, n - x + 0.5) posterior interval
+ * Returns null when n is zero.
+ */
+export function proportionConfidenceInterval(
+    x: number,
+    n: number,
+    confidenceLevel: number = 0.95,
+    method: RateCiMethod = 'wilson'
+): ConfidenceInterval | null {
+    if (n <= 0 || x < 0 || x > n) return null;
+    const tail = (1 - confidenceLevel) / 2;
+    const z = normalCriticalValue(confidenceLevel);
+    const p = x / n;
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
 
-    // --- Basic Input Validations ---
-    if (numGroups < 2) {
-        errors.push("At least two groups are required for comparison.");
+    switch (method) {
+        case 'wald': {
+            const halfWidth = z * Math.sqrt((p * (1 - p)) / n);
+            return { lower: clamp(p - halfWidth), upper: clamp(p + halfWidth) };
+        }
+        case 'agrestiCoull': {
+            const nTilde = n + z * z;
+            const pTilde = (x + (z * z) / 2) / nTilde;
+            const halfWidth = z * Math.sqrt((pTilde * (1 - pTilde)) / nTilde);
+            return { lower: clamp(pTilde - halfWidth), upper: clamp(pTilde + halfWidth) };
+        }
+        case 'clopperPearson':
+            return {
+                lower: x === 0 ? 0 : jStat.beta.inv(tail, x, n - x + 1),
+                upper: x === n ? 1 : jStat.beta.inv(1 - tail, x + 1, n - x),
+            };
+        case 'jeffreys':
+            return {
+                lower: x === 0 ? 0 : jStat.beta.inv(tail, x + 0.5, n - x + 0.5),
+                upper: x === n ? 1 : jStat.beta.inv(1 - tail, x + 0.5, n - x + 0.5),
+            };
+        case 'wilson':
+        default: {
+            const z2 = z * z;
+            const denominator = 1 + z2 / n;
+            const center = (p + z2 / (2 * n)) / denominator;
+            const halfWidth = (z / denominator) * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n));
+            return { lower: clamp(center - halfWidth), upper: clamp(center + halfWidth) };
+        }
+    }
+}
+
+/**
+ * Human-readable label for a rate confidence interval method.
+ */
+export function rateCiMethodLabel(method: RateCiMethod): string {
+    switch (method) {
+        case 'wilson': return "Wilson";
+        case 'clopperPearson': return "Clopper–Pearson (exact)";
+        case 'agrestiCoull': return "Agresti–Coull";
+        case 'jeffreys': return "Jeffreys";
+        case 'wald': return "Wald";
+    }
+}
+
+/**
+ * Converts a 0-1 scale confidence interval to percent.
+ */
+function toPercentCI(ci: ConfidenceInterval | null): ConfidenceInterval | null {
+    return ci ? { lower: ci.lower * 100, upper: ci.upper * 100 } : null;
+}
+
+/**
+ * Natural log of the binomial coefficient C(n, k).
+ */
+function logChoose(n: number, k: number): number {
+    if (k < 0 || k > n) return -Infinity;
+    return jStat.gammaln(n + 1) - jStat.gammaln(k + 1) - jStat.gammaln(n - k + 1);
+}
+
+/**
+ * Calculates the p-value of Fisher's exact test for a 2x2 contingency table.
+ * table = [[a, b], [c, d]], conditioning on all margins (hypergeometric distribution of a).
+ * 'less' tests whether the first row's rate (a / (a + b)) is lower than the second row's,
+ * 'greater' whether it is higher. The two-sided p-value sums the probabilities of all
+ * tables no more likely than the observed one (same convention as R's fisher.test).
+ */
+export function fisherExactTest(table: number[][], alternative: FisherAlternative = 'two-sided'): number {
+    const [
+        [a, b],
+        [c, d]
+    ] = table;
+    const row1Sum = a + b;
+    const row2Sum = c + d;
+    const col1Sum = a + c;
+    const n = row1Sum + row2Sum;
+    if (n === 0 || row1Sum === 0 || row2Sum === 0 || col1Sum === 0 || col1Sum === n) {
+        return 1.0; // Degenerate margins: only one table is possible
+    }
+
+    const minA = Math.max(0, col1Sum - row2Sum);
+    const maxA = Math.min(row1Sum, col1Sum);
+    // Probabilities relative to the mode by the ratio of successive terms, without a log-gamma
+    // evaluation per table; the fragility and parity gap searches run this test many times
+    const mode = Math.min(maxA, Math.max(minA, Math.floor(((row1Sum + 1) * (col1Sum + 1)) / (n + 2))));
+    const weights = new Float64Array(maxA - minA + 1);
+    weights[mode - minA] = 1;
+    for (let x = mode; x < maxA; x++) {
+        weights[x + 1 - minA] = weights[x - minA] * ((row1Sum - x) * (col1Sum - x)) / ((x + 1) * (row2Sum - col1Sum + x + 1));
+    }
+    for (let x = mode; x > minA; x--) {
+        weights[x - 1 - minA] = weights[x - minA] * (x * (row2Sum - col1Sum + x)) / ((row1Sum - x + 1) * (col1Sum - x + 1));
+    }
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const probability = (x: number) => weights[x - minA] / totalWeight;
+
+    let pValue = 0;
+    if (alternative === 'less') {
+        for (let x = minA; x <= a; x++) pValue += probability(x);
+    } else if (alternative === 'greater') {
+        for (let x = a; x <= maxA; x++) pValue += probability(x);
+    } else {
+        // Relative tolerance guards against floating point ties with the observed table
+        const observedProbability = probability(a) * (1 + 1e-7);
+        for (let x = minA; x <= maxA; x++) {
+            const px = probability(x);
+            if (px <= observedProbability) pValue += px;
+        }
+    }
+    return Math.min(1.0, Math.max(0, pValue));
+}
+
+/**
+ * Log densities (unnormalised) of the noncentral hypergeometric distribution of the
+ * top-left cell of a 2x2 table with fixed margins, at odds ratio 1, over its support.
+ */
+function hypergeometricSupport(a: number, b: number, c: number, d: number): { lo: number; logDensity: number[] } {
+    const row1Sum = a + b;
+    const row2Sum = c + d;
+    const col1Sum = a + c;
+    const lo = Math.max(0, col1Sum - row2Sum);
+    const hi = Math.min(row1Sum, col1Sum);
+    const logDensity: number[] = [];
+    for (let x = lo; x <= hi; x++) {
+        logDensity.push(logChoose(row1Sum, x) + logChoose(row2Sum, col1Sum - x));
+    }
+    return { lo, logDensity };
+}
+
+/**
+ * Expectation of weight(x) under the noncentral hypergeometric distribution for a given log odds
+ * ratio. Runs in two passes without allocating, since the interval search calls it many times.
+ */
+function noncentralHypergeometricExpectation(
+    logDensity: number[],
+    lo: number,
+    logOddsRatio: number,
+    weight: (x: number) => number
+): number {
+    let maxLog = -Infinity;
+    for (let i = 0; i < logDensity.length; i++) maxLog = Math.max(maxLog, logDensity[i] + logOddsRatio * (lo + i));
+    let total = 0, weighted = 0;
+    for (let i = 0; i < logDensity.length; i++) {
+        const term = Math.exp(logDensity[i] + logOddsRatio * (lo + i) - maxLog);
+        total += term;
+        weighted += term * weight(lo + i);
+    }
+    return weighted / total;
+}
+
+/**
+ * Solves f(logOddsRatio) = target by bisection, for f increasing in the log odds ratio.
+ * Stops once the bracket is narrower than 1e-9 on the log scale (about 37 steps).
+ */
+function solveLogOddsRatio(f: (logOddsRatio: number) => number, target: number): number {
+    let low = -50, high = 50;
+    while (high - low > 1e-9) {
+        const mid = (low + high) / 2;
+        if (f(mid) < target) low = mid; else high = mid;
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Conditional maximum likelihood estimate of the odds ratio with the exact confidence interval
+ * obtained by inverting the two one-sided noncentral hypergeometric tests (as in R's fisher.test).
+ */
+function exactOddsRatio(a: number, b: number, c: number, d: number, confidenceLevel: number): EffectEstimate {
+    const { lo, logDensity } = hypergeometricSupport(a, b, c, d);
+    const hi = lo + logDensity.length - 1;
+    if (lo === hi) return { estimate: NaN, ci: null }; // Degenerate margins
+
+    const tail = (1 - confidenceLevel) / 2;
+    const mean = (logOddsRatio: number) =>
+        noncentralHypergeometricExpectation(logDensity, lo, logOddsRatio, x => x);
+    const upperTail = (logOddsRatio: number) =>
+        noncentralHypergeometricExpectation(logDensity, lo, logOddsRatio, x => (x >= a ? 1 : 0));
+    const lowerTail = (logOddsRatio: number) =>
+        noncentralHypergeometricExpectation(logDensity, lo, logOddsRatio, x => (x <= a ? 1 : 0));
+
+    const estimate = a === lo ? 0 : a === hi ? Infinity : Math.exp(solveLogOddsRatio(mean, a));
+    // P(X >= a) increases with the odds ratio; P(X <= a) decreases, so its negation increases
+    const lower = a === lo ? 0 : Math.exp(solveLogOddsRatio(upperTail, tail));
+    const upper = a === hi ? Infinity : Math.exp(solveLogOddsRatio(psi => -lowerTail(psi), -tail));
+    return { estimate, ci: { lower, upper } };
+}
+
+/**
+ * Effect sizes of group1 relative to group2: risk difference with the Newcombe hybrid score
+ * interval, risk ratio with the log (Katz) interval, and the odds ratio with both the Woolf
+ * (logit) and exact conditional intervals. With haldaneCorrection, 0.5 is added to every cell
+ * of a table containing a zero before computing the risk and odds ratios (Woolf and log CIs).
+ */
+export function calculatePairwiseEffectSizes(
+    group1: GroupInput,
+    group2: GroupInput,
+    confidenceLevel: number = 0.95,
+    haldaneCorrection: boolean = false
+): PairwiseEffectSizes {
+    const a = group1.experienced, b = group1.notExperienced;
+    const c = group2.experienced, d = group2.notExperienced;
+    const n1 = a + b, n2 = c + d;
+    const z = normalCriticalValue(confidenceLevel);
+
+    // Risk difference (percentage points) with the Newcombe hybrid score interval
+    let riskDifference: EffectEstimate = { estimate: NaN, ci: null };
+    if (n1 > 0 && n2 > 0) {
+        const p1 = a / n1, p2 = c / n2;
+        const ci1 = proportionConfidenceInterval(a, n1, confidenceLevel, 'wilson')!;
+        const ci2 = proportionConfidenceInterval(c, n2, confidenceLevel, 'wilson')!;
+        const diff = p1 - p2;
+        riskDifference = {
+            estimate: diff * 100,
+            ci: {
+                lower: (diff - Math.sqrt((p1 - ci1.lower) ** 2 + (ci2.upper - p2) ** 2)) * 100,
+                upper: (diff + Math.sqrt((ci1.upper - p1) ** 2 + (p2 - ci2.lower) ** 2)) * 100,
+            },
+        };
+    }
+
+    const hasZeroCell = a === 0 || b === 0 || c === 0 || d === 0;
+    const haldaneApplied = haldaneCorrection && hasZeroCell && n1 > 0 && n2 > 0;
+    const [ha, hb, hc, hd] = haldaneApplied ? [a + 0.5, b + 0.5, c + 0.5, d + 0.5] : [a, b, c, d];
+
+    // Risk ratio with the log interval
+    let riskRatio: EffectEstimate = { estimate: NaN, ci: null };
+    if (n1 > 0 && n2 > 0) {
+        const hn1 = ha + hb, hn2 = hc + hd;
+        const estimate = (ha / hn1) / (hc / hn2);
+        const ci = ha > 0 && hc > 0
+            ? (() => {
+                const se = Math.sqrt(1 / ha - 1 / hn1 + 1 / hc - 1 / hn2);
+                return { lower: Math.exp(Math.log(estimate) - z * se), upper: Math.exp(Math.log(estimate) + z * se) };
+            })()
+            : null;
+        riskRatio = { estimate, ci };
+    }
+
+    // Odds ratio with the Woolf interval
+    let oddsRatio: EffectEstimate = { estimate: NaN, ci: null };
+    if (n1 > 0 && n2 > 0) {
+        const estimate = (ha * hd) / (hb * hc);
+        const ci = ha > 0 && hb > 0 && hc > 0 && hd > 0
+            ? (() => {
+                const se = Math.sqrt(1 / ha + 1 / hb + 1 / hc + 1 / hd);
+                return { lower: Math.exp(Math.log(estimate) - z * se), upper: Math.exp(Math.log(estimate) + z * se) };
+            })()
+            : null;
+        oddsRatio = { estimate, ci };
+    }
+
+    const oddsRatioExact = n1 > 0 && n2 > 0 ? exactOddsRatio(a, b, c, d, confidenceLevel) : { estimate: NaN, ci: null };
+
+    // Phi coefficient and Cohen's h on the unadjusted counts
+    const phiDenominator = Math.sqrt(n1 * n2 * (a + c) * (b + d));
+    const phi = phiDenominator > 0 ? (a * d - b * c) / phiDenominator : NaN;
+    const cohensH = n1 > 0 && n2 > 0
+        ? 2 * Math.asin(Math.sqrt(a / n1)) - 2 * Math.asin(Math.sqrt(c / n2))
+        : NaN;
+
+    return {
+        riskDifference, riskRatio, oddsRatio, oddsRatioExact,
+        phi, cohensH, cohensHMagnitude: effectMagnitude(cohensH, 'cohensH'),
+        haldaneApplied,
+    };
+}
+
+/**
+ * Classifies an effect size using Cohen's conventional cut-offs: 0.2 / 0.5 / 0.8 for Cohen's h
+ * and 0.1 / 0.3 / 0.5 for Cramér's V (and phi) on a table with min(rows, columns) = 2.
+ */
+export function effectMagnitude(value: number, measure: 'cohensH' | 'cramersV'): EffectMagnitude {
+    const [small, medium, large] = measure === 'cohensH' ? [0.2, 0.5, 0.8] : [0.1, 0.3, 0.5];
+    const size = Math.abs(value);
+    if (!isFinite(size) || size < small) return 'negligible';
+    if (size < medium) return 'small';
+    if (size < large) return 'medium';
+    return 'large';
+}
+
+/**
+ * Human-readable label for an effect size magnitude.
+ */
+export function effectMagnitudeLabel(magnitude: EffectMagnitude): string {
+    switch (magnitude) {
+        case 'negligible': return 'Negligible';
+        case 'small': return 'Small';
+        case 'medium': return 'Medium';
+        case 'large': return 'Large';
+    }
+}
+
+/**
+ * Cumulative distribution function of the noncentral Chi-square distribution, evaluated as a
+ * Poisson(ncp / 2) mixture of central Chi-square distributions, summed outwards from the
+ * mixture's mode until the remaining terms are negligible.
+ */
+function noncentralChiSquareCdf(x: number, df: number, ncp: number): number {
+    if (ncp <= 0) return jStat.chisquare.cdf(x, df);
+    const mean = ncp / 2;
+    const mode = Math.floor(mean);
+    const modeWeight = Math.exp(-mean + mode * Math.log(mean) - jStat.gammaln(mode + 1));
+    let cdf = modeWeight * jStat.chisquare.cdf(x, df + 2 * mode);
+
+    // Terms above the mode: both the Poisson weight and the central CDF decrease
+    let weight = modeWeight;
+    for (let j = mode + 1; ; j++) {
+        weight *= mean / j;
+        const term = weight * jStat.chisquare.cdf(x, df + 2 * j);
+        cdf += term;
+        if (term < 1e-15 * cdf || weight < 1e-300) break;
+    }
+    // Terms below the mode: the central CDF is at most 1, so the weight bounds each term
+    weight = modeWeight;
+    for (let j = mode; j > 0 && weight > 1e-15 * cdf; j--) {
+        weight *= j / mean;
+        cdf += weight * jStat.chisquare.cdf(x, df + 2 * (j - 1));
+    }
+    return Math.min(1, Math.max(0, cdf));
+}
+
+/**
+ * Finds the noncentrality parameter at which the noncentral Chi-square CDF of the observed
+ * statistic equals target. The CDF decreases in the noncentrality, so the root is bracketed
+ * by doubling and refined by bisection; returns 0 when even ncp = 0 lies below the target.
+ */
+function solveNoncentrality(statistic: number, df: number, target: number): number {
+    if (noncentralChiSquareCdf(statistic, df, 0) <= target) return 0;
+    let low = 0, high = Math.max(10, 2 * statistic);
+    while (noncentralChiSquareCdf(statistic, df, high) > target) {
+        low = high;
+        high *= 2;
+    }
+    for (let iteration = 0; iteration < 60 && high - low > 1e-8 * Math.max(1, high); iteration++) {
+        const mid = (low + high) / 2;
+        if (noncentralChiSquareCdf(statistic, df, mid) > target) low = mid; else high = mid;
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Cramér's V for a k×m table (k×2 by default) from its Pearson statistic, with the Bergsma (2013) bias-corrected
+ * variant and a confidence interval obtained by inverting the noncentral Chi-square distribution
+ * (the noncentrality bounds are converted to V the same way as the statistic).
+ */
+function calculateCramersV(
+    chiSquareStatistic: number,
+    grandTotal: number,
+    numRows: number,
+    confidenceLevel: number,
+    numCols: number = 2
+): OverallEffectSize | null {
+    if (!isFinite(chiSquareStatistic) || grandTotal <= 1 || numRows < 2 || numCols < 2) return null;
+    const df = (numRows - 1) * (numCols - 1);
+    const scale = grandTotal * (Math.min(numRows, numCols) - 1);
+    const toV = (value: number) => Math.min(1, Math.sqrt(Math.max(0, value) / scale));
+
+    const estimate = toV(chiSquareStatistic);
+    const tail = (1 - confidenceLevel) / 2;
+    const ci = {
+        lower: toV(solveNoncentrality(chiSquareStatistic, df, 1 - tail)),
+        upper: toV(solveNoncentrality(chiSquareStatistic, df, tail)),
+    };
+
+    const phiSquaredCorrected = Math.max(0, chiSquareStatistic / grandTotal - df / (grandTotal - 1));
+    const rowsCorrected = numRows - (numRows - 1) ** 2 / (grandTotal - 1);
+    const colsCorrected = numCols - (numCols - 1) ** 2 / (grandTotal - 1);
+    const correctedDenominator = Math.min(rowsCorrected - 1, colsCorrected - 1);
+    const cramersVCorrected = correctedDenominator > 0 ? Math.sqrt(phiSquaredCorrected / correctedDenominator) : NaN;
+
+    return {
+        cramersV: { estimate, ci },
+        cramersVCorrected,
+        magnitude: effectMagnitude(estimate, 'cramersV'),
+    };
+}
+
+/**
+ * Returns the smallest expected cell count of the 2x2 table formed by two groups.
+ */
+function minExpectedCount2x2(group1: GroupInput, group2: GroupInput): number {
+    const row1Sum = group1.experienced + group1.notExperienced;
+    const row2Sum = group2.experienced + group2.notExperienced;
+    const col1Sum = group1.experienced + group2.experienced;
+    const n = row1Sum + row2Sum;
+    if (n === 0) return 0;
+    const col2Sum = n - col1Sum;
+    return Math.min(row1Sum, row2Sum) * Math.min(col1Sum, col2Sum) / n;
+}
+
+/**
+ * Runs the selected pairwise test between two groups and returns the raw (uncorrected)
+ * p-value together with the test that was actually applied.
+ */
+function runPairwiseTest(
+    group1: GroupInput,
+    group2: GroupInput,
+    method: PairwiseTestMethod,
+    alternative: FisherAlternative
+): { pValue: number; testUsed: AppliedPairwiseTest; minExpected: number } {
+    const table: number[][] = [
+        [group1.experienced, group1.notExperienced],
+        [group2.experienced, group2.notExperienced],
+    ];
+    const minExpected = minExpectedCount2x2(group1, group2);
+    const useFisher = method === 'fisher' || (method === 'auto' && minExpected < 5);
+
+    if (useFisher) {
+        const fisherAlternative = method === 'fisher' ? alternative : 'two-sided';
+        const testUsed: AppliedPairwiseTest = fisherAlternative === 'less'
+            ? 'fisherLess'
+            : fisherAlternative === 'greater' ? 'fisherGreater' : 'fisherTwoSided';
+        return { pValue: fisherExactTest(table, fisherAlternative), testUsed, minExpected };
+    }
+
+    // Calculate pairwise Chi-square (NO Yates' here)
+    const chiSqStatPair = calculate2x2ChiSquarePairwise(table);
+    return { pValue: chiSquarePValue(chiSqStatPair, 1), testUsed: 'chiSquare', minExpected }; // df=1 for 2x2
+}
+
+/**
+ * Human-readable label for the test applied to a pair.
+ */
+export function pairwiseTestLabel(test: AppliedPairwiseTest): string {
+    switch (test) {
+        case 'fisherTwoSided': return "Fisher's exact (two-sided)";
+        case 'fisherLess': return "Fisher's exact (one-sided, less)";
+        case 'fisherGreater': return "Fisher's exact (one-sided, greater)";
+        default: return "Chi-square";
+    }
+}
+
+/**
+ * Adjusts a family of p-values for multiple comparisons, following the definitions of
+ * R's p.adjust (plus Šidák). NaN entries are left as NaN and excluded from the family size.
+ */
+export function adjustPValues(pValues: number[], method: CorrectionMethod): number[] {
+    const validIndices = pValues.map((p, i) => i).filter(i => !isNaN(pValues[i]));
+    const n = validIndices.length;
+    const adjusted = pValues.map(() => NaN);
+    if (n === 0) return adjusted;
+
+    // Sort the valid p-values ascending, remembering their original positions
+    const order = [...validIndices].sort((a, b) => pValues[a] - pValues[b]);
+    const sorted = order.map(i => pValues[i]);
+    const result = new Array<number>(n);
+
+    switch (method) {
+        case 'none':
+            sorted.forEach((p, i) => { result[i] = p; });
+            break;
+        case 'bonferroni':
+            sorted.forEach((p, i) => { result[i] = Math.min(1, p * n); });
+            break;
+        case 'sidak':
+            sorted.forEach((p, i) => { result[i] = 1 - Math.pow(1 - p, n); });
+            break;
+        case 'holm': {
+            // Step-down: cumulative maximum of (n - i) * p_(i)
+            let runningMax = 0;
+            sorted.forEach((p, i) => {
+                runningMax = Math.max(runningMax, (n - i) * p);
+                result[i] = Math.min(1, runningMax);
+            });
+            break;
+        }
+        case 'hochberg': {
+            // Step-up: cumulative minimum of (n - i) * p_(i), from the largest p-value down
+            let runningMin = Infinity;
+            for (let i = n - 1; i >= 0; i--) {
+                runningMin = Math.min(runningMin, (n - i) * sorted[i]);
+                result[i] = Math.min(1, runningMin);
+            }
+            break;
+        }
+        case 'hommel': {
+            const initial = Math.min(...sorted.map((p, i) => (n * p) / (i + 1)));
+            const q = new Array<number>(n).fill(initial);
+            const pa = new Array<number>(n).fill(initial);
+            for (let m = n - 1; m >= 2; m--) {
+                // i1 = first n - m + 1 positions, i2 = the remaining m - 1 positions
+                let q1 = Infinity;
+                for (let k = 2; k <= m; k++) {
+                    q1 = Math.min(q1, (m * sorted[n - m + k - 1]) / k);
+                }
+                for (let i = 0; i <= n - m; i++) {
+                    q[i] = Math.min(m * sorted[i], q1);
+                }
+                for (let i = n - m + 1; i < n; i++) {
+                    q[i] = q[n - m];
+                }
+                for (let i = 0; i < n; i++) {
+                    pa[i] = Math.max(pa[i], q[i]);
+                }
+            }
+            sorted.forEach((p, i) => { result[i] = Math.max(pa[i], p); });
+            break;
+        }
+        case 'BH':
+        case 'BY': {
+            // Step-up: cumulative minimum of c * n / i * p_(i), with c = sum(1/j) for BY
+            const c = method === 'BY' ? Array.from({ length: n }, (_, j) => 1 / (j + 1)).reduce((a, b) => a + b, 0) : 1;
+            let runningMin = Infinity;
+            for (let i = n - 1; i >= 0; i--) {
+                runningMin = Math.min(runningMin, (c * n * sorted[i]) / (i + 1));
+                result[i] = Math.min(1, runningMin);
+            }
+            break;
+        }
+    }
+
+    order.forEach((originalIndex, i) => { adjusted[originalIndex] = result[i]; });
+    return adjusted;
+}
+
+/**
+ * Per-comparison significance threshold for single-step corrections; null for stepwise
+ * methods, whose effective threshold depends on the rank of each p-value.
+ */
+function perComparisonAlphaFor(alpha: number, familySize: number, method: CorrectionMethod): number | null {
+    if (familySize <= 0) return null;
+    switch (method) {
+        case 'none': return alpha;
+        case 'bonferroni': return alpha / familySize;
+        case 'sidak': return 1 - Math.pow(1 - alpha, 1 / familySize);
+        default: return null;
+    }
+}
+
+/**
+ * Human-readable label for a correction method.
+ */
+export function correctionLabel(method: CorrectionMethod): string {
+    switch (method) {
+        case 'none': return "No Correction";
+        case 'bonferroni': return "Bonferroni";
+        case 'sidak': return "Šidák";
+        case 'holm': return "Holm";
+        case 'hochberg': return "Hochberg";
+        case 'hommel': return "Hommel";
+        case 'BH': return "Benjamini–Hochberg (FDR)";
+        case 'BY': return "Benjamini–Yekutieli (FDR)";
+    }
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32) returning values in [0, 1).
+ * The same seed always reproduces the same sequence.
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Draws one value from a hypergeometric distribution: the number of successes in
+ * `draws` items taken without replacement from `population` items of which `successes`
+ * are successes. Uses inversion, searching outwards from the mode, so the expected
+ * cost grows with the standard deviation rather than the number of draws.
+ */
+function sampleHypergeometric(population: number, successes: number, draws: number, random: () => number): number {
+    const lo = Math.max(0, draws - (population - successes));
+    const hi = Math.min(draws, successes);
+    if (lo === hi) return lo;
+
+    const mode = Math.min(hi, Math.max(lo, Math.floor(((draws + 1) * (successes + 1)) / (population + 2))));
+    const modeProbability = Math.exp(
+        logChoose(successes, mode) + logChoose(population - successes, draws - mode) - logChoose(population, draws)
+    );
+
+    let u = random() - modeProbability;
+    if (u <= 0) return mode;
+
+    let up = mode, down = mode;
+    let pUp = modeProbability, pDown = modeProbability;
+    while (up < hi || down > lo) {
+        if (up < hi) {
+            pUp *= ((successes - up) * (draws - up)) / ((up + 1) * (population - successes - draws + up + 1));
+            up++;
+            u -= pUp;
+            if (u <= 0) return up;
+        }
+        if (down > lo) {
+            pDown *= (down * (population - successes - draws + down)) / ((successes - down + 1) * (draws - down + 1));
+            down--;
+            u -= pDown;
+            if (u <= 0) return down;
+        }
+    }
+    return mode; // Only reached through floating point round-off
+}
+
+/**
+ * Pearson Chi-square of a k×2 table given the experienced counts, row totals and the
+ * total number experienced. Rows with a zero total are skipped.
+ */
+function pearsonChiSquareKx2(experienced: number[], rowTotals: number[], totalExperienced: number): number {
+    const grandTotal = rowTotals.reduce((sum, n) => sum + n, 0);
+    const totalNotExperienced = grandTotal - totalExperienced;
+    if (grandTotal === 0 || totalExperienced === 0 || totalNotExperienced === 0) return 0;
+    let statistic = 0;
+    for (let i = 0; i < rowTotals.length; i++) {
+        if (rowTotals[i] === 0) continue;
+        const expectedExperienced = (rowTotals[i] * totalExperienced) / grandTotal;
+        const expectedNotExperienced = rowTotals[i] - expectedExperienced;
+        const diff = experienced[i] - expectedExperienced;
+        statistic += (diff * diff) / expectedExperienced + (diff * diff) / expectedNotExperienced;
+    }
+    return statistic;
+}
+
+/**
+ * Pearson and likelihood ratio (G) tests of independence for an r×c table of counts.
+ * Empty rows and columns are dropped, so df = (r' - 1)(c' - 1) over the non-empty ones.
+ */
+function contingencyTableTests(table: number[][]): { chiSquare: ChiSquareTestResult; gTest: ChiSquareTestResult } {
+    const rowTotals = table.map(row => row.reduce((sum, x) => sum + x, 0));
+    const colTotals = table[0].map((_, j) => table.reduce((sum, row) => sum + row[j], 0));
+    const grandTotal = rowTotals.reduce((sum, x) => sum + x, 0);
+    let pearson = 0, g = 0;
+    table.forEach((row, i) => row.forEach((observed, j) => {
+        if (rowTotals[i] === 0 || colTotals[j] === 0) return;
+        const expected = rowTotals[i] * colTotals[j] / grandTotal;
+        pearson += calculateChiSquareContribution(observed, expected);
+        g += calculateGTestContribution(observed, expected);
+    }));
+    const df = (rowTotals.filter(n => n > 0).length - 1) * (colTotals.filter(n => n > 0).length - 1);
+    const test = (statistic: number): ChiSquareTestResult => ({
+        statistic, degreesOfFreedom: df, pValue: df > 0 ? chiSquarePValue(statistic, df) : NaN,
+    });
+    return { chiSquare: test(pearson), gTest: test(Math.max(0, g)) };
+}
+
+// Upper bound on the number of tables enumerated by the exact overall test
+const MAX_EXACT_TABLES = 1_000_000;
+
+/**
+ * Freeman-Halton exact test for a k×2 table: enumerates every table with the observed
+ * margins (multivariate hypergeometric distribution of the experienced counts) and sums
+ * the probabilities of tables no more likely than the observed one.
+ * Returns null when more than MAX_EXACT_TABLES tables would have to be enumerated.
+ */
+export function freemanHaltonExactTest(
+    experienced: number[],
+    rowTotals: number[]
+): { pValue: number; tablesEnumerated: number } | null {
+    const k = rowTotals.length;
+    const totalExperienced = experienced.reduce((sum, x) => sum + x, 0);
+    const grandTotal = rowTotals.reduce((sum, n) => sum + n, 0);
+
+    // Count the tables first (DP over groups and partial sums) so huge tables are skipped up front
+    let ways = new Array<number>(totalExperienced + 1).fill(0);
+    ways[0] = 1;
+    for (let i = 0; i < k; i++) {
+        const next = new Array<number>(totalExperienced + 1).fill(0);
+        let windowSum = 0;
+        for (let s = 0; s <= totalExperienced; s++) {
+            windowSum += ways[s];
+            if (s - rowTotals[i] - 1 >= 0) windowSum -= ways[s - rowTotals[i] - 1];
+            next[s] = Math.min(windowSum, MAX_EXACT_TABLES + 1);
+        }
+        ways = next;
+    }
+    if (ways[totalExperienced] > MAX_EXACT_TABLES) return null;
+
+    // Per-group log binomial coefficients, and the capacity left in the remaining groups
+    const logChooseByGroup = rowTotals.map(n => Array.from({ length: n + 1 }, (_, x) => logChoose(n, x)));
+    const remainingCapacity = new Array<number>(k + 1).fill(0);
+    for (let i = k - 1; i >= 0; i--) remainingCapacity[i] = remainingCapacity[i + 1] + rowTotals[i];
+
+    const logDenominator = logChoose(grandTotal, totalExperienced);
+    const observedLogProbability = experienced.reduce((sum, x, i) => sum + logChooseByGroup[i][x], 0) - logDenominator;
+    // Relative tolerance guards against floating point ties with the observed table
+    const threshold = observedLogProbability + Math.log1p(1e-7);
+
+    let pValue = 0;
+    let tablesEnumerated = 0;
+    const enumerate = (groupIndex: number, remaining: number, logProbability: number) => {
+        if (groupIndex === k - 1) {
+            const total = logProbability + logChooseByGroup[groupIndex][remaining] - logDenominator;
+            tablesEnumerated++;
+            if (total <= threshold) pValue += Math.exp(total);
+            return;
+        }
+        const lo = Math.max(0, remaining - remainingCapacity[groupIndex + 1]);
+        const hi = Math.min(rowTotals[groupIndex], remaining);
+        for (let x = lo; x <= hi; x++) {
+            enumerate(groupIndex + 1, remaining - x, logProbability + logChooseByGroup[groupIndex][x]);
+        }
+    };
+    if (k > 0) enumerate(0, totalExperienced, 0);
+
+    return { pValue: Math.min(1.0, pValue), tablesEnumerated };
+}
+
+/**
+ * Monte Carlo permutation test for independence in a k×2 table. Each replicate redistributes
+ * the experienced outcomes among the groups with all margins fixed, and the p-value is the
+ * share of replicates whose Pearson statistic is at least the observed one, (1 + b) / (B + 1).
+ */
+export function monteCarloChiSquareTest(
+    experienced: number[],
+    rowTotals: number[],
+    replicates: number,
+    seed: number
+): { statistic: number; pValue: number; standardError: number; replicates: number; seed: number } {
+    const random = createSeededRandom(seed);
+    const totalExperienced = experienced.reduce((sum, x) => sum + x, 0);
+    const grandTotal = rowTotals.reduce((sum, n) => sum + n, 0);
+    const observed = pearsonChiSquareKx2(experienced, rowTotals, totalExperienced);
+    // Same tie tolerance as R's chisq.test(simulate.p.value = TRUE)
+    const threshold = observed * (1 - 64 * Number.EPSILON);
+
+    const simulated = new Array<number>(rowTotals.length);
+    let atLeastAsExtreme = 0;
+    for (let b = 0; b < replicates; b++) {
+        let populationLeft = grandTotal;
+        let successesLeft = totalExperienced;
+        for (let i = 0; i < rowTotals.length; i++) {
+            const x = sampleHypergeometric(populationLeft, successesLeft, rowTotals[i], random);
+            simulated[i] = x;
+            populationLeft -= rowTotals[i];
+            successesLeft -= x;
+        }
+        if (pearsonChiSquareKx2(simulated, rowTotals, totalExperienced) >= threshold) atLeastAsExtreme++;
+    }
+
+    const pValue = (1 + atLeastAsExtreme) / (replicates + 1);
+    return {
+        statistic: observed,
+        pValue,
+        standardError: replicates > 0 ? Math.sqrt((pValue * (1 - pValue)) / replicates) : NaN,
+        replicates,
+        seed,
+    };
+}
+
+/**
+ * Cochran-Armitage test for trend in a k×2 table with ordinal scores (as in R's prop.trend.test),
+ * with the linear-by-linear association statistic and the remaining departure from linearity.
+ * Returns null when fewer than two distinct scores carry observations or no outcome varies.
+ */
+export function cochranArmitageTrendTest(
+    experienced: number[],
+    rowTotals: number[],
+    scores: number[]
+): TrendTestResult | null {
+    const grandTotal = rowTotals.reduce((sum, n) => sum + n, 0);
+    const totalExperienced = experienced.reduce((sum, x) => sum + x, 0);
+    if (grandTotal <= 1 || totalExperienced === 0 || totalExperienced === grandTotal) return null;
+
+    const pooledRate = totalExperienced / grandTotal;
+    const meanScore = rowTotals.reduce((sum, n, i) => sum + n * scores[i], 0) / grandTotal;
+    const scoreSumOfSquares = rowTotals.reduce((sum, n, i) => sum + n * (scores[i] - meanScore) ** 2, 0);
+    if (!(scoreSumOfSquares > 0)) return null;
+
+    const trend = experienced.reduce((sum, x, i) => sum + x * (scores[i] - meanScore), 0);
+    const zStatistic = trend / Math.sqrt(pooledRate * (1 - pooledRate) * scoreSumOfSquares);
+    const statistic = zStatistic ** 2;
+    const linearByLinearStatistic = statistic * (grandTotal - 1) / grandTotal;
+
+    const degreesOfFreedom = rowTotals.length - 2;
+    const departureStatistic = Math.max(0, pearsonChiSquareKx2(experienced, rowTotals, totalExperienced) - statistic);
+
+    return {
+        scores,
+        zStatistic,
+        statistic,
+        pValue: chiSquarePValue(statistic, 1),
+        linearByLinear: { statistic: linearByLinearStatistic, pValue: chiSquarePValue(linearByLinearStatistic, 1) },
+        departure: degreesOfFreedom > 0
+            ? { statistic: departureStatistic, degreesOfFreedom, pValue: chiSquarePValue(departureStatistic, degreesOfFreedom) }
+            : null,
+    };
+}
+
+// Standard deviations of shortfall beyond which a disparity is treated as statistically significant
+const ADVERSE_IMPACT_SD_THRESHOLD = 2;
+
+/**
+ * Adverse impact analysis: each group's selection rate divided by the comparator's rate
+ * (the highest-rate group unless one is chosen), flagged under the four-fifths rule, together
+ * with the pooled two-proportion z-test of the shortfall (the "2 standard deviations" test).
+ */
+export function calculateAdverseImpact(
+    summary: ContingencySummaryData[],
+    options: AdverseImpactOptions
+): AdverseImpactResults | null {
+    const threshold = options.threshold ?? 0.8;
+    const validGroups = summary.filter(g => g.rowTotal > 0);
+    if (validGroups.length === 0) return null;
+
+    const comparator = options.comparatorGroup
+        ? summary.find(g => g.name === options.comparatorGroup)
+        : validGroups.reduce((best, g) => (g.percentExperienced > best.percentExperienced ? g : best), validGroups[0]);
+    if (!comparator) return null;
+
+    const comparatorRate = comparator.rowTotal > 0 ? comparator.experienced / comparator.rowTotal : NaN;
+
+    const groups = summary.map((g): AdverseImpactGroupResult => {
+        const rate = g.rowTotal > 0 ? g.experienced / g.rowTotal : NaN;
+        const impactRatio = comparatorRate > 0 ? rate / comparatorRate : NaN;
+
+        let zStatistic = NaN;
+        if (g.rowTotal > 0 && comparator.rowTotal > 0 && g.name !== comparator.name) {
+            const pooled = (g.experienced + comparator.experienced) / (g.rowTotal + comparator.rowTotal);
+            const se = Math.sqrt(pooled * (1 - pooled) * (1 / g.rowTotal + 1 / comparator.rowTotal));
+            zStatistic = se > 0 ? (comparatorRate - rate) / se : 0;
+        }
+        const pValue = isNaN(zStatistic) ? NaN : 2 * (1 - jStat.normal.cdf(Math.abs(zStatistic), 0, 1));
+
+        const belowThreshold = !isNaN(impactRatio) && impactRatio < threshold;
+        const exceedsTwoSD = !isNaN(zStatistic) && zStatistic > ADVERSE_IMPACT_SD_THRESHOLD;
+
+        let verdict: AdverseImpactVerdict;
+        if (g.name === comparator.name) verdict = 'comparator';
+        else if (isNaN(impactRatio) || isNaN(zStatistic)) verdict = 'notAvailable';
+        else if (belowThreshold && exceedsTwoSD) verdict = 'adverseImpact';
+        else if (belowThreshold) verdict = 'practicalOnly';
+        else if (exceedsTwoSD) verdict = 'statisticalOnly';
+        else verdict = 'none';
+
+        return {
+            group: g.name,
+            selectionRate: g.percentExperienced,
+            impactRatio,
+            belowThreshold,
+            zStatistic,
+            pValue,
+            exceedsTwoSD,
+            verdict,
+        };
+    });
+
+    return {
+        comparatorGroup: comparator.name,
+        comparatorBasis: options.comparatorGroup ? 'selected' : 'highestRate',
+        threshold,
+        groups,
+    };
+}
+
+/**
+ * Human-readable label for an adverse impact verdict.
+ */
+export function adverseImpactVerdictLabel(verdict: AdverseImpactVerdict): string {
+    switch (verdict) {
+        case 'comparator': return "Comparator group";
+        case 'adverseImpact': return "Adverse impact indicated (practical and statistical)";
+        case 'practicalOnly': return "Practical only (below four-fifths, not 2 SD)";
+        case 'statisticalOnly': return "Statistical only (2 SD, not below four-fifths)";
+        case 'none': return "No adverse impact indicated";
+        case 'notAvailable': return "N/A";
+    }
+}
+
+/**
+ * Solves the linear system A·x = b by Gaussian elimination with partial pivoting.
+ * Returns null when A is singular.
+ */
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] | null {
+    const n = vector.length;
+    const a = matrix.map((row, i) => [...row, vector[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-12) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+    const x = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+        x[row] = sum / a[row][row];
+    }
+    return x;
+}
+
+/**
+ * Generalized Cochran-Mantel-Haenszel test of association between group and outcome in a
+ * k×2×S table (as in R's mantelhaen.test): Q = Gᵀ V⁻¹ G over the first k - 1 groups, where G
+ * sums observed minus expected experienced counts over the strata and V their
+ * hypergeometric covariance. Returns null when the covariance matrix is singular.
+ */
+function cochranMantelHaenszelTest(strata: GroupInput[][]): ChiSquareTestResult | null {
+    const k = strata[0]?.length ?? 0;
+    if (k < 2) return null;
+    const m = k - 1;
+    const deviation = new Array<number>(m).fill(0);
+    const covariance = Array.from({ length: m }, () => new Array<number>(m).fill(0));
+
+    strata.forEach(groups => {
+        const rowTotals = groups.map(g => g.experienced + g.notExperienced);
+        const n = rowTotals.reduce((sum, r) => sum + r, 0);
+        const experiencedTotal = groups.reduce((sum, g) => sum + g.experienced, 0);
+        if (n <= 1) return;
+        const factor = experiencedTotal * (n - experiencedTotal) / (n * n * (n - 1));
+        for (let i = 0; i < m; i++) {
+            deviation[i] += groups[i].experienced - rowTotals[i] * experiencedTotal / n;
+            for (let j = 0; j < m; j++) {
+                covariance[i][j] += factor * ((i === j ? n * rowTotals[i] : 0) - rowTotals[i] * rowTotals[j]);
+            }
+        }
+    });
+
+    const solution = solveLinearSystem(covariance, deviation);
+    if (!solution) return null;
+    const statistic = Math.max(0, deviation.reduce((sum, d, i) => sum + d * solution[i], 0));
+    return { statistic, degreesOfFreedom: m, pValue: chiSquarePValue(statistic, m) };
+}
+
+/**
+ * Mantel-Haenszel analysis of one pair of groups over the strata: the pooled odds ratio with
+ * the Robins-Breslow-Greenland interval, the Mantel-Haenszel test (without continuity
+ * correction) and the Breslow-Day test of homogeneity with Tarone's correction.
+ */
+function mantelHaenszelPair(
+    tables: { a: number; b: number; c: number; d: number }[],
+    confidenceLevel: number
+): { oddsRatio: EffectEstimate; test: ChiSquareTestResult; breslowDay: ChiSquareTestResult | null } {
+    const z = normalCriticalValue(confidenceLevel);
+    let sumR = 0, sumS = 0, sumPR = 0, sumPSQR = 0, sumQS = 0;
+    let sumA = 0, sumExpectedA = 0, sumVarianceA = 0;
+    tables.forEach(({ a, b, c, d }) => {
+        const n = a + b + c + d;
+        if (n <= 1) return;
+        const r = a * d / n, s = b * c / n;
+        const p = (a + d) / n, q = (b + c) / n;
+        sumR += r; sumS += s;
+        sumPR += p * r; sumPSQR += p * s + q * r; sumQS += q * s;
+        // Hypergeometric mean and variance of a for the Mantel-Haenszel test
+        const row1 = a + b, row2 = c + d, col1 = a + c, col2 = b + d;
+        sumA += a;
+        sumExpectedA += row1 * col1 / n;
+        sumVarianceA += row1 * row2 * col1 * col2 / (n * n * (n - 1));
+    });
+
+    const estimate = sumR / sumS;
+    const oddsRatio: EffectEstimate = sumR > 0 && sumS > 0
+        ? (() => {
+            const se = Math.sqrt(sumPR / (2 * sumR ** 2) + sumPSQR / (2 * sumR * sumS) + sumQS / (2 * sumS ** 2));
+            return { estimate, ci: { lower: Math.exp(Math.log(estimate) - z * se), upper: Math.exp(Math.log(estimate) + z * se) } };
+        })()
+        : { estimate: sumS > 0 ? estimate : NaN, ci: null };
+
+    const statistic = sumVarianceA > 0 ? (sumA - sumExpectedA) ** 2 / sumVarianceA : NaN;
+    const test: ChiSquareTestResult = { statistic, degreesOfFreedom: 1, pValue: chiSquarePValue(statistic, 1) };
+
+    // Breslow-Day: compare each stratum's a with its expectation under the common odds ratio
+    let breslowDay: ChiSquareTestResult | null = null;
+    if (isFinite(estimate) && estimate > 0) {
+        let bdStatistic = 0, sumObserved = 0, sumFitted = 0, sumFittedVariance = 0, informative = 0;
+        tables.forEach(({ a, b, c, d }) => {
+            const row1 = a + b, row2 = c + d, col1 = a + c;
+            const lo = Math.max(0, col1 - row2), hi = Math.min(row1, col1);
+            if (hi <= lo) return; // Fixed margins leave no variation in this stratum
+            // Root in [lo, hi] of (ψ - 1)A² - (ψ(row1 + col1) + row2 - col1)A + ψ·row1·col1 = 0
+            let fitted: number;
+            if (Math.abs(estimate - 1) < 1e-12) {
+                fitted = row1 * col1 / (row1 + row2);
+            } else {
+                const qa = estimate - 1;
+                const qb = -(estimate * (row1 + col1) + row2 - col1);
+                const qc = estimate * row1 * col1;
+                const root = Math.sqrt(Math.max(0, qb * qb - 4 * qa * qc));
+                const candidates = [(-qb - root) / (2 * qa), (-qb + root) / (2 * qa)];
+                fitted = candidates.find(x => x >= lo - 1e-9 && x <= hi + 1e-9) ?? candidates[0];
+            }
+            const variance = 1 / (1 / fitted + 1 / (row1 - fitted) + 1 / (col1 - fitted) + 1 / (row2 - col1 + fitted));
+            if (!(variance > 0)) return;
+            bdStatistic += (a - fitted) ** 2 / variance;
+            sumObserved += a;
+            sumFitted += fitted;
+            sumFittedVariance += variance;
+            informative++;
+        });
+        if (informative >= 2) {
+            const tarone = bdStatistic - (sumObserved - sumFitted) ** 2 / sumFittedVariance;
+            breslowDay = { statistic: tarone, degreesOfFreedom: informative - 1, pValue: chiSquarePValue(Math.max(0, tarone), informative - 1) };
+        }
+    }
+
+    return { oddsRatio, test, breslowDay };
+}
+
+/**
+ * Analysis stratified by a third factor: the crude Pearson test of the collapsed table next to
+ * the generalized Cochran-Mantel-Haenszel test, and for every pair of groups the crude and
+ * Mantel-Haenszel odds ratios with the Breslow-Day test of homogeneity across strata.
+ */
+export function calculateStratifiedAnalysis(
+    groups: GroupInput[],
+    strata: StratumInput[],
+    alpha: number,
+    correction: CorrectionMethod,
+    confidenceLevel: number
+): StratifiedAnalysisResults {
+    // Groups with no observations in any stratum carry no information
+    const usedIndices = groups
+        .map((g, index) => ({ index, total: g.experienced + g.notExperienced }))
+        .filter(g => g.total > 0)
+        .map(g => g.index);
+    const collapsed = usedIndices.map(i => groups[i]);
+    const collapsedTotals = collapsed.map(g => g.experienced + g.notExperienced);
+    const collapsedExperienced = collapsed.reduce((sum, g) => sum + g.experienced, 0);
+    const crudeStatistic = pearsonChiSquareKx2(collapsed.map(g => g.experienced), collapsedTotals, collapsedExperienced);
+    const crudeDf = Math.max(1, collapsed.length - 1);
+
+    const stratumTables = strata.map(stratum => usedIndices.map(i => stratum.groups[i]));
+
+    const rawPairs: Omit<StratifiedPairResult, 'mantelHaenszelTest'>[] = [];
+    const rawTests: ChiSquareTestResult[] = [];
+    for (let x = 0; x < usedIndices.length; x++) {
+        for (let y = x + 1; y < usedIndices.length; y++) {
+            const tables = stratumTables.map(table => ({
+                a: table[x].experienced, b: table[x].notExperienced,
+                c: table[y].experienced, d: table[y].notExperienced,
+            }));
+            const { oddsRatio, test, breslowDay } = mantelHaenszelPair(tables, confidenceLevel);
+            const crudeOddsRatio = calculatePairwiseEffectSizes(collapsed[x], collapsed[y], confidenceLevel).oddsRatio;
+            rawPairs.push({
+                group1: collapsed[x].name,
+                group2: collapsed[y].name,
+                crudeOddsRatio,
+                mantelHaenszelOddsRatio: oddsRatio,
+                breslowDay,
+                directionReversed: crudeOddsRatio.estimate > 0 && oddsRatio.estimate > 0
+                    && (crudeOddsRatio.estimate - 1) * (oddsRatio.estimate - 1) < 0,
+            });
+            rawTests.push(test);
+        }
+    }
+
+    const adjusted = adjustPValues(rawTests.map(t => t.pValue), correction);
+    return {
+        strata: strata.map(s => s.name),
+        crude: { statistic: crudeStatistic, degreesOfFreedom: crudeDf, pValue: chiSquarePValue(crudeStatistic, crudeDf) },
+        cochranMantelHaenszel: cochranMantelHaenszelTest(stratumTables),
+        pairs: rawPairs.map((pair, index) => ({
+            ...pair,
+            mantelHaenszelTest: { ...rawTests[index], pValueCorrected: adjusted[index], isSignificant: adjusted[index] < alpha },
+        })),
+    };
+}
+
+/**
+ * Analysis of the full k×m table of a multi-level outcome: cell residuals, the overall Pearson and
+ * G tests with df = (k - 1)(m - 1), Cramér's V, a 2×m test for every pair of groups and a k×2
+ * test of each outcome level against all others. With two levels this reduces to the k×2 analysis.
+ */
+export function calculateOutcomeTable(
+    groups: GroupInput[],
+    outcomeLabels: string[],
+    focusOutcome: string,
+    alpha: number,
+    correction: CorrectionMethod,
+    confidenceLevel: number
+): OutcomeTableResults {
+    const usedGroups = groups.filter(g => (g.outcomeCounts ?? []).some(n => n > 0));
+    const table = usedGroups.map(g => outcomeLabels.map((_, j) => g.outcomeCounts?.[j] ?? 0));
+    const rowTotals = table.map(row => row.reduce((sum, x) => sum + x, 0));
+    const columnTotals = outcomeLabels.map((_, j) => table.reduce((sum, row) => sum + row[j], 0));
+    const grandTotal = rowTotals.reduce((sum, x) => sum + x, 0);
+
+    const rawCells = table.map((row, i) => row.map((observed, j) => {
+        const expected = grandTotal > 0 ? rowTotals[i] * columnTotals[j] / grandTotal : 0;
+        const adjustedResidual = calculateAdjustedResidual(observed, expected, rowTotals[i], columnTotals[j], grandTotal);
+        return {
+            observed,
+            expected,
+            rowPercent: rowTotals[i] > 0 ? (observed / rowTotals[i]) * 100 : 0,
+            pearsonResidual: calculatePearsonResidual(observed, expected),
+            adjustedResidual,
+            adjustedResidualPValue: isFinite(adjustedResidual) ? 2 * (1 - jStat.normal.cdf(Math.abs(adjustedResidual), 0, 1)) : NaN,
+        };
+    }));
+    // Correct over the cells with a defined residual
+    const flatCells = rawCells.flat();
+    const testable = flatCells.filter(cell => isFinite(cell.adjustedResidualPValue));
+    const adjustedCellPValues = adjustPValues(testable.map(cell => cell.adjustedResidualPValue), correction);
+    const correctedByCell = new Map(testable.map((cell, index) => [cell, adjustedCellPValues[index]]));
+    const rows: OutcomeTableRow[] = usedGroups.map((g, i) => ({
+        group: g.name,
+        rowTotal: rowTotals[i],
+        cells: rawCells[i].map(cell => {
+            const corrected = correctedByCell.get(cell) ?? NaN;
+            return { ...cell, adjustedResidualPValueCorrected: corrected, adjustedResidualSignificant: corrected < alpha };
+        }),
+    }));
+
+    const { chiSquare, gTest } = contingencyTableTests(table);
+    const nonEmptyColumns = columnTotals.filter(n => n > 0).length;
+    const effectSize = calculateCramersV(chiSquare.statistic, grandTotal, usedGroups.length, confidenceLevel, nonEmptyColumns);
+
+    const rawPairs: { group1: string; group2: string; chiSquare: ChiSquareTestResult }[] = [];
+    for (let x = 0; x < usedGroups.length; x++) {
+        for (let y = x + 1; y < usedGroups.length; y++) {
+            rawPairs.push({ group1: usedGroups[x].name, group2: usedGroups[y].name, chiSquare: contingencyTableTests([table[x], table[y]]).chiSquare });
+        }
+    }
+    const adjustedPairs = adjustPValues(rawPairs.map(pair => pair.chiSquare.pValue), correction);
+
+    const rawLevels = outcomeLabels.map((outcome, j) => ({
+        outcome,
+        chiSquare: contingencyTableTests(table.map((row, i) => [row[j], rowTotals[i] - row[j]])).chiSquare,
+    }));
+    const adjustedLevels = adjustPValues(rawLevels.map(level => level.chiSquare.pValue), correction);
+
+    return {
+        outcomeLabels,
+        focusOutcome,
+        rows,
+        columnTotals,
+        grandTotal,
+        chiSquare,
+        gTest,
+        effectSize,
+        pairwise: rawPairs.map((pair, index) => ({ ...pair, pValueCorrected: adjustedPairs[index], isSignificant: adjustedPairs[index] < alpha })),
+        perOutcome: rawLevels.map((level, index) => ({ ...level, pValueCorrected: adjustedLevels[index], isSignificant: adjustedLevels[index] < alpha })),
+    };
+}
+
+// Midpoint-rule nodes on the probability scale for the posterior probability integrals
+const POSTERIOR_QUADRATURE_POINTS = 2000;
+
+/**
+ * Quantiles of Beta(a, b) at the midpoints u = (i + 0.5) / n of the probability scale.
+ */
+function betaQuantileNodes(a: number, b: number): number[] {
+    return Array.from({ length: POSTERIOR_QUADRATURE_POINTS }, (_, i) =>
+        jStat.beta.inv((i + 0.5) / POSTERIOR_QUADRATURE_POINTS, a, b));
+}
+
+/**
+ * E[f(X)] = ∫₀¹ f(F⁻¹(u)) du by the midpoint rule over the quantile nodes of X. The integrand is
+ * bounded whenever f is, including posteriors with a shape parameter below 1 whose density is not.
+ */
+function expectationOverQuantiles(nodes: number[], f: (x: number) => number): number {
+    return nodes.reduce((sum, x) => sum + f(x), 0) / nodes.length;
+}
+
+/**
+ * Bayesian comparison of the group rates under independent Beta(α, β) priors. Each group's
+ * posterior is Beta(α + experienced, β + not experienced); pairs are compared through
+ * P(rate1 < rate2) = ∫₀¹ (1 - F2(F1⁻¹(u))) du and P(rate1 / rate2 < t) = ∫₀¹ F1(t·F2⁻¹(u)) du,
+ * integrated on the probability scale so the results are deterministic.
+ */
+export function calculateBayesianComparison(
+    groups: GroupInput[],
+    options: BayesianOptions,
+    credibleLevel: number
+): BayesianResults {
+    const priorAlpha = options.priorAlpha ?? 1;
+    const priorBeta = options.priorBeta ?? 1;
+    const ratioThreshold = options.ratioThreshold ?? 0.8;
+    const tail = (1 - credibleLevel) / 2;
+
+    const posteriors: BayesianGroupPosterior[] = groups.map(g => {
+        const a = priorAlpha + g.experienced;
+        const b = priorBeta + g.notExperienced;
+        return {
+            group: g.name,
+            posteriorAlpha: a,
+            posteriorBeta: b,
+            mean: (a / (a + b)) * 100,
+            credibleInterval: { lower: jStat.beta.inv(tail, a, b) * 100, upper: jStat.beta.inv(1 - tail, a, b) * 100 },
+        };
+    });
+
+    const quantileNodes = posteriors.map(p => betaQuantileNodes(p.posteriorAlpha, p.posteriorBeta));
+    const pairs: BayesianPairComparison[] = [];
+    for (let i = 0; i < posteriors.length; i++) {
+        for (let j = i + 1; j < posteriors.length; j++) {
+            const { posteriorAlpha: a1, posteriorBeta: b1 } = posteriors[i];
+            const { posteriorAlpha: a2, posteriorBeta: b2 } = posteriors[j];
+            pairs.push({
+                group1: posteriors[i].group,
+                group2: posteriors[j].group,
+                probabilityLower: expectationOverQuantiles(quantileNodes[i], x => 1 - jStat.beta.cdf(x, a2, b2)),
+                probabilityRatioBelowThreshold: expectationOverQuantiles(quantileNodes[j], y => jStat.beta.cdf(Math.min(1, ratioThreshold * y), a1, b1)),
+                probabilityInverseRatioBelowThreshold: expectationOverQuantiles(quantileNodes[i], x => jStat.beta.cdf(Math.min(1, ratioThreshold * x), a2, b2)),
+            });
+        }
+    }
+
+    return { priorAlpha, priorBeta, credibleLevel, ratioThreshold, groups: posteriors, pairs };
+}
+
+// Iteration limit and convergence tolerance of the logistic regression fit
+const LOGISTIC_MAX_ITERATIONS = 50;
+const LOGISTIC_TOLERANCE = 1e-8;
+// Absolute log-odds beyond which an estimate is treated as diverging (quasi-complete separation)
+const LOGISTIC_SEPARATION_BOUND = 15;
+
+interface LogisticFit {
+    coefficients: number[];
+    covariance: number[][];
+    logLikelihood: number;
+    converged: boolean;
+}
+
+/**
+ * Fits a logistic regression by iteratively reweighted least squares (Newton-Raphson).
+ * Returns null when the information matrix is singular (collinear design columns).
+ */
+function fitLogisticRegression(design: number[][], outcome: number[]): LogisticFit | null {
+    const p = design[0]?.length ?? 0;
+    let coefficients = new Array<number>(p).fill(0);
+    let converged = false;
+    let information: number[][] = [];
+
+    for (let iteration = 0; iteration < LOGISTIC_MAX_ITERATIONS; iteration++) {
+        const gradient = new Array<number>(p).fill(0);
+        information = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+        design.forEach((row, i) => {
+            const eta = row.reduce((sum, x, j) => sum + x * coefficients[j], 0);
+            const fitted = 1 / (1 + Math.exp(-eta));
+            const weight = fitted * (1 - fitted);
+            for (let j = 0; j < p; j++) {
+                gradient[j] += row[j] * (outcome[i] - fitted);
+                for (let k = j; k < p; k++) information[j][k] += weight * row[j] * row[k];
+            }
+        });
+        for (let j = 0; j < p; j++) for (let k = 0; k < j; k++) information[j][k] = information[k][j];
+
+        const step = solveLinearSystem(information, gradient);
+        if (!step) return null;
+        coefficients = coefficients.map((b, j) => b + step[j]);
+        if (Math.max(...step.map(Math.abs)) < LOGISTIC_TOLERANCE) {
+            converged = true;
+            break;
+        }
+    }
+
+    // Covariance is the inverse of the information matrix, solved one column at a time
+    const covariance: number[][] = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+    for (let j = 0; j < p; j++) {
+        const column = solveLinearSystem(information, information.map((_, i) => (i === j ? 1 : 0)));
+        if (!column) return null;
+        column.forEach((value, i) => { covariance[i][j] = value; });
+    }
+
+    const logLikelihood = design.reduce((sum, row, i) => {
+        const eta = row.reduce((acc, x, j) => acc + x * coefficients[j], 0);
+        // log(1 + e^η) computed stably for large |η|
+        const logOnePlusExp = eta > 0 ? eta + Math.log1p(Math.exp(-eta)) : Math.log1p(Math.exp(eta));
+        return sum + outcome[i] * eta - logOnePlusExp;
+    }, 0);
+
+    return { coefficients, covariance, logLikelihood, converged };
+}
+
+/**
+ * Term of a fitted logistic regression with its Wald odds ratio interval and test.
+ */
+function logisticCoefficient(fit: LogisticFit, index: number, term: string, z: number): LogisticCoefficient {
+    const estimate = fit.coefficients[index];
+    const standardError = Math.sqrt(fit.covariance[index][index]);
+    const waldZ = estimate / standardError;
+    return {
+        term,
+        estimate,
+        standardError,
+        oddsRatio: {
+            estimate: Math.exp(estimate),
+            ci: { lower: Math.exp(estimate - z * standardError), upper: Math.exp(estimate + z * standardError) },
+        },
+        waldZ,
+        waldPValue: 2 * (1 - jStat.normal.cdf(Math.abs(waldZ), 0, 1)),
+    };
+}
+
+/**
+ * Likelihood ratio test of a full model against a nested one.
+ */
+function likelihoodRatioTest(full: LogisticFit, reduced: LogisticFit, df: number): ChiSquareTestResult {
+    const statistic = Math.max(0, 2 * (full.logLikelihood - reduced.logLikelihood));
+    return { statistic, degreesOfFreedom: df, pValue: chiSquarePValue(statistic, df) };
+}
+
+/**
+ * Covariate-adjusted disparity from row-level records: logistic regressions of the outcome on
+ * dummy-coded groups (against the reference group), without and with the covariates. Numeric
+ * covariates enter linearly; text covariates are dummy-coded against their first level in sort
+ * order. Records with a missing covariate are excluded. Each group gets crude and adjusted odds
+ * ratios with Wald intervals, and a likelihood ratio test that merges it into the reference group.
+ * Returns null when a model cannot be fitted (e.g. collinear covariates).
+ */
+export function calculateAdjustedDisparity(
+    rowLevel: RowLevelInputs,
+    groupNames: string[],
+    alpha: number,
+    correction: CorrectionMethod,
+    confidenceLevel: number
+): AdjustedDisparityResults | null {
+    const z = normalCriticalValue(confidenceLevel);
+    const { covariates } = rowLevel;
+    const records = rowLevel.records.filter(r => covariates.every(c => r.covariates[c] !== null && r.covariates[c] !== undefined && r.covariates[c] !== ''));
+    const presentGroups = groupNames.filter(name => records.some(r => r.group === name));
+    const referenceGroup = rowLevel.referenceGroup && presentGroups.includes(rowLevel.referenceGroup) ? rowLevel.referenceGroup : presentGroups[0];
+    if (!referenceGroup || presentGroups.length < 2) return null;
+    const comparisonGroups = presentGroups.filter(name => name !== referenceGroup);
+
+    // Covariate design columns
+    const covariateColumns: { term: string; value: (r: RowLevelRecord) => number }[] = [];
+    covariates.forEach(name => {
+        const values = records.map(r => r.covariates[name]);
+        if (values.every(v => typeof v === 'number')) {
+            covariateColumns.push({ term: name, value: r => r.covariates[name] as number });
+        } else {
+            const levels = Array.from(new Set(values.map(v => String(v)))).sort();
+            levels.slice(1).forEach(level => {
+                covariateColumns.push({ term: `${name}: ${level}`, value: r => (String(r.covariates[name]) === level ? 1 : 0) });
+            });
+        }
+    });
+
+    const outcome = records.map(r => (r.experienced ? 1 : 0));
+    const buildDesign = (dummyGroups: string[], withCovariates: boolean) => records.map(r => [
+        1,
+        ...dummyGroups.map(name => (r.group === name ? 1 : 0)),
+        ...(withCovariates ? covariateColumns.map(column => column.value(r)) : []),
+    ]);
+
+    const crude = fitLogisticRegression(buildDesign(comparisonGroups, false), outcome);
+    const adjusted = fitLogisticRegression(buildDesign(comparisonGroups, true), outcome);
+    const interceptOnly = fitLogisticRegression(buildDesign([], false), outcome);
+    const covariatesOnly = fitLogisticRegression(buildDesign([], true), outcome);
+    if (!crude || !adjusted || !interceptOnly || !covariatesOnly) return null;
+
+    const rawGroups = comparisonGroups.map((group, index) => {
+        const crudeTerm = logisticCoefficient(crude, index + 1, group, z);
+        const adjustedTerm = logisticCoefficient(adjusted, index + 1, group, z);
+        const merged = fitLogisticRegression(buildDesign(comparisonGroups.filter(name => name !== group), true), outcome);
+        return {
+            group,
+            crudeOddsRatio: crudeTerm.oddsRatio,
+            crudeWaldPValue: crudeTerm.waldPValue,
+            adjustedOddsRatio: adjustedTerm.oddsRatio,
+            adjustedWaldZ: adjustedTerm.waldZ,
+            adjustedWaldPValue: adjustedTerm.waldPValue,
+            likelihoodRatio: merged
+                ? likelihoodRatioTest(adjusted, merged, 1)
+                : { statistic: NaN, degreesOfFreedom: 1, pValue: NaN },
+        };
+    });
+    const adjustedLR = adjustPValues(rawGroups.map(g => g.likelihoodRatio.pValue), correction);
+
+    const covariateTerms = covariateColumns.map((column, index) =>
+        logisticCoefficient(adjusted, 1 + comparisonGroups.length + index, column.term, z));
+
+    return {
+        referenceGroup,
+        covariates,
+        recordsUsed: records.length,
+        recordsExcluded: rowLevel.records.length - records.length,
+        groups: rawGroups.map((g, index) => ({
+            ...g,
+            likelihoodRatioPValueCorrected: adjustedLR[index],
+            isSignificant: adjustedLR[index] < alpha,
+        })),
+        covariateTerms,
+        crudeGroupTest: likelihoodRatioTest(crude, interceptOnly, comparisonGroups.length),
+        adjustedGroupTest: likelihoodRatioTest(adjusted, covariatesOnly, comparisonGroups.length),
+        converged: crude.converged && adjusted.converged,
+        separation: [...crude.coefficients, ...adjusted.coefficients].some(b => Math.abs(b) > LOGISTIC_SEPARATION_BOUND),
+    };
+}
+
+// Default number of bootstrap replicates, and the fewest for which BCa endpoints are reasonably stable
+const BOOTSTRAP_DEFAULT_REPLICATES = 2000;
+const BOOTSTRAP_MIN_RECOMMENDED_REPLICATES = 1000;
+
+/**
+ * Draws one value from a binomial distribution by inversion, searching outwards from the mode
+ * as in sampleHypergeometric.
+ */
+function sampleBinomial(trials: number, probability: number, random: () => number): number {
+    if (trials === 0 || probability <= 0) return 0;
+    if (probability >= 1) return trials;
+
+    const mode = Math.min(trials, Math.floor((trials + 1) * probability));
+    const modeProbability = Math.exp(
+        logChoose(trials, mode) + mode * Math.log(probability) + (trials - mode) * Math.log1p(-probability)
+    );
+    const odds = probability / (1 - probability);
+
+    let u = random() - modeProbability;
+    if (u <= 0) return mode;
+
+    let up = mode, down = mode;
+    let pUp = modeProbability, pDown = modeProbability;
+    while (up < trials || down > 0) {
+        if (up < trials) {
+            pUp *= ((trials - up) / (up + 1)) * odds;
+            up++;
+            u -= pUp;
+            if (u <= 0) return up;
+        }
+        if (down > 0) {
+            pDown *= down / ((trials - down + 1) * odds);
+            down--;
+            u -= pDown;
+            if (u <= 0) return down;
+        }
+    }
+    return mode; // Only reached through floating point round-off
+}
+
+/**
+ * Draws cell counts from a multinomial distribution as a sequence of conditional binomials.
+ */
+function sampleMultinomial(trials: number, probabilities: number[], random: () => number): number[] {
+    const counts = new Array<number>(probabilities.length).fill(0);
+    let remaining = trials;
+    let remainingProbability = 1;
+    for (let c = 0; c < probabilities.length && remaining > 0; c++) {
+        if (c === probabilities.length - 1) {
+            counts[c] = remaining;
+            break;
+        }
+        const conditional = remainingProbability > 0 ? Math.min(1, probabilities[c] / remainingProbability) : 1;
+        counts[c] = sampleBinomial(remaining, conditional, random);
+        remaining -= counts[c];
+        remainingProbability -= probabilities[c];
+    }
+    return counts;
+}
+
+/**
+ * The statistics the bootstrap summarises, as one vector: the impact ratio of every group against
+ * the comparator, the risk difference of every pair (percentage points), Cramér's V, then every
+ * group's rank by rate (1 = highest, ties averaged). Undefined entries are NaN; the ranks are
+ * undefined when any group has no observations.
+ */
+function bootstrapStatistics(experienced: number[], totals: number[], comparatorIndex: number): number[] {
+    const rates = totals.map((n, i) => (n > 0 ? experienced[i] / n : NaN));
+    const comparatorRate = rates[comparatorIndex];
+    const values = rates.map(rate => (comparatorRate > 0 ? rate / comparatorRate : NaN));
+
+    for (let i = 0; i < rates.length; i++) {
+        for (let j = i + 1; j < rates.length; j++) {
+            values.push((rates[i] - rates[j]) * 100);
+        }
+    }
+
+    const grandTotal = totals.reduce((sum, n) => sum + n, 0);
+    const totalExperienced = experienced.reduce((sum, x) => sum + x, 0);
+    values.push(totalExperienced > 0 && totalExperienced < grandTotal
+        ? Math.sqrt(pearsonChiSquareKx2(experienced, totals, totalExperienced) / grandTotal)
+        : NaN);
+
+    const rankable = rates.every(rate => !isNaN(rate));
+    rates.forEach(rate => {
+        if (!rankable) {
+            values.push(NaN);
+            return;
+        }
+        const higher = rates.filter(other => other > rate).length;
+        const tied = rates.filter(other => other === rate).length; // Includes the group itself
+        values.push(higher + (tied + 1) / 2);
+    });
+    return values;
+}
+
+/**
+ * Quantile of sorted values by linear interpolation between order statistics (R's type 7).
+ */
+function quantileSorted(sorted: number[], probability: number): number {
+    const position = (sorted.length - 1) * Math.min(1, Math.max(0, probability));
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, sorted.length - 1);
+    return sorted[lower] + (position - lower) * (sorted[upper] - sorted[lower]);
+}
+
+/**
+ * Percentile and BCa intervals of one statistic from its bootstrap replicates. The BCa bias
+ * correction counts ties with the estimate as half below; the acceleration comes from the
+ * jackknife values, each weighted by the number of observations whose removal gives it.
+ */
+function bootstrapInterval(
+    estimate: number,
+    replicates: number[],
+    jackknife: { value: number; weight: number }[],
+    confidenceLevel: number
+): BootstrapInterval {
+    const sorted = replicates.filter(value => !isNaN(value)).sort((a, b) => a - b);
+    const validReplicates = sorted.length;
+    if (validReplicates === 0 || isNaN(estimate)) {
+        return { estimate, standardError: NaN, percentile: null, bca: null, validReplicates };
+    }
+
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / validReplicates;
+    const standardError = validReplicates > 1
+        ? Math.sqrt(sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (validReplicates - 1))
+        : NaN;
+    const tail = (1 - confidenceLevel) / 2;
+    const percentile = { lower: quantileSorted(sorted, tail), upper: quantileSorted(sorted, 1 - tail) };
+
+    let bca: ConfidenceInterval | null = null;
+    const below = sorted.filter(value => value < estimate).length;
+    const equal = sorted.filter(value => value === estimate).length;
+    const proportionBelow = (below + equal / 2) / validReplicates;
+    if (proportionBelow > 0 && proportionBelow < 1 && jackknife.every(j => isFinite(j.value))) {
+        const biasCorrection = jStat.normal.inv(proportionBelow, 0, 1);
+        const totalWeight = jackknife.reduce((sum, j) => sum + j.weight, 0);
+        const jackknifeMean = jackknife.reduce((sum, j) => sum + j.weight * j.value, 0) / totalWeight;
+        let skewSum = 0;
+        let squareSum = 0;
+        jackknife.forEach(j => {
+            const deviation = jackknifeMean - j.value;
+            skewSum += j.weight * deviation ** 3;
+            squareSum += j.weight * deviation ** 2;
+        });
+        const acceleration = squareSum > 0 ? skewSum / (6 * squareSum ** 1.5) : 0;
+        const adjustedLevel = (z: number) => {
+            const shifted = biasCorrection + z;
+            const denominator = 1 - acceleration * shifted;
+            return denominator > 0 ? jStat.normal.cdf(biasCorrection + shifted / denominator, 0, 1) : NaN;
+        };
+        const lowerLevel = adjustedLevel(jStat.normal.inv(tail, 0, 1));
+        const upperLevel = adjustedLevel(jStat.normal.inv(1 - tail, 0, 1));
+        if (isFinite(lowerLevel) && isFinite(upperLevel)) {
+            bca = { lower: quantileSorted(sorted, lowerLevel), upper: quantileSorted(sorted, upperLevel) };
+        }
+    }
+
+    return { estimate, standardError, percentile, bca, validReplicates };
+}
+
+/**
+ * Seeded bootstrap intervals for statistics without a convenient closed-form interval: impact
+ * ratios, risk differences, Cramér's V and the ranking of the groups by rate. With row-level
+ * records, the records are drawn with replacement (nonparametric); otherwise the k×2 table is
+ * drawn from a multinomial with the observed cell proportions (parametric). The impact ratio
+ * comparator defaults to the group with the highest observed rate and is fixed across replicates.
+ * Groups without observations are left out. Returns null with fewer than two groups with
+ * observations, or when the comparator's rate is zero.
+ */
+export function calculateBootstrapIntervals(
+    groups: GroupInput[],
+    options: BootstrapOptions,
+    confidenceLevel: number,
+    comparatorGroup?: string,
+    rowLevel?: RowLevelInputs
+): BootstrapResults | null {
+    const validGroups = groups.filter(g => g.experienced + g.notExperienced > 0);
+    if (validGroups.length < 2) return null;
+    const experienced = validGroups.map(g => g.experienced);
+    const totals = validGroups.map(g => g.experienced + g.notExperienced);
+    const grandTotal = totals.reduce((sum, n) => sum + n, 0);
+
+    const comparatorIndex = comparatorGroup
+        ? validGroups.findIndex(g => g.name === comparatorGroup)
+        : totals.reduce((best, n, i) => (experienced[i] / n > experienced[best] / totals[best] ? i : best), 0);
+    if (comparatorIndex < 0 || experienced[comparatorIndex] === 0) return null;
+
+    const replicates = options.replicates ?? BOOTSTRAP_DEFAULT_REPLICATES;
+    const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+    const random = createSeededRandom(seed);
+    const method: BootstrapMethod = rowLevel ? 'nonparametric' : 'parametric';
+
+    const observed = bootstrapStatistics(experienced, totals, comparatorIndex);
+    const samples: number[][] = observed.map(() => []);
+
+    // Cells in the order group 1 experienced, group 1 not experienced, group 2 experienced, ...
+    const cellProbabilities = totals.flatMap((n, i) => [experienced[i] / grandTotal, (n - experienced[i]) / grandTotal]);
+    const groupIndex = new Map(validGroups.map((g, i) => [g.name, i]));
+    const records = rowLevel?.records ?? [];
+    const recordGroups = records.map(r => groupIndex.get(r.group) ?? -1);
+
+    for (let b = 0; b < replicates; b++) {
+        const resampledExperienced = new Array<number>(validGroups.length).fill(0);
+        const resampledTotals = new Array<number>(validGroups.length).fill(0);
+        if (rowLevel) {
+            for (let n = 0; n < records.length; n++) {
+                const index = Math.floor(random() * records.length);
+                const group = recordGroups[index];
+                if (group < 0) continue;
+                resampledTotals[group]++;
+                if (records[index].experienced) resampledExperienced[group]++;
+            }
+        } else {
+            const cells = sampleMultinomial(grandTotal, cellProbabilities, random);
+            for (let i = 0; i < validGroups.length; i++) {
+                resampledExperienced[i] = cells[2 * i];
+                resampledTotals[i] = cells[2 * i] + cells[2 * i + 1];
+            }
+        }
+        bootstrapStatistics(resampledExperienced, resampledTotals, comparatorIndex).forEach((value, s) => samples[s].push(value));
+    }
+
+    // Leaving out one observation gives one of at most 2k distinct tables
+    const jackknife: { values: number[]; weight: number }[] = [];
+    validGroups.forEach((_, i) => {
+        const withoutOne = (counts: number[]) => counts.map((count, j) => (j === i ? count - 1 : count));
+        if (experienced[i] > 0) {
+            jackknife.push({ weight: experienced[i], values: bootstrapStatistics(withoutOne(experienced), withoutOne(totals), comparatorIndex) });
+        }
+        if (totals[i] > experienced[i]) {
+            jackknife.push({ weight: totals[i] - experienced[i], values: bootstrapStatistics(experienced, withoutOne(totals), comparatorIndex) });
+        }
+    });
+    const intervalAt = (s: number) => bootstrapInterval(
+        observed[s],
+        samples[s],
+        jackknife.map(j => ({ value: j.values[s], weight: j.weight })),
+        confidenceLevel
+    );
+
+    let s = 0;
+    const impactRatios: BootstrapImpactRatio[] = validGroups.map(g => ({ group: g.name, ...intervalAt(s++) }));
+    const riskDifferences: BootstrapRiskDifference[] = [];
+    for (let i = 0; i < validGroups.length; i++) {
+        for (let j = i + 1; j < validGroups.length; j++) {
+            riskDifferences.push({ group1: validGroups[i].name, group2: validGroups[j].name, ...intervalAt(s++) });
+        }
+    }
+    const cramersV = intervalAt(s++);
+    const rankings: BootstrapRank[] = validGroups.map(g => {
+        const ranks = samples[s].filter(rank => !isNaN(rank));
+        const interval = intervalAt(s++);
+        return {
+            group: g.name,
+            ...interval,
+            probabilityHighest: ranks.length > 0 ? ranks.filter(rank => rank === 1).length / ranks.length : NaN,
+        };
+    });
+
+    return {
+        method,
+        replicates,
+        seed,
+        confidenceLevel,
+        impactComparator: validGroups[comparatorIndex].name,
+        impactRatios,
+        riskDifferences,
+        cramersV,
+        rankings,
+    };
+}
+
+/**
+ * Equivalence tests (two one-sided tests, TOST) for every pair of groups, group1 relative to group2.
+ * A pair is equivalent when both one-sided tests reject an effect at or beyond the margins, and
+ * different when the effect lies significantly beyond a margin; otherwise it is inconclusive. Each
+ * family of p-values is corrected across the pairs with the selected method. Differences use the
+ * Agresti-Caffo interval (one outcome of each kind added to each group); ratios use the log
+ * interval, with 0.5 added to every cell of a pair that has a group with no outcomes.
+ */
+export function calculateEquivalenceTests(
+    groups: GroupInput[],
+    options: EquivalenceOptions,
+    alpha: number,
+    correction: CorrectionMethod
+): EquivalenceResults {
+    const scale = options.scale ?? 'difference';
+    const margin = options.margin ?? (scale === 'ratio' ? 0.8 : 5);
+    const lowerMargin = scale === 'ratio' ? margin : -margin;
+    const upperMargin = scale === 'ratio' ? 1 / margin : margin;
+    // Tests run on the log scale for ratios
+    const toTestScale = (value: number) => (scale === 'ratio' ? Math.log(value) : value);
+    const fromTestScale = (value: number) => (scale === 'ratio' ? Math.exp(value) : value);
+    const normalCdf = (z: number) => (z === Infinity ? 1 : z === -Infinity ? 0 : jStat.normal.cdf(z, 0, 1));
+    const zCritical = jStat.normal.inv(1 - alpha, 0, 1);
+
+    const matrix: EquivalenceMatrix = {};
+    groups.forEach(row => {
+        matrix[row.name] = {};
+        groups.forEach(col => { matrix[row.name][col.name] = null; });
+    });
+
+    const rawPairs: Omit<EquivalencePairResult, 'pValueEquivalenceCorrected' | 'pValueDifferenceCorrected' | 'verdict'>[] = [];
+    for (let i = 0; i < groups.length; i++) {
+        for (let j = i + 1; j < groups.length; j++) {
+            const g1 = groups[i];
+            const g2 = groups[j];
+            const n1 = g1.experienced + g1.notExperienced;
+            const n2 = g2.experienced + g2.notExperienced;
+            if (n1 === 0 || n2 === 0) continue;
+
+            let estimate: number;
+            let center: number;
+            let se: number;
+            let zeroCellCorrected = false;
+            if (scale === 'ratio') {
+                zeroCellCorrected = g1.experienced === 0 || g2.experienced === 0;
+                const offset = zeroCellCorrected ? 0.5 : 0;
+                const x1 = g1.experienced + offset, x2 = g2.experienced + offset;
+                const t1 = n1 + 2 * offset, t2 = n2 + 2 * offset;
+                center = Math.log((x1 / t1) / (x2 / t2));
+                se = Math.sqrt(1 / x1 - 1 / t1 + 1 / x2 - 1 / t2);
+                estimate = Math.exp(center);
+            } else {
+                const p1 = (g1.experienced + 1) / (n1 + 2);
+                const p2 = (g2.experienced + 1) / (n2 + 2);
+                center = (p1 - p2) * 100;
+                se = 100 * Math.sqrt((p1 * (1 - p1)) / (n1 + 2) + (p2 * (1 - p2)) / (n2 + 2));
+                estimate = (g1.experienced / n1 - g2.experienced / n2) * 100;
+            }
+
+            const zLower = (center - toTestScale(lowerMargin)) / se;
+            const zUpper = (center - toTestScale(upperMargin)) / se;
+            const pValueLower = 1 - normalCdf(zLower);
+            const pValueUpper = normalCdf(zUpper);
+            rawPairs.push({
+                group1: g1.name,
+                group2: g2.name,
+                estimate,
+                ci: { lower: fromTestScale(center - zCritical * se), upper: fromTestScale(center + zCritical * se) },
+                zeroCellCorrected,
+                pValueLower,
+                pValueUpper,
+                pValueEquivalence: Math.max(pValueLower, pValueUpper),
+                pValueDifference: Math.min(1, 2 * Math.min(normalCdf(zLower), 1 - normalCdf(zUpper))),
+            });
+        }
+    }
+
+    const equivalenceCorrected = adjustPValues(rawPairs.map(pair => pair.pValueEquivalence), correction);
+    const differenceCorrected = adjustPValues(rawPairs.map(pair => pair.pValueDifference), correction);
+    const pairs: EquivalencePairResult[] = rawPairs.map((pair, index) => {
+        const verdict: EquivalenceVerdict = equivalenceCorrected[index] < alpha
+            ? 'equivalent'
+            : differenceCorrected[index] < alpha ? 'different' : 'inconclusive';
+        matrix[pair.group1][pair.group2] = verdict;
+        matrix[pair.group2][pair.group1] = verdict;
+        return {
+            ...pair,
+            pValueEquivalenceCorrected: equivalenceCorrected[index],
+            pValueDifferenceCorrected: differenceCorrected[index],
+            verdict,
+        };
+    });
+
+    return { scale, margin, lowerMargin, upperMargin, pairs, matrix };
+}
+
+/**
+ * Human-readable label for an equivalence verdict.
+ */
+export function equivalenceVerdictLabel(verdict: EquivalenceVerdict): string {
+    switch (verdict) {
+        case 'equivalent': return 'Equivalent';
+        case 'different': return 'Different';
+        case 'inconclusive': return 'Inconclusive';
+    }
+}
+
+/**
+ * Exact binomial test of x successes in n trials against success probability p: the two-sided
+ * p-value sums the probabilities of all counts no more likely than x (same convention as R's
+ * binom.test), and the lower tail is P(X ≤ x).
+ */
+function exactBinomialTest(x: number, n: number, p: number): { twoSided: number; lower: number } {
+    const logP = Math.log(p);
+    const logQ = Math.log(1 - p);
+    const probability = (k: number) => Math.exp(logChoose(n, k) + k * logP + (n - k) * logQ);
+
+    // Relative tolerance guards against floating point ties with the observed count
+    const observedProbability = probability(x) * (1 + 1e-7);
+    let twoSided = 0;
+    let lower = 0;
+    for (let k = 0; k <= n; k++) {
+        const pk = probability(k);
+        if (k <= x) lower += pk;
+        if (pk <= observedProbability) twoSided += pk;
+    }
+    return { twoSided: Math.min(1, twoSided), lower: Math.min(1, lower) };
+}
+
+/**
+ * Utilization analysis: compares each group's outcomes with the count expected if outcomes were
+ * shared out in proportion to the groups' benchmarks (e.g. labor-market availability), using the
+ * exact binomial test and its normal approximation, plus a Chi-square goodness-of-fit test across
+ * all groups. Benchmarks that do not sum to 1 are rescaled. The exact two-sided p-values are
+ * corrected across the groups with the selected method. Returns null when there are no outcomes.
+ */
+export function calculateUtilizationAnalysis(
+    groups: GroupInput[],
+    alpha: number,
+    correction: CorrectionMethod
+): UtilizationResults | null {
+    const totalOutcomes = groups.reduce((sum, g) => sum + g.experienced, 0);
+    if (totalOutcomes === 0) return null;
+    const benchmarkTotal = groups.reduce((sum, g) => sum + (g.benchmark ?? 0), 0);
+
+    const rawGroups = groups.map(g => {
+        const share = (g.benchmark ?? 0) / benchmarkTotal;
+        const expected = totalOutcomes * share;
+        const sd = Math.sqrt(totalOutcomes * share * (1 - share));
+        const zStatistic = sd > 0 ? (g.experienced - expected) / sd : 0;
+        const exact = exactBinomialTest(g.experienced, totalOutcomes, share);
+        return {
+            group: g.name,
+            benchmark: g.benchmark ?? 0,
+            expectedShare: share * 100,
+            observed: g.experienced,
+            observedShare: (g.experienced / totalOutcomes) * 100,
+            expected,
+            // Tolerance keeps an observed count equal to the expected one from rounding up to a shortfall
+            shortfall: Math.max(0, Math.ceil(expected - g.experienced - 1e-9)),
+            zStatistic,
+            zPValue: 2 * (1 - jStat.normal.cdf(Math.abs(zStatistic), 0, 1)),
+            exactPValue: exact.twoSided,
+            exactPValueBelow: exact.lower,
+        };
+    });
+
+    const adjusted = adjustPValues(rawGroups.map(g => g.exactPValue), correction);
+    const results: UtilizationGroupResult[] = rawGroups.map((g, index) => ({
+        ...g,
+        exactPValueCorrected: adjusted[index],
+        verdict: adjusted[index] >= alpha ? 'none' : g.observed < g.expected ? 'underutilized' : 'overutilized',
+    }));
+
+    const statistic = rawGroups.reduce((sum, g) => sum + (g.observed - g.expected) ** 2 / g.expected, 0);
+    const degreesOfFreedom = groups.length - 1;
+
+    return {
+        totalOutcomes,
+        benchmarkTotal,
+        groups: results,
+        goodnessOfFit: { statistic, degreesOfFreedom, pValue: chiSquarePValue(statistic, degreesOfFreedom) },
+        totalShortfall: results.reduce((sum, g) => sum + g.shortfall, 0),
+    };
+}
+
+/**
+ * Human-readable label for a utilization verdict.
+ */
+export function utilizationVerdictLabel(verdict: UtilizationVerdict): string {
+    switch (verdict) {
+        case 'underutilized': return 'Underutilized';
+        case 'overutilized': return 'Overutilized';
+        case 'none': return 'Not significant';
+    }
+}
+
+/**
+ * Outcome changes that bring a group of the given size to a target rate (a proportion): the
+ * smallest number of additional outcomes (positive) or outcomes fewer (negative) after which the
+ * group's rate is at least, or at most, the target.
+ */
+function outcomesToReachRate(experienced: number, total: number, targetRate: number): number {
+    const gap = total * targetRate - experienced;
+    // Tolerance keeps a group already at the target from rounding to one change
+    if (Math.abs(gap) < 1e-9) return 0;
+    return gap > 0 ? Math.ceil(gap - 1e-9) : -Math.ceil(-gap - 1e-9);
+}
+
+/**
+ * Smallest number of changes in 1..maxChanges after which a comparison is no longer significant,
+ * found by making the changes one at a time: discrete tests and stepwise corrections need not lose
+ * significance monotonically, so the first crossing is not found by bisection. Returns null when it
+ * is still significant after every one of the maxChanges changes.
+ */
+function smallestChangeLosingSignificance(maxChanges: number, stillSignificant: (changes: number) => boolean): number | null {
+    for (let changes = 1; changes <= maxChanges; changes++) {
+        if (!stillSignificant(changes)) return changes;
+    }
+    return null;
+}
+
+/**
+ * Parity gap (shortfall) analysis: how many outcomes each group would have needed, more or fewer,
+ * to match the overall rate, and each comparison group to match its reference group's rate, with
+ * the other groups' counts held fixed. For significant reference comparisons it also finds how many
+ * of those changes it takes before the comparison stops being significant, using the same test and
+ * re-adjusting the reference family's p-values with the selected correction. Groups with a significant
+ * adjusted residual get the same count against their residual test; since the overall rate moves with
+ * the group, the search runs up to the rate of the other groups combined, where the residual is zero.
+ */
+export function calculateParityGaps(
+    summary: ContingencySummaryData[],
+    referenceComparisons: ReferenceComparison[],
+    alpha: number,
+    correction: CorrectionMethod,
+    pairwiseMethod: PairwiseTestMethod,
+    fisherAlternative: FisherAlternative
+): ParityGapResults {
+    const grandTotal = summary.reduce((sum, g) => sum + g.rowTotal, 0);
+    const overallRate = grandTotal > 0 ? summary.reduce((sum, g) => sum + g.experienced, 0) / grandTotal : 0;
+
+    const totalExperienced = summary.reduce((sum, g) => sum + g.experienced, 0);
+    const residualFamily = summary.filter(g => g.adjustedResidualPValue !== null);
+    const residualPValues = residualFamily.map(g => g.adjustedResidualPValue as number);
+    const groups: ParityGapGroupResult[] = summary.map(g => {
+        let changesToNonSignificance: number | null = null;
+        const familyIndex = residualFamily.indexOf(g);
+        if (g.adjustedResidualSignificant && familyIndex >= 0 && grandTotal > g.rowTotal) {
+            const otherRate = (totalExperienced - g.experienced) / (grandTotal - g.rowTotal);
+            const outcomesToOtherRate = outcomesToReachRate(g.experienced, g.rowTotal, otherRate);
+            const direction = Math.sign(outcomesToOtherRate);
+            changesToNonSignificance = smallestChangeLosingSignificance(Math.abs(outcomesToOtherRate), changes => {
+                const experienced = g.experienced + direction * changes;
+                const columnTotal = totalExperienced + direction * changes;
+                const expected = (g.rowTotal * columnTotal) / grandTotal;
+                const residual = calculateAdjustedResidual(experienced, expected, g.rowTotal, columnTotal, grandTotal);
+                const pValues = [...residualPValues];
+                pValues[familyIndex] = isFinite(residual) ? 2 * (1 - jStat.normal.cdf(Math.abs(residual), 0, 1)) : NaN;
+                return adjustPValues(pValues, correction)[familyIndex] < alpha;
+            });
+        }
+        return {
+            group: g.name,
+            rate: g.percentExperienced,
+            outcomesToOverallRate: outcomesToReachRate(g.experienced, g.rowTotal, overallRate),
+            isSignificant: g.adjustedResidualSignificant,
+            changesToNonSignificance,
+        };
+    });
+
+    const familyPValues = referenceComparisons.map(c => c.pValueRaw);
+    const pairs: ParityGapPairResult[] = referenceComparisons.map((comparison, index) => {
+        const group = summary.find(g => g.name === comparison.comparisonGroup)!;
+        const reference = summary.find(g => g.name === comparison.referenceGroup)!;
+        const referenceRate = reference.rowTotal > 0 ? reference.experienced / reference.rowTotal : NaN;
+        const outcomesToReferenceRate = isNaN(referenceRate) || group.rowTotal === 0
+            ? 0
+            : outcomesToReachRate(group.experienced, group.rowTotal, referenceRate);
+
+        let changesToNonSignificance: number | null = null;
+        if (comparison.isSignificant) {
+            const direction = Math.sign(outcomesToReferenceRate);
+            changesToNonSignificance = smallestChangeLosingSignificance(Math.abs(outcomesToReferenceRate), changes => {
+                const shifted: GroupInput = {
+                    ...group,
+                    experienced: group.experienced + direction * changes,
+                    notExperienced: group.notExperienced - direction * changes,
+                };
+                const pValues = [...familyPValues];
+                pValues[index] = runPairwiseTest(shifted, reference, pairwiseMethod, fisherAlternative).pValue;
+                return adjustPValues(pValues, correction)[index] < alpha;
+            });
+        }
+
+        return {
+            referenceGroup: comparison.referenceGroup,
+            comparisonGroup: comparison.comparisonGroup,
+            rateDifference: comparison.rateDifference,
+            outcomesToReferenceRate,
+            isSignificant: comparison.isSignificant,
+            changesToNonSignificance,
+        };
+    });
+
+    return {
+        overallRate: overallRate * 100,
+        groups,
+        pairs,
+        totals: {
+            additionalToOverallRate: groups.reduce((sum, g) => sum + Math.max(0, g.outcomesToOverallRate), 0),
+            fewerToOverallRate: groups.reduce((sum, g) => sum + Math.max(0, -g.outcomesToOverallRate), 0),
+            additionalToReferenceRate: pairs.reduce((sum, p) => sum + Math.max(0, p.outcomesToReferenceRate), 0),
+            fewerToReferenceRate: pairs.reduce((sum, p) => sum + Math.max(0, -p.outcomesToReferenceRate), 0),
+            changesToNonSignificance: pairs.reduce((sum, p) => sum + (p.changesToNonSignificance ?? 0), 0),
+            groupChangesToNonSignificance: groups.reduce((sum, g) => sum + (g.changesToNonSignificance ?? 0), 0),
+        },
+    };
+}
+
+// Pairwise method and Fisher alternative that reproduce the test applied to a pair
+function pairwiseTestSettings(test: AppliedPairwiseTest): { method: PairwiseTestMethod; alternative: FisherAlternative } {
+    switch (test) {
+        case 'chiSquare': return { method: 'chiSquare', alternative: 'two-sided' };
+        case 'fisherTwoSided': return { method: 'fisher', alternative: 'two-sided' };
+        case 'fisherLess': return { method: 'fisher', alternative: 'less' };
+        case 'fisherGreater': return { method: 'fisher', alternative: 'greater' };
+    }
+}
+
+/**
+ * Fragility index of a significant pairwise comparison: the fewest outcome flips in the smaller
+ * group (by total), toward the other group's rate, after which the comparison's corrected p-value
+ * is no longer below alpha. The test applied to the pair is kept, and the family of raw p-values is
+ * re-adjusted with the flipped pair's p-value in place. Null when flips up to the other group's
+ * rate do not suffice.
+ */
+function pairFragilityIndex(
+    group1: GroupInput,
+    group2: GroupInput,
+    testUsed: AppliedPairwiseTest,
+    familyPValues: number[],
+    index: number,
+    alpha: number,
+    correction: CorrectionMethod
+): number | null {
+    const total1 = group1.experienced + group1.notExperienced;
+    const total2 = group2.experienced + group2.notExperienced;
+    const flipFirst = total1 <= total2;
+    const flipped = flipFirst ? group1 : group2;
+    const other = flipFirst ? group2 : group1;
+    const toOtherRate = outcomesToReachRate(flipped.experienced, flipFirst ? total1 : total2, other.experienced / (flipFirst ? total2 : total1));
+    const direction = Math.sign(toOtherRate);
+    const { method, alternative } = pairwiseTestSettings(testUsed);
+
+    return smallestChangeLosingSignificance(Math.abs(toOtherRate), flips => {
+        const shifted: GroupInput = {
+            ...flipped,
+            experienced: flipped.experienced + direction * flips,
+            notExperienced: flipped.notExperienced - direction * flips,
+        };
+        const pValues = [...familyPValues];
+        pValues[index] = (flipFirst
+            ? runPairwiseTest(shifted, other, method, alternative)
+            : runPairwiseTest(other, shifted, method, alternative)).pValue;
+        return adjustPValues(pValues, correction)[index] < alpha;
+    });
+}
+
+/**
+ * Fragility index of a significant Pearson test of the k×2 table: the number of outcome flips
+ * after which the test is no longer significant at alpha. Flips are chosen greedily, one at a time,
+ * in whichever group the flip lowers the statistic most, so the count is an upper bound on the
+ * fewest flips possible. Null when no flip lowers the statistic before it is non-significant.
+ */
+function overallFragilityIndex(experienced: number[], rowTotals: number[], degreesOfFreedom: number, alpha: number): number | null {
+    const critical = jStat.chisquare.inv(1 - alpha, degreesOfFreedom);
+    const current = [...experienced];
+    let totalExperienced = current.reduce((sum, x) => sum + x, 0);
+    let statistic = pearsonChiSquareKx2(current, rowTotals, totalExperienced);
+    let flips = 0;
+    while (statistic >= critical) {
+        let best: { index: number; direction: number; statistic: number } | null = null;
+        for (let i = 0; i < current.length; i++) {
+            for (const direction of [1, -1]) {
+                const x = current[i] + direction;
+                if (x < 0 || x > rowTotals[i]) continue;
+                current[i] = x;
+                const candidate = pearsonChiSquareKx2(current, rowTotals, totalExperienced + direction);
+                current[i] -= direction;
+                if (candidate < statistic && (!best || candidate < best.statistic)) best = { index: i, direction, statistic: candidate };
+            }
+        }
+        if (!best) return null;
+        current[best.index] += best.direction;
+        totalExperienced += best.direction;
+        statistic = best.statistic;
+        flips++;
+    }
+    return flips;
+}
+
+// --- Main Calculation Function ---
+
+export function performMultiComparisonReport(inputs: MultiComparisonInputs): MultiComparisonResults {
+    const {
+        alpha,
+        groups: inputGroups,
+        referenceGroups = [],
+        pairwiseMethod = 'chiSquare',
+        fisherAlternative = 'two-sided',
+        correction = 'bonferroni',
+        confidenceLevel = 0.95,
+        rateCiMethod = 'wilson',
+        haldaneCorrection = false,
+        adverseImpact: adverseImpactOptions,
+        exactOverallTest = false,
+        monteCarloReplicates = 0,
+        monteCarloSeed,
+        orderedCategories = false,
+        differenceOfInterest = 5,
+        strata,
+        outcomeLabels,
+        focusOutcome,
+        bayesian: bayesianOptions,
+        rowLevel,
+        bootstrap: bootstrapOptions,
+        equivalence: equivalenceOptions,
+        utilization: utilizationEnabled = false,
+        parityGap: parityGapEnabled = false,
+        fragilityThreshold = 5
+    } = inputs;
+    const errors: string[] = [];
+
+    // With outcome levels, the binary sections compare the focus level with all others
+    const focusIndex = outcomeLabels ? Math.max(0, focusOutcome === undefined ? 0 : outcomeLabels.indexOf(focusOutcome)) : 0;
+    const groups: GroupInput[] = outcomeLabels
+        ? inputGroups.map(g => {
+            const counts = g.outcomeCounts ?? [];
+            const experienced = counts[focusIndex] ?? 0;
+            return { ...g, experienced, notExperienced: counts.reduce((sum, n) => sum + n, 0) - experienced };
+        })
+        : inputGroups;
+    const numGroups = groups.length;
+
+    // --- Basic Input Validations ---
+    if (numGroups < 2) {
+        errors.push("At least two groups are required for comparison.");
+    }
+    if (alpha <= 0 || alpha > 1) { // Allow alpha = 1, but not > 1
+        errors.push("Significance level (alpha) must be greater than 0 and less than or equal to 1.");
+    }
+    groups.forEach((group, index) => {
+        if (!group.name || group.name.trim() === "") {
+            errors.push(`Group ${index + 1} has an empty name.`);
+        }
+        if (group.experienced < 0 || group.notExperienced < 0 || !Number.isInteger(group.experienced) || !Number.isInteger(group.notExperienced)) {
+            errors.push(`Counts for group "${group.name}" must be non-negative integers.`);
+        }
+    });
+    if (orderedCategories) {
+        groups.forEach(group => {
+            if (group.score !== undefined && !isFinite(group.score)) {
+                errors.push(`Trend score for group "${group.name}" must be a finite number.`);
+            }
+        });
+    }
+    if (strata && strata.length > 0) {
+        strata.forEach((stratum, stratumIndex) => {
+            if (!stratum.name || stratum.name.trim() === "") {
+                errors.push(`Stratum ${stratumIndex + 1} has an empty name.`);
+            }
+            if (stratum.groups.length !== numGroups || stratum.groups.some((g, i) => g.name !== groups[i].name)) {
+                errors.push(`Stratum "${stratum.name}" must list the same groups, in the same order, as the input.`);
+                return;
+            }
+            stratum.groups.forEach(g => {
+                if (g.experienced < 0 || g.notExperienced < 0 || !Number.isInteger(g.experienced) || !Number.isInteger(g.notExperienced)) {
+                    errors.push(`Counts for group "${g.name}" in stratum "${stratum.name}" must be non-negative integers.`);
+                }
+            });
+        });
+        groups.forEach((group, index) => {
+            const experienced = strata.reduce((sum, s) => sum + (s.groups[index]?.experienced ?? 0), 0);
+            const notExperienced = strata.reduce((sum, s) => sum + (s.groups[index]?.notExperienced ?? 0), 0);
+            if (experienced !== group.experienced || notExperienced !== group.notExperienced) {
+                errors.push(`Counts for group "${group.name}" do not match the sum of its stratum counts.`);
+            }
+        });
+    }
+    if (outcomeLabels) {
+        if (outcomeLabels.length < 2) {
+            errors.push("At least two outcome levels are required.");
+        }
+        outcomeLabels.forEach((label, index) => {
+            if (!label || label.trim() === "") {
+                errors.push(`Outcome level ${index + 1} has an empty label.`);
+            }
+        });
+        if (new Set(outcomeLabels).size !== outcomeLabels.length) {
+            errors.push("Outcome level labels must be unique.");
+        }
+        if (focusOutcome !== undefined && !outcomeLabels.includes(focusOutcome)) {
+            errors.push(`Focus outcome "${focusOutcome}" does not match any outcome level.`);
+        }
+        inputGroups.forEach(group => {
+            const counts = group.outcomeCounts;
+            if (!counts || counts.length !== outcomeLabels.length) {
+                errors.push(`Group "${group.name}" must have one count per outcome level.`);
+            } else if (counts.some(n => n < 0 || !Number.isInteger(n))) {
+                errors.push(`Outcome counts for group "${group.name}" must be non-negative integers.`);
+            }
+        });
+        if (strata && strata.length > 0) {
+            errors.push("The stratified analysis requires a binary outcome.");
+        }
+    }
+    if (bayesianOptions) {
+        const { priorAlpha, priorBeta, ratioThreshold } = bayesianOptions;
+        if ((priorAlpha !== undefined && !(priorAlpha > 0)) || (priorBeta !== undefined && !(priorBeta > 0))) {
+            errors.push("Beta prior parameters must be greater than 0.");
+        }
+        if (ratioThreshold !== undefined && !(ratioThreshold > 0)) {
+            errors.push("Bayesian ratio threshold must be greater than 0.");
+        }
+    }
+    if (rowLevel) {
+        const unknownGroups = Array.from(new Set(rowLevel.records.map(r => r.group))).filter(name => !groups.some(g => g.name === name));
+        unknownGroups.forEach(name => errors.push(`Row-level group "${name}" does not match any group.`));
+        groups.forEach(group => {
+            const groupRecords = rowLevel.records.filter(r => r.group === group.name);
+            const experienced = groupRecords.filter(r => r.experienced).length;
+            if (experienced !== group.experienced || groupRecords.length - experienced !== group.notExperienced) {
+                errors.push(`Counts for group "${group.name}" do not match its row-level records.`);
+            }
+        });
+        if (rowLevel.referenceGroup && !groups.some(g => g.name === rowLevel.referenceGroup)) {
+            errors.push(`Regression reference group "${rowLevel.referenceGroup}" does not match any group.`);
+        }
     }
-    if (alpha <= 0 || alpha > 1) { // Allow alpha = 1, but not > 1
-        errors.push("Significance level (alpha) must be greater than 0 and less than or equal to 1.");
+    if (bootstrapOptions?.replicates !== undefined && !(Number.isInteger(bootstrapOptions.replicates) && bootstrapOptions.replicates > 0)) {
+        errors.push("Bootstrap replicates must be a positive integer.");
     }
-    groups.forEach((group, index) => {
-        if (!group.name || group.name.trim() === "") {
-            errors.push(`Group ${index + 1} has an empty name.`);
+    if (equivalenceOptions?.margin !== undefined) {
+        const { scale = 'difference', margin } = equivalenceOptions;
+        if (scale === 'ratio' && !(margin > 0 && margin < 1)) {
+            errors.push("Equivalence ratio margin must be greater than 0 and less than 1.");
+        } else if (scale === 'difference' && !(margin > 0 && margin <= 100)) {
+            errors.push("Equivalence margin must be greater than 0 and at most 100 percentage points.");
         }
-        if (group.experienced < 0 || group.notExperienced < 0 || !Number.isInteger(group.experienced) || !Number.isInteger(group.notExperienced)) {
-            errors.push(`Counts for group "${group.name}" must be non-negative integers.`);
+    }
+    if (utilizationEnabled) {
+        groups.forEach(group => {
+            if (group.benchmark === undefined || !(group.benchmark > 0 && group.benchmark <= 1)) {
+                errors.push(`Benchmark for group "${group.name}" must be greater than 0 and at most 1.`);
+            }
+        });
+    }
+    if (!(Number.isInteger(fragilityThreshold) && fragilityThreshold > 0)) {
+        errors.push("Fragility threshold must be a positive integer.");
+    }
+    if (!(differenceOfInterest > 0 && differenceOfInterest <= 100)) {
+        errors.push("Difference of interest must be greater than 0 and at most 100 percentage points.");
+    }
+    if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+        errors.push("Confidence level must be between 0 and 1 (exclusive).");
+    }
+    if (monteCarloReplicates < 0 || !Number.isInteger(monteCarloReplicates)) {
+        errors.push("Monte Carlo replicates must be a non-negative integer.");
+    }
+    referenceGroups.forEach(refName => {
+        if (!groups.some(g => g.name === refName)) {
+            errors.push(`Reference group "${refName}" does not match any group.`);
         }
     });
+    if (adverseImpactOptions) {
+        const { comparatorGroup, threshold } = adverseImpactOptions;
+        if (comparatorGroup && !groups.some(g => g.name === comparatorGroup)) {
+            errors.push(`Adverse impact comparator "${comparatorGroup}" does not match any group.`);
+        }
+        if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+            errors.push("Adverse impact threshold must be greater than 0 and at most 1.");
+        }
+    }
 
     // --- Early Exit if Validation Errors ---
     const initialTotals = {
         grandTotal: 0, totalExperienced: 0, totalNotExperienced: 0,
-        totalExpectedExperienced: 0, totalExpectedNotExperienced: 0, totalChiSquareContributions: 0
+        totalExpectedExperienced: 0, totalExpectedNotExperienced: 0,
+        totalChiSquareContributionsExperienced: 0, totalChiSquareContributionsNotExperienced: 0, totalChiSquareContributions: 0,
+        percentExperiencedCI: null
     };
+    const rateCI = { method: rateCiMethod, confidenceLevel };
     const initialSummary: ContingencySummaryData[] = groups.map(g => ({
-        ...g, rowTotal: g.experienced + g.notExperienced, percentExperienced: 0,
-        expectedExperienced: 0, expectedNotExperienced: 0, chiSquareContribution: null
+        ...g, rowTotal: g.experienced + g.notExperienced, percentExperienced: 0, percentExperiencedCI: null,
+        expectedExperienced: 0, expectedNotExperienced: 0,
+        chiSquareContributionExperienced: null, chiSquareContributionNotExperienced: null, chiSquareContribution: null,
+        pearsonResidual: null, adjustedResidual: null, adjustedResidualPValue: null, adjustedResidualPValueCorrected: null,
+        adjustedResidualSignificant: false,
+        pearsonResidualNotExperienced: null, adjustedResidualNotExperienced: null, adjustedResidualNotExperiencedPValue: null,
+        adjustedResidualNotExperiencedPValueCorrected: null, adjustedResidualNotExperiencedSignificant: false
     }));
 
     if (errors.length > 0) {
@@ -256,6 +3254,21 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
             contingencySummary: initialSummary, // Return empty structure
             overallStats: null,
             pairwiseResultsMatrix: null,
+            pairwiseSignificanceMatrix: null,
+            pairwiseComparisons: null,
+            referenceComparisons: null,
+            adverseImpact: null,
+            stratifiedAnalysis: null,
+            outcomeTable: null,
+            bayesian: null,
+            adjustedDisparity: null,
+            bootstrap: null,
+            equivalence: null,
+            utilization: null,
+            parityGap: null,
+            suppression: null,
+            privacy: null,
+            rateCI,
             totals: initialTotals,
             errors,
             contributions: null,
@@ -269,44 +3282,76 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
 
     if (grandTotal === 0) {
          errors.push("Total number of observations is zero.");
-         return { contingencySummary: initialSummary, overallStats: null, pairwiseResultsMatrix: null, totals: initialTotals, errors, contributions: null };
+         return { contingencySummary: initialSummary, overallStats: null, pairwiseResultsMatrix: null, pairwiseSignificanceMatrix: null, pairwiseComparisons: null, referenceComparisons: null, adverseImpact: null, stratifiedAnalysis: null, outcomeTable: null, bayesian: null, adjustedDisparity: null, bootstrap: null, equivalence: null, utilization: null, parityGap: null, suppression: null, privacy: null, rateCI, totals: initialTotals, errors, contributions: null };
     }
 
-    // Calculate contributions and summary data
-    let totalChiSquareContributions = 0;
+    // Calculate contributions and summary data over every cell of the k×2 table
+    let totalChiSquareContributionsExperienced = 0;
+    let totalChiSquareContributionsNotExperienced = 0;
     const contributionsDetails: ContributionDetail[] = [];
 
     const contingencySummary: ContingencySummaryData[] = groups.map(g => {
         const rowTotal = g.experienced + g.notExperienced;
         let expectedExperienced = 0;
         let expectedNotExperienced = 0;
+        let chiSquareContributionExperienced: number | null = null;
+        let chiSquareContributionNotExperienced: number | null = null;
         let chiSquareContribution: number | null = null;
-        let yatesContribution: number = NaN;
-        let gTestContribution: number = NaN;
+        let pearsonResidual: number | null = null;
+        let adjustedResidual: number | null = null;
+        let pearsonResidualNotExperienced: number | null = null;
+        let adjustedResidualNotExperienced: number | null = null;
 
 
         if (grandTotal > 0 && rowTotal > 0) {
             expectedExperienced = (rowTotal * totalExperienced) / grandTotal;
             expectedNotExperienced = (rowTotal * totalNotExperienced) / grandTotal;
 
-            // Calculate contributions based ONLY on the experienced column (O_i vs E_i)
-            chiSquareContribution = calculateChiSquareContribution(g.experienced, expectedExperienced, false);
-            yatesContribution = calculateChiSquareContribution(g.experienced, expectedExperienced, true);
-            gTestContribution = calculateGTestContribution(g.experienced, expectedExperienced);
+            // Cell contributions for both outcome columns (O_ij vs E_ij)
+            chiSquareContributionExperienced = calculateChiSquareContribution(g.experienced, expectedExperienced, false);
+            chiSquareContributionNotExperienced = calculateChiSquareContribution(g.notExperienced, expectedNotExperienced, false);
+            chiSquareContribution = chiSquareContributionExperienced + chiSquareContributionNotExperienced;
+            const yatesContribExperienced = calculateChiSquareContribution(g.experienced, expectedExperienced, true);
+            const yatesContribNotExperienced = calculateChiSquareContribution(g.notExperienced, expectedNotExperienced, true);
+            const gTestContribExperienced = calculateGTestContribution(g.experienced, expectedExperienced);
+            const gTestContribNotExperienced = calculateGTestContribution(g.notExperienced, expectedNotExperienced);
+            const pearsonResidualExperienced = calculatePearsonResidual(g.experienced, expectedExperienced);
+            const pearsonResidualNotExperiencedCell = calculatePearsonResidual(g.notExperienced, expectedNotExperienced);
+            const adjustedResidualExperienced = calculateAdjustedResidual(g.experienced, expectedExperienced, rowTotal, totalExperienced, grandTotal);
+            const adjustedResidualNotExperiencedCell = calculateAdjustedResidual(g.notExperienced, expectedNotExperienced, rowTotal, totalNotExperienced, grandTotal);
+            pearsonResidual = isFinite(pearsonResidualExperienced) ? pearsonResidualExperienced : null;
+            adjustedResidual = isFinite(adjustedResidualExperienced) ? adjustedResidualExperienced : null;
+            pearsonResidualNotExperienced = isFinite(pearsonResidualNotExperiencedCell) ? pearsonResidualNotExperiencedCell : null;
+            adjustedResidualNotExperienced = isFinite(adjustedResidualNotExperiencedCell) ? adjustedResidualNotExperiencedCell : null;
 
-             // Add to total contribution sum if valid
-            if (isFinite(chiSquareContribution)) {
-                 totalChiSquareContributions += chiSquareContribution;
+             // Add to total contribution sums if valid
+            if (isFinite(chiSquareContributionExperienced)) {
+                 totalChiSquareContributionsExperienced += chiSquareContributionExperienced;
+            }
+            if (isFinite(chiSquareContributionNotExperienced)) {
+                 totalChiSquareContributionsNotExperienced += chiSquareContributionNotExperienced;
             }
 
-            // Store detailed contributions
+            // Store detailed contributions (potentially infinite values are kept as-is)
             contributionsDetails.push({
                 category: g.name,
                 observedExperienced: g.experienced,
                 expectedExperienced: expectedExperienced,
-                chiSquareContrib: chiSquareContribution, // Store potentially infinite value
-                yatesContrib: yatesContribution,       // Store potentially infinite value
-                gTestContrib: gTestContribution        // Store potentially infinite value
+                observedNotExperienced: g.notExperienced,
+                expectedNotExperienced: expectedNotExperienced,
+                chiSquareContribExperienced: chiSquareContributionExperienced,
+                chiSquareContribNotExperienced: chiSquareContributionNotExperienced,
+                chiSquareContrib: chiSquareContribution,
+                yatesContribExperienced,
+                yatesContribNotExperienced,
+                yatesContrib: yatesContribExperienced + yatesContribNotExperienced,
+                gTestContribExperienced,
+                gTestContribNotExperienced,
+                gTestContrib: gTestContribExperienced + gTestContribNotExperienced,
+                pearsonResidualExperienced,
+                pearsonResidualNotExperienced: pearsonResidualNotExperiencedCell,
+                adjustedResidualExperienced,
+                adjustedResidualNotExperienced: adjustedResidualNotExperiencedCell,
             });
 
             // Check for expected counts < 5 (common warning for Chi-square validity)
@@ -323,9 +3368,21 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
                  category: g.name,
                  observedExperienced: g.experienced,
                  expectedExperienced: 0,
-                 chiSquareContrib: 0, // No contribution if no data
+                 observedNotExperienced: g.notExperienced,
+                 expectedNotExperienced: 0,
+                 chiSquareContribExperienced: 0, // No contribution if no data
+                 chiSquareContribNotExperienced: 0,
+                 chiSquareContrib: 0,
+                 yatesContribExperienced: 0,
+                 yatesContribNotExperienced: 0,
                  yatesContrib: 0,
-                 gTestContrib: 0
+                 gTestContribExperienced: 0,
+                 gTestContribNotExperienced: 0,
+                 gTestContrib: 0,
+                 pearsonResidualExperienced: NaN,
+                 pearsonResidualNotExperienced: NaN,
+                 adjustedResidualExperienced: NaN,
+                 adjustedResidualNotExperienced: NaN
              });
         }
 
@@ -334,19 +3391,54 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
             ...g,
             rowTotal: rowTotal,
             percentExperienced: rowTotal > 0 ? (g.experienced / rowTotal) * 100 : 0,
+            percentExperiencedCI: toPercentCI(proportionConfidenceInterval(g.experienced, rowTotal, confidenceLevel, rateCiMethod)),
             expectedExperienced: expectedExperienced,
             expectedNotExperienced: expectedNotExperienced,
-            chiSquareContribution: chiSquareContribution // Store contribution in summary
+            chiSquareContributionExperienced,
+            chiSquareContributionNotExperienced,
+            chiSquareContribution, // Store row contribution in summary
+            pearsonResidual,
+            adjustedResidual,
+            adjustedResidualPValue: adjustedResidual !== null ? 2 * (1 - jStat.normal.cdf(Math.abs(adjustedResidual), 0, 1)) : null,
+            adjustedResidualPValueCorrected: null, // Filled in once every group's residual is known
+            adjustedResidualSignificant: false,
+            pearsonResidualNotExperienced,
+            adjustedResidualNotExperienced,
+            adjustedResidualNotExperiencedPValue: adjustedResidualNotExperienced !== null
+                ? 2 * (1 - jStat.normal.cdf(Math.abs(adjustedResidualNotExperienced), 0, 1))
+                : null,
+            adjustedResidualNotExperiencedPValueCorrected: null,
+            adjustedResidualNotExperiencedSignificant: false,
         };
     });
 
+    // Post-hoc cell tests: the adjusted residuals form one family, corrected like the pairwise tests.
+    // The two cells of a row are the same test, so each column is corrected across the groups
+    const residualGroups = contingencySummary.filter(g => g.adjustedResidualPValue !== null);
+    const correctedResidualPValues = adjustPValues(residualGroups.map(g => g.adjustedResidualPValue as number), correction);
+    residualGroups.forEach((g, index) => {
+        g.adjustedResidualPValueCorrected = correctedResidualPValues[index];
+        g.adjustedResidualSignificant = correctedResidualPValues[index] < alpha;
+    });
+    const residualGroupsNotExperienced = contingencySummary.filter(g => g.adjustedResidualNotExperiencedPValue !== null);
+    const correctedResidualPValuesNotExperienced = adjustPValues(
+        residualGroupsNotExperienced.map(g => g.adjustedResidualNotExperiencedPValue as number), correction
+    );
+    residualGroupsNotExperienced.forEach((g, index) => {
+        g.adjustedResidualNotExperiencedPValueCorrected = correctedResidualPValuesNotExperienced[index];
+        g.adjustedResidualNotExperiencedSignificant = correctedResidualPValuesNotExperienced[index] < alpha;
+    });
+
     const totalExpectedExperienced = contingencySummary.reduce((sum, g) => sum + g.expectedExperienced, 0);
     const totalExpectedNotExperienced = contingencySummary.reduce((sum, g) => sum + g.expectedNotExperienced, 0);
 
     const finalTotals = {
         grandTotal, totalExperienced, totalNotExperienced,
         totalExpectedExperienced, totalExpectedNotExperienced,
-        totalChiSquareContributions // Add sum of chi-square contributions
+        totalChiSquareContributionsExperienced,
+        totalChiSquareContributionsNotExperienced,
+        totalChiSquareContributions: totalChiSquareContributionsExperienced + totalChiSquareContributionsNotExperienced,
+        percentExperiencedCI: toPercentCI(proportionConfidenceInterval(totalExperienced, grandTotal, confidenceLevel, rateCiMethod))
     };
 
 
@@ -364,15 +3456,23 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
         const degreesOfFreedom = Math.max(1, numGroups - 1);
         const numComparisons = numGroups >= 2 ? numGroups * (numGroups - 1) / 2 : 0;
 
-        // Overall Chi-square (Pearson) - Sum of contributions from experienced column
+        // Overall Chi-square (Pearson) - Sum of contributions over both columns of the k×2 table
         const overallChiSquareStat = contributionsDetails.reduce((sum, c) => sum + (isFinite(c.chiSquareContrib) ? c.chiSquareContrib : 0), 0);
         // Handle potential Infinity if any contribution was Infinity
         if (contributionsDetails.some(c => !isFinite(c.chiSquareContrib) && c.chiSquareContrib > 0)) {
              overallStats = {
                  limitAlpha: alpha, degreesOfFreedom, numComparisons,
+                 correction, perComparisonAlpha: perComparisonAlphaFor(alpha, numComparisons, correction),
                  chiSquare: { statistic: Infinity, pValue: 0 },
                  chiSquareYates: { statistic: Infinity, pValue: 0 }, // Assume Yates also infinite
-                 gTest: { statistic: Infinity, pValue: 0 } // Assume G-test also infinite
+                 gTest: { statistic: Infinity, pValue: 0 }, // Assume G-test also infinite
+                 exactTest: null,
+                 monteCarlo: null,
+                 effectSize: null,
+                 trendTest: null,
+                 power: null,
+                 fragilityIndex: null,
+                 fragilityThreshold
              };
         } else {
              const chiSquareP = chiSquarePValue(overallChiSquareStat, degreesOfFreedom);
@@ -389,6 +3489,8 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
                  limitAlpha: alpha,
                  degreesOfFreedom,
                  numComparisons,
+                 correction,
+                 perComparisonAlpha: perComparisonAlphaFor(alpha, numComparisons, correction),
                  chiSquare: {
                      statistic: overallChiSquareStat,
                      pValue: chiSquareP,
@@ -401,7 +3503,62 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
                      statistic: overallGTestStat,
                      pValue: gTestP,
                  },
+                 exactTest: null,
+                 monteCarlo: null,
+                 effectSize: null,
+                 trendTest: null,
+                 power: null,
+                 fragilityIndex: null,
+                 fragilityThreshold,
              };
+
+             // Exact and simulated p-values for the k×2 table (groups with no observations carry no information)
+             const validGroups = contingencySummary.filter(g => g.rowTotal > 0);
+             const experiencedCounts = validGroups.map(g => g.experienced);
+             const rowTotals = validGroups.map(g => g.rowTotal);
+             overallStats.effectSize = calculateCramersV(overallChiSquareStat, grandTotal, validGroups.length, confidenceLevel);
+             if (validGroups.length >= 2) {
+                 // Noncentrality giving 80% power, converted to a rate spread in the least favourable case:
+                 // the two smallest groups sit d apart and the rest at the pooled rate, so
+                 // λ = d² / (p(1 - p)(1/n₁ + 1/n₂)) and d = √(λ p(1 - p)(1/n₁ + 1/n₂))
+                 const critical = jStat.chisquare.inv(1 - alpha, degreesOfFreedom);
+                 const detectableNoncentrality = solveNoncentrality(critical, degreesOfFreedom, 1 - DETECTABLE_DIFFERENCE_POWER);
+                 const pooledRate = experiencedCounts.reduce((sum, e) => sum + e, 0) / grandTotal;
+                 const [smallest, secondSmallest] = [...rowTotals].sort((a, b) => a - b);
+                 const minimumDetectableDifference = Math.sqrt(
+                     detectableNoncentrality * pooledRate * (1 - pooledRate) * (1 / smallest + 1 / secondSmallest)
+                 ) * 100;
+                 overallStats.power = {
+                     minimumDetectableDifference,
+                     underpowered: chiSquareP >= alpha && minimumDetectableDifference > differenceOfInterest,
+                 };
+             }
+             if (chiSquareP < alpha) {
+                 overallStats.fragilityIndex = overallFragilityIndex(experiencedCounts, rowTotals, degreesOfFreedom, alpha);
+             }
+             if (orderedCategories) {
+                 // Unscored groups take their position in the input order
+                 const scores = contingencySummary
+                     .map((g, index) => ({ score: g.score ?? index + 1, rowTotal: g.rowTotal }))
+                     .filter(g => g.rowTotal > 0)
+                     .map(g => g.score);
+                 overallStats.trendTest = cochranArmitageTrendTest(experiencedCounts, rowTotals, scores);
+                 if (!overallStats.trendTest) {
+                     const trendSkipMsg = "Warning: The trend test needs at least two distinct scores among groups with observations and both outcomes present.";
+                     if (!errors.includes(trendSkipMsg)) errors.push(trendSkipMsg);
+                 }
+             }
+             if (exactOverallTest) {
+                 overallStats.exactTest = freemanHaltonExactTest(experiencedCounts, rowTotals);
+                 if (!overallStats.exactTest) {
+                     const exactSkipMsg = "Warning: The table is too large for the exact overall test; use the Monte Carlo p-value instead.";
+                     if (!errors.includes(exactSkipMsg)) errors.push(exactSkipMsg);
+                 }
+             }
+             if (monteCarloReplicates > 0) {
+                 const seed = monteCarloSeed ?? Math.floor(Math.random() * 2 ** 31);
+                 overallStats.monteCarlo = monteCarloChiSquareTest(experiencedCounts, rowTotals, monteCarloReplicates, seed);
+             }
          }
 
     } catch (e: any) {
@@ -411,24 +3568,29 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
     }
 
 
-    // --- Phase 3: Calculate Pairwise Comparisons with Bonferroni Correction ---
+    // --- Phase 3: Calculate Pairwise Comparisons with the Selected Correction ---
     let pairwiseResultsMatrix: PairwiseResultsMatrix | null = null;
+    let pairwiseSignificanceMatrix: PairwiseSignificanceMatrix | null = null;
+    let pairwiseComparisons: PairwiseComparison[] | null = null;
+    const isOneSided = pairwiseMethod === 'fisher' && fisherAlternative !== 'two-sided';
     // Proceed only if overall stats were calculated and there are comparisons to make
     if (numGroups >= 2 && overallStats && overallStats.numComparisons > 0) {
          pairwiseResultsMatrix = {};
-         // Use max(1, numComparisons) to avoid division by zero if only 1 group somehow gets here
-         const bonferroniDenominator = Math.max(1, overallStats.numComparisons);
+         pairwiseSignificanceMatrix = {};
 
-        // Initialize matrix
+        // Initialize matrices
         const groupNames = contingencySummary.map(g => g.name);
         groupNames.forEach(rowName => {
             pairwiseResultsMatrix![rowName] = {};
+            pairwiseSignificanceMatrix![rowName] = {};
             groupNames.forEach(colName => {
                 pairwiseResultsMatrix![rowName][colName] = null; // Initialize with null
+                pairwiseSignificanceMatrix![rowName][colName] = null;
             });
         });
 
-
+        // First pass: raw p-values for every valid pair (and the reverse direction for one-sided tests)
+        const rawPairs: { name1: string; name2: string; testUsed: AppliedPairwiseTest; minExpected: number; pValueRaw: number; reversePValueRaw: number }[] = [];
         for (let i = 0; i < numGroups; i++) {
             for (let j = i + 1; j < numGroups; j++) {
                 const group1 = contingencySummary[i];
@@ -444,24 +3606,12 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
                  }
 
                 try {
-                     // Create 2x2 table for the pair
-                     const table: number[][] = [
-                        [group1.experienced, group1.notExperienced],
-                        [group2.experienced, group2.notExperienced],
-                     ];
-
-                     // Calculate pairwise Chi-square (NO Yates' here)
-                     const chiSqStatPair = calculate2x2ChiSquarePairwise(table);
-                     const pValueRaw = chiSquarePValue(chiSqStatPair, 1); // df=1 for 2x2
-
-                     // Apply Bonferroni correction
-                     const correctedPValue = Math.min(1.0, pValueRaw * bonferroniDenominator);
-
-                     // Store the corrected p-value in the matrix (symmetric)
-                     pairwiseResultsMatrix[name1][name2] = correctedPValue;
-                     pairwiseResultsMatrix[name2][name1] = correctedPValue;
-
-
+                     const { pValue: pValueRaw, testUsed, minExpected } = runPairwiseTest(group1, group2, pairwiseMethod, fisherAlternative);
+                     // The transposed cell of a one-sided test states the column group against the row group
+                     const reversePValueRaw = isOneSided
+                         ? runPairwiseTest(group2, group1, pairwiseMethod, fisherAlternative).pValue
+                         : pValueRaw;
+                     rawPairs.push({ name1, name2, testUsed, minExpected, pValueRaw, reversePValueRaw });
                 } catch (e: any) {
                     console.error(`Error calculating pairwise comparison for ${name1} vs ${name2}:`, e);
                     // Store NaN or another indicator for error in the matrix
@@ -472,6 +3622,52 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
                 }
             }
         }
+
+        // Second pass: adjust the family of raw p-values. For one-sided tests each direction
+        // is adjusted as its own family.
+        const adjusted = adjustPValues(rawPairs.map(pair => pair.pValueRaw), correction);
+        const adjustedReverse = isOneSided ? adjustPValues(rawPairs.map(pair => pair.reversePValueRaw), correction) : adjusted;
+
+        // Sensitivity uses the most stringent per-comparison alpha of the selected correction
+        const pairwiseComparisonAlpha = planningComparisonAlpha(alpha, rawPairs.length, correction);
+        const familyPValues = rawPairs.map(pair => pair.pValueRaw);
+        const reverseFamilyPValues = rawPairs.map(pair => pair.reversePValueRaw);
+        pairwiseComparisons = rawPairs.map((pair, index) => {
+            const pValueCorrected = adjusted[index];
+            const reversePValueCorrected = adjustedReverse[index];
+            const group1 = contingencySummary.find(g => g.name === pair.name1)!;
+            const group2 = contingencySummary.find(g => g.name === pair.name2)!;
+            // Store the adjusted p-values in the matrix (symmetric for two-sided tests)
+            pairwiseResultsMatrix![pair.name1][pair.name2] = pValueCorrected;
+            pairwiseResultsMatrix![pair.name2][pair.name1] = reversePValueCorrected;
+            pairwiseSignificanceMatrix![pair.name1][pair.name2] = pValueCorrected < alpha;
+            pairwiseSignificanceMatrix![pair.name2][pair.name1] = reversePValueCorrected < alpha;
+            const fragilityIndex = pValueCorrected < alpha
+                ? pairFragilityIndex(group1, group2, pair.testUsed, familyPValues, index, alpha, correction)
+                : null;
+            return {
+                group1: pair.name1,
+                group2: pair.name2,
+                testUsed: pair.testUsed,
+                minExpected: pair.minExpected,
+                pValueRaw: pair.pValueRaw,
+                pValueCorrected,
+                isSignificant: pValueCorrected < alpha,
+                effectSizes: calculatePairwiseEffectSizes(group1, group2, confidenceLevel, haldaneCorrection),
+                power: calculateComparisonPower(
+                    group1, group2, pairwiseComparisonAlpha,
+                    pair.testUsed === 'fisherLess' || pair.testUsed === 'fisherGreater',
+                    differenceOfInterest, pValueCorrected < alpha
+                ),
+                fragilityIndex,
+                // The reverse cell's test swaps the groups, so its flips run against the reverse family
+                fragilityIndexReverse: !isOneSided ? fragilityIndex
+                    : reversePValueCorrected < alpha
+                        ? pairFragilityIndex(group2, group1, pair.testUsed, reverseFamilyPValues, index, alpha, correction)
+                        : null,
+            };
+        });
+
          // Fill diagonal with 1.0 (or null/NaN as preferred)
          groupNames.forEach(name => {
              if (pairwiseResultsMatrix && pairwiseResultsMatrix[name]) {
@@ -493,16 +3689,878 @@ export function performMultiComparisonReport(inputs: MultiComparisonInputs): Mul
     }
 
 
+    // Significant results that a handful of different outcomes would overturn
+    const isFragile = (fi: number | null) => fi !== null && fi < fragilityThreshold;
+    const fragileCount = (pairwiseComparisons ?? []).reduce((count, c) =>
+            count + (isFragile(c.fragilityIndex) ? 1 : 0) + (isOneSided && isFragile(c.fragilityIndexReverse) ? 1 : 0), 0)
+        + (overallStats && overallStats.fragilityIndex !== null && overallStats.fragilityIndex < fragilityThreshold ? 1 : 0);
+    if (fragileCount > 0) {
+        const fragileMsg = `Warning: ${fragileCount} significant result${fragileCount === 1 ? '' : 's'} would no longer be significant after fewer than ${fragilityThreshold} outcome flips (fragility index below ${fragilityThreshold}).`;
+        if (!errors.includes(fragileMsg)) errors.push(fragileMsg);
+    }
+
+
+    // --- Phase 4: Comparisons to Selected Reference Group(s) ---
+    // Every non-reference group is compared against each reference; the selected
+    // correction is applied over this family only.
+    let referenceComparisons: ReferenceComparison[] | null = null;
+    if (referenceGroups.length > 0 && overallStats) {
+        const references = contingencySummary.filter(g => referenceGroups.includes(g.name));
+        const comparisonGroups = contingencySummary.filter(g => !referenceGroups.includes(g.name));
+
+        if (comparisonGroups.length === 0) {
+            const allRefsMsg = "Warning: All groups are selected as references, no reference comparisons possible.";
+            if (!errors.includes(allRefsMsg)) errors.push(allRefsMsg);
+        }
+
+        const rawComparisons: (Omit<ReferenceComparison, 'pValueCorrected' | 'isSignificant' | 'power'> & { group: ContingencySummaryData; reference: ContingencySummaryData })[] = [];
+        references.forEach(ref => {
+            comparisonGroups.forEach(group => {
+                const invalidPair = ref.rowTotal === 0 || group.rowTotal === 0;
+                // The comparison group is stated first so one-sided tests read "category vs reference"
+                const { pValue, testUsed } = runPairwiseTest(group, ref, pairwiseMethod, fisherAlternative);
+                rawComparisons.push({
+                    referenceGroup: ref.name,
+                    comparisonGroup: group.name,
+                    referenceRate: ref.percentExperienced,
+                    comparisonRate: group.percentExperienced,
+                    rateDifference: group.percentExperienced - ref.percentExperienced,
+                    testUsed,
+                    pValueRaw: invalidPair ? NaN : pValue,
+                    effectSizes: calculatePairwiseEffectSizes(group, ref, confidenceLevel, haldaneCorrection),
+                    group,
+                    reference: ref,
+                });
+            });
+        });
+
+        const adjusted = adjustPValues(rawComparisons.map(c => c.pValueRaw), correction);
+        const referenceComparisonAlpha = planningComparisonAlpha(alpha, rawComparisons.length, correction);
+        referenceComparisons = rawComparisons.map(({ group, reference, ...comparison }, index) => ({
+            ...comparison,
+            pValueCorrected: adjusted[index],
+            isSignificant: adjusted[index] < alpha,
+            power: group.rowTotal === 0 || reference.rowTotal === 0
+                ? { minimumDetectableDifference: NaN, powerAtDifferenceOfInterest: NaN, underpowered: false }
+                : calculateComparisonPower(
+                    group, reference, referenceComparisonAlpha,
+                    comparison.testUsed === 'fisherLess' || comparison.testUsed === 'fisherGreater',
+                    differenceOfInterest, adjusted[index] < alpha
+                ),
+        }));
+    }
+
+
+    // --- Phase 5: Adverse Impact Analysis (Four-Fifths Rule) ---
+    let adverseImpact: AdverseImpactResults | null = null;
+    if (adverseImpactOptions) {
+        adverseImpact = calculateAdverseImpact(contingencySummary, adverseImpactOptions);
+        const comparator = adverseImpact && contingencySummary.find(g => g.name === adverseImpact!.comparatorGroup);
+        if (comparator && comparator.experienced === 0) {
+            const zeroRateMsg = `Warning: Adverse impact comparator "${comparator.name}" has a selection rate of zero; impact ratios are undefined.`;
+            if (!errors.includes(zeroRateMsg)) errors.push(zeroRateMsg);
+        }
+    }
+
+
+    // --- Phase 6: Multi-Level Outcome Table (k×m) ---
+    const outcomeTable = outcomeLabels
+        ? calculateOutcomeTable(inputGroups, outcomeLabels, outcomeLabels[focusIndex], alpha, correction, confidenceLevel)
+        : null;
+
+    // --- Phase 7: Bayesian Comparison ---
+    const bayesian = bayesianOptions
+        ? calculateBayesianComparison(groups.filter(g => g.experienced + g.notExperienced > 0), bayesianOptions, confidenceLevel)
+        : null;
+
+    // --- Phase 8: Covariate-Adjusted Disparity (Logistic Regression) ---
+    let adjustedDisparity: AdjustedDisparityResults | null = null;
+    if (rowLevel) {
+        adjustedDisparity = calculateAdjustedDisparity(rowLevel, groups.map(g => g.name), alpha, correction, confidenceLevel);
+        if (!adjustedDisparity) {
+            const fitMsg = "Warning: The logistic regression could not be fitted; check for covariates that are constant or duplicate each other.";
+            if (!errors.includes(fitMsg)) errors.push(fitMsg);
+        } else if (!adjustedDisparity.converged || adjustedDisparity.separation) {
+            const separationMsg = "Warning: Some logistic regression estimates diverged (a group or covariate level with all or no outcomes); their odds ratios and tests are unreliable.";
+            if (!errors.includes(separationMsg)) errors.push(separationMsg);
+        }
+    }
+
+    // --- Phase 9: Bootstrap Intervals ---
+    let bootstrap: BootstrapResults | null = null;
+    if (bootstrapOptions) {
+        bootstrap = calculateBootstrapIntervals(groups, bootstrapOptions, confidenceLevel, adverseImpact?.comparatorGroup, rowLevel);
+        if (!bootstrap) {
+            const bootstrapMsg = "Warning: Bootstrap intervals need at least two groups with observations and a comparator group with a non-zero rate.";
+            if (!errors.includes(bootstrapMsg)) errors.push(bootstrapMsg);
+        } else if (bootstrap.replicates < BOOTSTRAP_MIN_RECOMMENDED_REPLICATES) {
+            const replicatesMsg = `Warning: Fewer than ${BOOTSTRAP_MIN_RECOMMENDED_REPLICATES.toLocaleString()} bootstrap replicates; the interval endpoints, BCa in particular, may change noticeably with the seed.`;
+            if (!errors.includes(replicatesMsg)) errors.push(replicatesMsg);
+        }
+    }
+
+    // --- Phase 10: Equivalence Tests (TOST) ---
+    const equivalence = equivalenceOptions
+        ? calculateEquivalenceTests(groups, equivalenceOptions, alpha, correction)
+        : null;
+
+    // --- Phase 11: Utilization Against Benchmarks ---
+    let utilization: UtilizationResults | null = null;
+    if (utilizationEnabled) {
+        utilization = calculateUtilizationAnalysis(groups, alpha, correction);
+        if (!utilization) {
+            const noOutcomesMsg = "Warning: The utilization analysis needs at least one outcome.";
+            if (!errors.includes(noOutcomesMsg)) errors.push(noOutcomesMsg);
+        } else {
+            if (Math.abs(utilization.benchmarkTotal - 1) > 0.001) {
+                const rescaledMsg = `Warning: Benchmarks sum to ${formatDecimal(utilization.benchmarkTotal, 3)} rather than 1; they were rescaled to sum to 1.`;
+                if (!errors.includes(rescaledMsg)) errors.push(rescaledMsg);
+            }
+            if (utilization.groups.some(g => g.expected < 5)) {
+                const smallExpectedMsg = "Warning: Some expected counts under the benchmarks are below 5; rely on the exact binomial tests rather than the z-tests and the goodness-of-fit test.";
+                if (!errors.includes(smallExpectedMsg)) errors.push(smallExpectedMsg);
+            }
+        }
+    }
+
+    // --- Phase 12: Parity Gap (Outcomes Needed to Close Disparities) ---
+    let parityGap: ParityGapResults | null = null;
+    if (parityGapEnabled) {
+        parityGap = calculateParityGaps(contingencySummary, referenceComparisons ?? [], alpha, correction, pairwiseMethod, fisherAlternative);
+        if (parityGap.pairs.some(p => p.isSignificant && p.changesToNonSignificance === null)) {
+            const unresolvedMsg = "Warning: Some significant reference comparisons stay significant even at the reference rate; their changes to non-significance are not reported.";
+            if (!errors.includes(unresolvedMsg)) errors.push(unresolvedMsg);
+        }
+    }
+
+    // --- Phase 13: Stratified Analysis (Cochran-Mantel-Haenszel) ---
+    let stratifiedAnalysis: StratifiedAnalysisResults | null = null;
+    if (strata && strata.length > 0) {
+        stratifiedAnalysis = calculateStratifiedAnalysis(groups, strata, alpha, correction, confidenceLevel);
+        if (strata.length < 2) {
+            const singleStratumMsg = "Warning: Only one stratum was entered; adjusted estimates equal the crude ones and homogeneity cannot be tested.";
+            if (!errors.includes(singleStratumMsg)) errors.push(singleStratumMsg);
+        }
+        if (!stratifiedAnalysis.cochranMantelHaenszel) {
+            const cmhMsg = "Warning: The Cochran-Mantel-Haenszel test could not be computed because the strata leave no variation for at least one group.";
+            if (!errors.includes(cmhMsg)) errors.push(cmhMsg);
+        }
+    }
+
+
     return {
         contingencySummary,
         overallStats,
         pairwiseResultsMatrix,
+        pairwiseSignificanceMatrix,
+        pairwiseComparisons,
+        referenceComparisons,
+        adverseImpact,
+        stratifiedAnalysis,
+        outcomeTable,
+        bayesian,
+        adjustedDisparity,
+        bootstrap,
+        equivalence,
+        utilization,
+        parityGap,
+        suppression: null,
+        privacy: null,
+        rateCI,
         totals: finalTotals,
         errors,
         contributions: contributionsDetails, // Include detailed contributions
     };
 }
 
+/**
+ * Primary and complementary suppression pattern of a k×2 table and its margins. Counts from 1 to
+ * threshold - 1 are suppressed first. Then, while any additive relation (a row, a column, the row
+ * totals or the column totals) has exactly one suppressed entry, the smallest shown entry of that
+ * relation is suppressed too, so no suppressed count can be recovered by subtraction.
+ */
+function smallCellSuppressionPattern(
+    experienced: number[],
+    notExperienced: number[],
+    threshold: number
+): { groups: SuppressedCounts[]; totals: SuppressedCounts } {
+    const k = experienced.length;
+    const totalExperienced = experienced.reduce((sum, e) => sum + e, 0);
+    const totalNotExperienced = notExperienced.reduce((sum, n) => sum + n, 0);
+    // Row i holds entries 3i (experienced), 3i + 1 (not experienced) and 3i + 2 (total); the column totals follow at 3k
+    const values = [
+        ...experienced.flatMap((e, i) => [e, notExperienced[i], e + notExperienced[i]]),
+        totalExperienced, totalNotExperienced, totalExperienced + totalNotExperienced,
+    ];
+    const reasons: (SuppressionReason | null)[] = values.map(v => (v > 0 && v < threshold ? 'primary' : null));
+    const rows = experienced.map((_, i) => 3 * i);
+    const relations = [
+        ...rows.map(j => [j, j + 1, j + 2]),
+        [...rows, 3 * k],
+        [...rows.map(j => j + 1), 3 * k + 1],
+        [...rows.map(j => j + 2), 3 * k + 2],
+        [3 * k, 3 * k + 1, 3 * k + 2],
+    ];
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const relation of relations) {
+            if (relation.filter(j => reasons[j] !== null).length !== 1) continue;
+            const shown = relation.filter(j => reasons[j] === null);
+            if (shown.length === 0) continue;
+            reasons[shown.reduce((smallest, j) => (values[j] < values[smallest] ? j : smallest))] = 'complementary';
+            changed = true;
+        }
+    }
+
+    const countsAt = (j: number): SuppressedCounts => ({ experienced: reasons[j], notExperienced: reasons[j + 1], total: reasons[j + 2] });
+    return { groups: rows.map(countsAt), totals: countsAt(3 * k) };
+}
+
+/**
+ * Copy of a report for publication, with small-cell suppression applied to the k×2 table.
+ * Suppressed counts become NaN, and every statistic that could reveal one is withheld: the rates,
+ * intervals, expected counts and residuals of the affected rows, the comparisons involving their
+ * groups, and the sections computed from the whole table. The sections built from other counts
+ * (strata, outcome levels, row-level records) are always withheld. The statistics themselves are
+ * those of the true counts; the results passed in are not modified.
+ */
+export function applySmallCellSuppression(results: MultiComparisonResults, options: SuppressionOptions = {}): MultiComparisonResults {
+    const threshold = options.threshold ?? 10;
+    const summary = results.contingencySummary;
+    const pattern = smallCellSuppressionPattern(summary.map(g => g.experienced), summary.map(g => g.notExperienced), threshold);
+
+    const withheldGroups = summary
+        .filter((_, i) => Object.values(pattern.groups[i]).some(reason => reason !== null))
+        .map(g => g.name);
+    // A suppressed margin always comes with a suppressed row, so this covers the whole table
+    const anySuppressed = withheldGroups.length > 0;
+    const expectedWithheld = pattern.totals.experienced !== null || pattern.totals.notExperienced !== null;
+    const involvesWithheld = (...groups: string[]) => groups.some(group => withheldGroups.includes(group));
+    const masked = (value: number, reason: SuppressionReason | null) => (reason !== null ? NaN : value);
+
+    const contingencySummary: ContingencySummaryData[] = summary.map((g, i) => {
+        const counts = pattern.groups[i];
+        const rowWithheld = withheldGroups.includes(g.name);
+        const residualsWithheld = rowWithheld || expectedWithheld;
+        return {
+            ...g,
+            outcomeCounts: undefined,
+            experienced: masked(g.experienced, counts.experienced),
+            notExperienced: masked(g.notExperienced, counts.notExperienced),
+            rowTotal: masked(g.rowTotal, counts.total),
+            percentExperienced: rowWithheld ? NaN : g.percentExperienced,
+            percentExperiencedCI: rowWithheld ? null : g.percentExperiencedCI,
+            expectedExperienced: residualsWithheld ? NaN : g.expectedExperienced,
+            expectedNotExperienced: residualsWithheld ? NaN : g.expectedNotExperienced,
+            chiSquareContributionExperienced: residualsWithheld ? null : g.chiSquareContributionExperienced,
+            chiSquareContributionNotExperienced: residualsWithheld ? null : g.chiSquareContributionNotExperienced,
+            chiSquareContribution: residualsWithheld ? null : g.chiSquareContribution,
+            pearsonResidual: residualsWithheld ? null : g.pearsonResidual,
+            adjustedResidual: residualsWithheld ? null : g.adjustedResidual,
+            adjustedResidualPValue: residualsWithheld ? null : g.adjustedResidualPValue,
+            adjustedResidualPValueCorrected: residualsWithheld ? null : g.adjustedResidualPValueCorrected,
+            adjustedResidualSignificant: residualsWithheld ? false : g.adjustedResidualSignificant,
+            pearsonResidualNotExperienced: residualsWithheld ? null : g.pearsonResidualNotExperienced,
+            adjustedResidualNotExperienced: residualsWithheld ? null : g.adjustedResidualNotExperienced,
+            adjustedResidualNotExperiencedPValue: residualsWithheld ? null : g.adjustedResidualNotExperiencedPValue,
+            adjustedResidualNotExperiencedPValueCorrected: residualsWithheld ? null : g.adjustedResidualNotExperiencedPValueCorrected,
+            adjustedResidualNotExperiencedSignificant: residualsWithheld ? false : g.adjustedResidualNotExperiencedSignificant,
+        };
+    });
+
+    const totals = results.totals && {
+        ...results.totals,
+        grandTotal: masked(results.totals.grandTotal, pattern.totals.total),
+        totalExperienced: masked(results.totals.totalExperienced, pattern.totals.experienced),
+        totalNotExperienced: masked(results.totals.totalNotExperienced, pattern.totals.notExperienced),
+        totalExpectedExperienced: masked(results.totals.totalExpectedExperienced, pattern.totals.experienced),
+        totalExpectedNotExperienced: masked(results.totals.totalExpectedNotExperienced, pattern.totals.notExperienced),
+        totalChiSquareContributionsExperienced: anySuppressed ? NaN : results.totals.totalChiSquareContributionsExperienced,
+        totalChiSquareContributionsNotExperienced: anySuppressed ? NaN : results.totals.totalChiSquareContributionsNotExperienced,
+        totalChiSquareContributions: anySuppressed ? NaN : results.totals.totalChiSquareContributions,
+        percentExperiencedCI: expectedWithheld || pattern.totals.total !== null ? null : results.totals.percentExperiencedCI,
+    };
+
+    const withheldSections: string[] = [];
+    const withhold = <T>(section: T | null, title: string, always: boolean = false): T | null => {
+        if (section === null || !(always || anySuppressed)) return section;
+        withheldSections.push(title);
+        return null;
+    };
+
+    let overallStats = results.overallStats;
+    if (overallStats && anySuppressed) {
+        withheldSections.push('Overall Tests');
+        overallStats = {
+            ...overallStats,
+            chiSquare: { statistic: NaN, pValue: NaN },
+            chiSquareYates: { statistic: NaN, pValue: NaN },
+            gTest: { statistic: NaN, pValue: NaN },
+            exactTest: null,
+            monteCarlo: null,
+            effectSize: null,
+            trendTest: null,
+            power: null,
+            fragilityIndex: null,
+        };
+    }
+
+    const withholdMatrix = <T>(matrix: Record<string, Record<string, T | null>>) => Object.fromEntries(
+        Object.entries(matrix).map(([row, cells]) => [row, Object.fromEntries(
+            Object.entries(cells).map(([column, value]) => [column, involvesWithheld(row, column) ? null : value]))]));
+
+    const adverseImpact = results.adverseImpact && involvesWithheld(results.adverseImpact.comparatorGroup)
+        ? withhold(results.adverseImpact, 'Adverse Impact')
+        : results.adverseImpact && { ...results.adverseImpact, groups: results.adverseImpact.groups.filter(g => !involvesWithheld(g.group)) };
+
+    const referenceComparisons = results.referenceComparisons && results.referenceComparisons.filter(c => !involvesWithheld(c.referenceGroup, c.comparisonGroup));
+
+    return {
+        ...results,
+        contingencySummary,
+        overallStats,
+        pairwiseResultsMatrix: results.pairwiseResultsMatrix && withholdMatrix(results.pairwiseResultsMatrix),
+        pairwiseSignificanceMatrix: results.pairwiseSignificanceMatrix && withholdMatrix(results.pairwiseSignificanceMatrix),
+        pairwiseComparisons: results.pairwiseComparisons && results.pairwiseComparisons.filter(c => !involvesWithheld(c.group1, c.group2)),
+        referenceComparisons,
+        adverseImpact,
+        stratifiedAnalysis: withhold(results.stratifiedAnalysis, 'Stratified Analysis', true),
+        outcomeTable: withhold(results.outcomeTable, 'Outcome Levels', true),
+        bayesian: results.bayesian && {
+            ...results.bayesian,
+            groups: results.bayesian.groups.filter(g => !involvesWithheld(g.group)),
+            pairs: results.bayesian.pairs.filter(p => !involvesWithheld(p.group1, p.group2)),
+        },
+        adjustedDisparity: withhold(results.adjustedDisparity, 'Adjusted Disparity', true),
+        bootstrap: withhold(results.bootstrap, 'Bootstrap Intervals'),
+        equivalence: results.equivalence && {
+            ...results.equivalence,
+            pairs: results.equivalence.pairs.filter(p => !involvesWithheld(p.group1, p.group2)),
+            matrix: withholdMatrix(results.equivalence.matrix),
+        },
+        utilization: withhold(results.utilization, 'Utilization Against Benchmarks'),
+        parityGap: withhold(results.parityGap, 'Parity Gap'),
+        privacy: results.privacy && {
+            ...results.privacy,
+            groups: results.privacy.groups.filter(g => !involvesWithheld(g.group)),
+            pairs: results.privacy.pairs.filter(p => !involvesWithheld(p.group1, p.group2)),
+        },
+        suppression: {
+            threshold,
+            groups: Object.fromEntries(summary.map((g, i) => [g.name, pattern.groups[i]])),
+            totals: pattern.totals,
+            withheldGroups,
+            withheldReferenceComparisons: (results.referenceComparisons?.length ?? 0) - (referenceComparisons?.length ?? 0),
+            expectedWithheld,
+            withheldSections,
+        },
+        totals,
+        contributions: results.contributions && (expectedWithheld ? null : results.contributions.filter(c => !involvesWithheld(c.category))),
+    };
+}
+
+/**
+ * Draws two-sided geometric noise (the discrete Laplace mechanism), P(X = x) ∝ exp(-ε|x|),
+ * as the difference of two geometric draws.
+ */
+function sampleTwoSidedGeometric(epsilon: number, random: () => number): number {
+    const geometric = () => Math.floor(Math.log(1 - random()) / -epsilon);
+    return geometric() - geometric();
+}
+
+/**
+ * Differentially private release of the report. Every cell of the k×2 table gets independent
+ * two-sided geometric noise with scale 1/ε. The cells are disjoint, so adding or removing one
+ * person's record moves a single cell by one and the released table is ε-differentially private
+ * (changing a record moves two cells and costs 2ε). Negative noisy counts are released as zero,
+ * which is post-processing and keeps the guarantee, and the report is computed from the released
+ * table alone. Its tests treat the released counts as exact; the noise is reported separately,
+ * with rate intervals, and pairwise risk differences and impact ratios, whose errors include it.
+ */
+export function performDifferentiallyPrivateReport(inputs: DifferentialPrivacyInputs): MultiComparisonResults {
+    const { epsilon, privacySeed, ...options } = inputs;
+    const confidenceLevel = options.confidenceLevel ?? 0.95;
+
+    if (!(epsilon > 0) || !isFinite(epsilon)) {
+        // Nothing computed from the true counts may be returned, so the report is of an empty table
+        const empty = performMultiComparisonReport({
+            ...options,
+            groups: options.groups.map(g => ({ ...g, experienced: 0, notExperienced: 0, outcomeCounts: undefined })),
+        });
+        return { ...empty, errors: ["Privacy budget (ε) must be a positive number."] };
+    }
+
+    const seed = privacySeed ?? Math.floor(Math.random() * 2 ** 31);
+    const random = createSeededRandom(seed);
+    const clamped: boolean[] = [];
+    const groups: GroupInput[] = options.groups.map((g, index) => {
+        const experienced = g.experienced + sampleTwoSidedGeometric(epsilon, random);
+        const notExperienced = g.notExperienced + sampleTwoSidedGeometric(epsilon, random);
+        clamped[index] = experienced < 0 || notExperienced < 0;
+        return { ...g, experienced: Math.max(0, experienced), notExperienced: Math.max(0, notExperienced), outcomeCounts: undefined };
+    });
+
+    const results = performMultiComparisonReport({ ...options, groups });
+
+    const noiseBase = Math.exp(-epsilon);
+    const noiseVariance = 2 * noiseBase / (1 - noiseBase) ** 2;
+    // P(|X| > m) = 2 exp(-ε(m + 1)) / (1 + exp(-ε))
+    const noiseMargin = Math.max(0, Math.ceil(Math.log((1 - confidenceLevel) * (1 + noiseBase) / 2) / -epsilon - 1));
+    const z = normalCriticalValue(confidenceLevel);
+
+    const privateGroups: PrivateGroupRelease[] = groups.map((g, index) => {
+        const total = g.experienced + g.notExperienced;
+        if (total === 0) {
+            return { group: g.name, rate: NaN, clamped: clamped[index], samplingStandardError: NaN, noiseStandardError: NaN, ci: null };
+        }
+        const rate = g.experienced / total;
+        const samplingStandardError = Math.sqrt(rate * (1 - rate) / total) * 100;
+        // ∂rate/∂experienced = notExperienced / total², ∂rate/∂notExperienced = -experienced / total²
+        const noiseStandardError = Math.sqrt(noiseVariance * (g.experienced ** 2 + g.notExperienced ** 2)) / total ** 2 * 100;
+        const margin = z * Math.sqrt(samplingStandardError ** 2 + noiseStandardError ** 2);
+        return {
+            group: g.name,
+            rate: rate * 100,
+            clamped: clamped[index],
+            samplingStandardError,
+            noiseStandardError,
+            ci: { lower: Math.max(0, rate * 100 - margin), upper: Math.min(100, rate * 100 + margin) },
+        };
+    });
+
+    // Pairs: the groups' released counts are independent, so sampling and noise variances add
+    const alpha = options.alpha;
+    const rawPairs: Omit<PrivatePairRelease, 'pValueCorrected' | 'isSignificant'>[] = [];
+    for (let i = 0; i < privateGroups.length; i++) {
+        for (let j = i + 1; j < privateGroups.length; j++) {
+            const g1 = privateGroups[i], g2 = privateGroups[j];
+            const samplingStandardError = Math.sqrt(g1.samplingStandardError ** 2 + g2.samplingStandardError ** 2);
+            const noiseStandardError = Math.sqrt(g1.noiseStandardError ** 2 + g2.noiseStandardError ** 2);
+            const standardError = Math.sqrt(samplingStandardError ** 2 + noiseStandardError ** 2);
+            const riskDifference = g1.rate - g2.rate;
+            const valid = isFinite(riskDifference) && standardError > 0;
+            // Delta method on the log scale: var(log r) = var(r) / r²
+            const logRatioStandardError = g1.rate > 0 && g2.rate > 0
+                ? Math.sqrt(
+                    (g1.samplingStandardError ** 2 + g1.noiseStandardError ** 2) / g1.rate ** 2
+                    + (g2.samplingStandardError ** 2 + g2.noiseStandardError ** 2) / g2.rate ** 2
+                )
+                : NaN;
+            const impactRatio = g2.rate > 0 ? g1.rate / g2.rate : NaN;
+            const comparison = results.pairwiseComparisons?.find(c => c.group1 === g1.group && c.group2 === g2.group);
+            rawPairs.push({
+                group1: g1.group,
+                group2: g2.group,
+                riskDifference,
+                samplingStandardError,
+                noiseStandardError,
+                riskDifferenceCI: valid
+                    ? { lower: riskDifference - z * standardError, upper: riskDifference + z * standardError }
+                    : null,
+                impactRatio,
+                impactRatioCI: isFinite(logRatioStandardError) && logRatioStandardError > 0
+                    ? { lower: impactRatio * Math.exp(-z * logRatioStandardError), upper: impactRatio * Math.exp(z * logRatioStandardError) }
+                    : null,
+                pValue: valid ? 2 * (1 - jStat.normal.cdf(Math.abs(riskDifference / standardError), 0, 1)) : NaN,
+                reportSignificant: comparison?.isSignificant ?? false,
+            });
+        }
+    }
+    const correctedPairPValues = adjustPValues(rawPairs.map(p => p.pValue), options.correction ?? 'bonferroni');
+    const privatePairs: PrivatePairRelease[] = rawPairs.map((p, index) => ({
+        ...p,
+        pValueCorrected: correctedPairPValues[index],
+        isSignificant: correctedPairPValues[index] < alpha,
+    }));
+
+    const errors = [...results.errors];
+    errors.push("Warning: The tests treat the differentially private counts as exact; their p-values and intervals do not include the privacy noise. The privacy release compares the pairs with the noise included.");
+    const unstableCount = privatePairs.filter(p => p.reportSignificant && !p.isSignificant).length;
+    if (unstableCount > 0) {
+        errors.push(`Warning: ${unstableCount} significant pairwise comparison${unstableCount === 1 ? ' is' : 's are'} no longer significant once the privacy noise is included.`);
+    }
+    const clampedCount = clamped.filter(Boolean).length;
+    if (clampedCount > 0) {
+        errors.push(`Warning: ${clampedCount} group${clampedCount === 1 ? '' : 's'} had a noisy count below zero, released as zero; this biases small counts upward.`);
+    }
+
+    return {
+        ...results,
+        errors,
+        privacy: {
+            epsilon,
+            seed,
+            confidenceLevel,
+            noiseStandardDeviation: Math.sqrt(noiseVariance),
+            noiseMargin,
+            groups: privateGroups,
+            pairs: privatePairs,
+        },
+    };
+}
+
+/**
+ * Change in the disparity between two groups from one period to another: the difference in
+ * differences of the rates with its two-sided Wald z-test, and the ratio of the rate ratios with
+ * a log interval. The four rates are treated as independent binomial proportions.
+ */
+function comparePeriodChange(
+    group: { from: GroupInput; to: GroupInput },
+    comparator: { from: GroupInput; to: GroupInput },
+    confidenceLevel: number
+): Pick<PeriodChangeComparison, 'rateRatioFrom' | 'rateRatioTo' | 'rateRatioChange' | 'differenceInDifferences' | 'zStatistic' | 'pValue'> {
+    const z = normalCriticalValue(confidenceLevel);
+    const cells = [group.from, comparator.from, group.to, comparator.to].map(g => {
+        const n = g.experienced + g.notExperienced;
+        return { x: g.experienced, n, p: n > 0 ? g.experienced / n : NaN };
+    });
+    const [groupFrom, comparatorFrom, groupTo, comparatorTo] = cells;
+
+    const difference = (groupTo.p - comparatorTo.p) - (groupFrom.p - comparatorFrom.p);
+    const se = Math.sqrt(cells.reduce((sum, c) => sum + c.p * (1 - c.p) / c.n, 0));
+    const zStatistic = se > 0 ? difference / se : NaN;
+
+    const rateRatioFrom = groupFrom.p / comparatorFrom.p;
+    const rateRatioTo = groupTo.p / comparatorTo.p;
+    const rateRatioChange = rateRatioTo / rateRatioFrom;
+    const logSE = Math.sqrt(cells.reduce((sum, c) => sum + 1 / c.x - 1 / c.n, 0));
+
+    return {
+        rateRatioFrom,
+        rateRatioTo,
+        rateRatioChange: {
+            estimate: rateRatioChange,
+            ci: isFinite(logSE) && rateRatioChange > 0 && isFinite(rateRatioChange)
+                ? { lower: Math.exp(Math.log(rateRatioChange) - z * logSE), upper: Math.exp(Math.log(rateRatioChange) + z * logSE) }
+                : null,
+        },
+        differenceInDifferences: {
+            estimate: difference * 100,
+            ci: se > 0 ? { lower: (difference - z * se) * 100, upper: (difference + z * se) * 100 } : null,
+        },
+        zStatistic,
+        pValue: isNaN(zStatistic) ? NaN : 2 * (1 - jStat.normal.cdf(Math.abs(zStatistic), 0, 1)),
+    };
+}
+
+/**
+ * Runs the report for each period and adds the trend view: every group's rate per period, and
+ * for each group against each reference group (every pair when none is selected) the change in
+ * the disparity between consecutive periods, plus first to last period when there are more than two.
+ */
+export function performMultiPeriodReport(inputs: MultiPeriodInputs): MultiPeriodResults {
+    const { periods, ...options } = inputs;
+    const errors: string[] = [];
+    const correction = options.correction ?? 'bonferroni';
+    const confidenceLevel = options.confidenceLevel ?? 0.95;
+    const rateCiMethod = options.rateCiMethod ?? 'wilson';
+
+    if (periods.length < 2) {
+        errors.push("At least two periods are required for a trend analysis.");
+    }
+    periods.forEach((period, index) => {
+        if (!period.name || period.name.trim() === "") {
+            errors.push(`Period ${index + 1} has an empty name.`);
+        }
+    });
+    if (new Set(periods.map(p => p.name)).size !== periods.length) {
+        errors.push("Period names must be unique.");
+    }
+    const groupNames = periods[0]?.groups.map(g => g.name) ?? [];
+    periods.slice(1).forEach(period => {
+        if (period.groups.length !== groupNames.length || period.groups.some((g, i) => g.name !== groupNames[i])) {
+            errors.push(`Period "${period.name}" must list the same groups, in the same order, as the first period.`);
+        }
+    });
+
+    const periodResults = periods.map(period => ({
+        name: period.name,
+        results: performMultiComparisonReport({ ...options, groups: period.groups }),
+    }));
+    if (errors.length > 0) {
+        return { periods: periodResults, trend: null, errors };
+    }
+
+    const groups: GroupRateTrend[] = groupNames.map((name, index) => ({
+        group: name,
+        points: periods.map(period => {
+            const g = period.groups[index];
+            const total = g.experienced + g.notExperienced;
+            return {
+                period: period.name,
+                total,
+                rate: total > 0 ? (g.experienced / total) * 100 : NaN,
+                ci: toPercentCI(total > 0 ? proportionConfidenceInterval(g.experienced, total, confidenceLevel, rateCiMethod) : null),
+            };
+        }),
+    }));
+
+    // Groups compared with each reference group, or every pair when none is selected
+    const references = (options.referenceGroups ?? []).filter(name => groupNames.includes(name));
+    const pairs: [number, number][] = [];
+    if (references.length > 0) {
+        references.forEach(ref => {
+            const refIndex = groupNames.indexOf(ref);
+            groupNames.forEach((name, index) => {
+                if (!references.includes(name)) pairs.push([index, refIndex]);
+            });
+        });
+    } else {
+        for (let i = 0; i < groupNames.length; i++) {
+            for (let j = i + 1; j < groupNames.length; j++) pairs.push([i, j]);
+        }
+    }
+    const periodSteps: [number, number][] = periods.slice(1).map((_, t) => [t, t + 1]);
+    if (periods.length > 2) periodSteps.push([0, periods.length - 1]);
+
+    const rawChanges = periodSteps.flatMap(([from, to]) => pairs.map(([i, j]) => ({
+        group: groupNames[i],
+        comparator: groupNames[j],
+        fromPeriod: periods[from].name,
+        toPeriod: periods[to].name,
+        ...comparePeriodChange(
+            { from: periods[from].groups[i], to: periods[to].groups[i] },
+            { from: periods[from].groups[j], to: periods[to].groups[j] },
+            confidenceLevel
+        ),
+    })));
+    const adjusted = adjustPValues(rawChanges.map(c => c.pValue), correction);
+    const changes: PeriodChangeComparison[] = rawChanges.map((change, index) => ({
+        ...change,
+        pValueCorrected: adjusted[index],
+        isSignificant: adjusted[index] < options.alpha,
+    }));
+
+    if (rawChanges.some(c => isNaN(c.pValue))) {
+        errors.push("Warning: Some changes could not be tested because a group has no observations, or a rate of 0% or 100% in every period involved.");
+    }
+
+    return { periods: periodResults, trend: { periods: periods.map(p => p.name), groups, changes }, errors };
+}
+
+// Power at which minimum detectable differences are reported
+const DETECTABLE_DIFFERENCE_POWER = 0.8;
+
+/**
+ * Minimum detectable difference and power of a 2x2 comparison, from the normal approximation
+ * to the two-proportion test with the pair's pooled rate and the comparison's corrected alpha.
+ */
+function calculateComparisonPower(
+    group1: GroupInput,
+    group2: GroupInput,
+    comparisonAlpha: number,
+    oneSided: boolean,
+    differenceOfInterest: number,
+    isSignificant: boolean
+): ComparisonPower {
+    const n1 = group1.experienced + group1.notExperienced;
+    const n2 = group2.experienced + group2.notExperienced;
+    const pooledRate = (group1.experienced + group2.experienced) / (n1 + n2);
+    const standardError = Math.sqrt(pooledRate * (1 - pooledRate) * (1 / n1 + 1 / n2));
+    const zAlpha = jStat.normal.inv(1 - (oneSided ? comparisonAlpha : comparisonAlpha / 2), 0, 1);
+    const zBeta = jStat.normal.inv(DETECTABLE_DIFFERENCE_POWER, 0, 1);
+
+    if (!(standardError > 0)) {
+        return { minimumDetectableDifference: NaN, powerAtDifferenceOfInterest: NaN, underpowered: false };
+    }
+    const minimumDetectableDifference = (zAlpha + zBeta) * standardError * 100;
+    return {
+        minimumDetectableDifference,
+        powerAtDifferenceOfInterest: jStat.normal.cdf(differenceOfInterest / 100 / standardError - zAlpha, 0, 1),
+        underpowered: !isSignificant && minimumDetectableDifference > differenceOfInterest,
+    };
+}
+
+// Largest sample per group the planner searches before reporting that none is sufficient
+const MAX_PLANNED_SAMPLE_SIZE = 100000000;
+// Number of sample sizes at which the power curves are evaluated
+const POWER_CURVE_POINTS = 40;
+
+/**
+ * Per-comparison alpha used for planning. Single-step methods use their own threshold;
+ * stepwise and false discovery rate methods use their most stringent first step (α / C, and
+ * α / (C · Σ 1/i) for Benjamini-Yekutieli), so the planned sample size is conservative.
+ */
+function planningComparisonAlpha(alpha: number, familySize: number, method: CorrectionMethod): number {
+    if (familySize <= 1) return alpha;
+    const singleStep = perComparisonAlphaFor(alpha, familySize, method);
+    if (singleStep !== null) return singleStep;
+    if (method === 'BY') {
+        let harmonic = 0;
+        for (let i = 1; i <= familySize; i++) harmonic += 1 / i;
+        return alpha / (familySize * harmonic);
+    }
+    return alpha / familySize;
+}
+
+/**
+ * Power of the two-sided two-proportion test (pooled null variance, as in R's power.prop.test)
+ * with nPerGroup observations in each group.
+ */
+export function twoProportionPower(p1: number, p2: number, nPerGroup: number, alpha: number): number {
+    if (nPerGroup <= 0) return 0;
+    const zAlpha = jStat.normal.inv(1 - alpha / 2, 0, 1);
+    const pooledVariance = (p1 + p2) * (2 - p1 - p2) / 2;
+    const alternativeSd = Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+    if (alternativeSd === 0) return p1 === p2 ? alpha : 1;
+    return jStat.normal.cdf((Math.sqrt(nPerGroup) * Math.abs(p1 - p2) - zAlpha * Math.sqrt(pooledVariance)) / alternativeSd, 0, 1);
+}
+
+/**
+ * Observations needed in each group for the two-sided two-proportion test to reach the target
+ * power. Infinity when the rates are equal.
+ */
+export function twoProportionSampleSize(p1: number, p2: number, alpha: number, targetPower: number): number {
+    if (p1 === p2) return Infinity;
+    const zAlpha = jStat.normal.inv(1 - alpha / 2, 0, 1);
+    const zBeta = jStat.normal.inv(targetPower, 0, 1);
+    const pooledVariance = (p1 + p2) * (2 - p1 - p2) / 2;
+    const alternativeVariance = p1 * (1 - p1) + p2 * (1 - p2);
+    const n = ((zAlpha * Math.sqrt(pooledVariance) + zBeta * Math.sqrt(alternativeVariance)) / (p1 - p2)) ** 2;
+    return Math.ceil(n);
+}
+
+/**
+ * Power of the overall Chi-square test of a k×2 table with nPerGroup observations in each
+ * group whose true rates are the given ones. The statistic is noncentral Chi-square with
+ * k - 1 df and noncentrality n · Σ (π_i - π̄)² / (π̄ (1 - π̄)).
+ */
+export function chiSquareKx2Power(rates: number[], nPerGroup: number, alpha: number): number {
+    const k = rates.length;
+    if (k < 2 || nPerGroup <= 0) return 0;
+    const meanRate = rates.reduce((sum, p) => sum + p, 0) / k;
+    if (meanRate <= 0 || meanRate >= 1) return alpha;
+    const noncentrality = nPerGroup * rates.reduce((sum, p) => sum + (p - meanRate) ** 2, 0) / (meanRate * (1 - meanRate));
+    const df = k - 1;
+    const critical = jStat.chisquare.inv(1 - alpha, df);
+    return 1 - noncentralChiSquareCdf(critical, df, noncentrality);
+}
+
+/**
+ * Smallest number of observations per group for which the overall Chi-square test reaches the
+ * target power. Infinity when the rates are equal or the requirement exceeds the search limit.
+ */
+export function chiSquareKx2SampleSize(rates: number[], alpha: number, targetPower: number): number {
+    if (rates.every(p => p === rates[0])) return Infinity;
+    let low = 1, high = 2;
+    while (chiSquareKx2Power(rates, high, alpha) < targetPower) {
+        if (high >= MAX_PLANNED_SAMPLE_SIZE) return Infinity;
+        low = high;
+        high *= 2;
+    }
+    while (high - low > 1) {
+        const mid = Math.floor((low + high) / 2);
+        if (chiSquareKx2Power(rates, mid, alpha) < targetPower) low = mid; else high = mid;
+    }
+    return chiSquareKx2Power(rates, low, alpha) >= targetPower ? low : high;
+}
+
+/**
+ * Applies the target effect to a baseline rate.
+ */
+function shiftRate(baselineRate: number, effect: TargetEffect): number {
+    return effect.type === 'difference' ? baselineRate + effect.value / 100 : baselineRate * effect.value;
+}
+
+/**
+ * Power and sample size planning for a disparity study. Each group in turn is shifted from its
+ * baseline rate by the target effect: the pairwise requirement is the sample per group needed
+ * to detect that shift with a two-proportion test at the corrected per-comparison alpha, and the
+ * overall requirement is for the k×2 test with that group shifted and the others at baseline.
+ * The plan is driven by the least favourable group.
+ */
+export function performPowerPlan(inputs: PowerPlanInputs): PowerPlanResults {
+    const { alpha, correction = 'bonferroni', targetPower = 0.8, groups, targetEffect, sampleSizePerGroup } = inputs;
+    const errors: string[] = [];
+    const numGroups = groups.length;
+    const numComparisons = numGroups >= 2 ? numGroups * (numGroups - 1) / 2 : 0;
+
+    if (numGroups < 2) {
+        errors.push("At least two groups are required for planning.");
+    }
+    if (alpha <= 0 || alpha > 1) {
+        errors.push("Significance level (alpha) must be greater than 0 and less than or equal to 1.");
+    }
+    if (!(targetPower > 0 && targetPower < 1)) {
+        errors.push("Target power must be between 0 and 1 (exclusive).");
+    }
+    if (sampleSizePerGroup !== undefined && (!Number.isInteger(sampleSizePerGroup) || sampleSizePerGroup <= 0)) {
+        errors.push("Sample size per group must be a positive integer.");
+    }
+    if (!isFinite(targetEffect.value) || (targetEffect.type === 'difference' ? targetEffect.value === 0 : targetEffect.value <= 0 || targetEffect.value === 1)) {
+        errors.push("Target effect must be a non-zero difference or a positive ratio other than 1.");
+    }
+    groups.forEach(group => {
+        if (!(group.baselineRate > 0 && group.baselineRate < 1)) {
+            errors.push(`Baseline rate for group "${group.name}" must be between 0% and 100% (exclusive).`);
+        } else {
+            const shifted = shiftRate(group.baselineRate, targetEffect);
+            if (!(shifted > 0 && shifted < 1)) {
+                errors.push(`The target effect moves the rate of group "${group.name}" outside 0% to 100%.`);
+            }
+        }
+    });
+
+    const planningAlpha = planningComparisonAlpha(alpha, numComparisons, correction);
+    if (errors.length > 0) {
+        return {
+            numComparisons, planningAlpha, targetPower, groups: [],
+            pairwiseRequiredPerGroup: NaN, overallRequiredPerGroup: NaN,
+            pairwisePower: null, overallPower: null, powerCurve: [], errors,
+        };
+    }
+
+    const baselineRates = groups.map(g => g.baselineRate);
+    const groupResults: PowerPlanGroupResult[] = groups.map((group, index) => {
+        const shiftedRate = shiftRate(group.baselineRate, targetEffect);
+        const scenario = baselineRates.map((p, i) => (i === index ? shiftedRate : p));
+        return {
+            group: group.name,
+            baselineRate: group.baselineRate,
+            shiftedRate,
+            pairwiseRequiredPerGroup: twoProportionSampleSize(group.baselineRate, shiftedRate, planningAlpha, targetPower),
+            pairwisePower: sampleSizePerGroup !== undefined ? twoProportionPower(group.baselineRate, shiftedRate, sampleSizePerGroup, planningAlpha) : null,
+            overallRequiredPerGroup: chiSquareKx2SampleSize(scenario, alpha, targetPower),
+            overallPower: sampleSizePerGroup !== undefined ? chiSquareKx2Power(scenario, sampleSizePerGroup, alpha) : null,
+        };
+    });
+
+    if (groupResults.some(g => !isFinite(g.overallRequiredPerGroup))) {
+        errors.push("Warning: For at least one group the overall test cannot reach the target power within 100,000,000 per group.");
+    }
+
+    // Curve range covers the larger requirement (and the given sample) with some headroom
+    const finiteRequirements = groupResults
+        .flatMap(g => [g.pairwiseRequiredPerGroup, g.overallRequiredPerGroup])
+        .filter(n => isFinite(n));
+    const curveMax = Math.max(10, Math.ceil(1.25 * Math.max(sampleSizePerGroup ?? 0, ...finiteRequirements)));
+    const powerCurve: PowerPlanResults['powerCurve'] = [];
+    for (let step = 1; step <= POWER_CURVE_POINTS; step++) {
+        const n = Math.max(1, Math.round(curveMax * step / POWER_CURVE_POINTS));
+        powerCurve.push({
+            sampleSizePerGroup: n,
+            pairwisePower: Math.min(...groups.map(g => twoProportionPower(g.baselineRate, shiftRate(g.baselineRate, targetEffect), n, planningAlpha))),
+            overallPower: Math.min(...groups.map((_, index) => chiSquareKx2Power(
+                baselineRates.map((p, i) => (i === index ? shiftRate(p, targetEffect) : p)), n, alpha))),
+        });
+    }
+
+    return {
+        numComparisons,
+        planningAlpha,
+        targetPower,
+        groups: groupResults,
+        pairwiseRequiredPerGroup: Math.max(...groupResults.map(g => g.pairwiseRequiredPerGroup)),
+        overallRequiredPerGroup: Math.max(...groupResults.map(g => g.overallRequiredPerGroup)),
+        pairwisePower: sampleSizePerGroup !== undefined ? Math.min(...groupResults.map(g => g.pairwisePower as number)) : null,
+        overallPower: sampleSizePerGroup !== undefined ? Math.min(...groupResults.map(g => g.overallPower as number)) : null,
+        powerCurve,
+        errors,
+    };
+}
+
 /**
  * Formats a number into scientific notation with a specified number of significant digits.
  * e.g., formatScientific(0.00012345, 3) => "1.23E-4"
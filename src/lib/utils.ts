@@ -2,17 +2,41 @@
 
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
-import type { MultiComparisonResults } from "./calculations";
-import { formatScientific, formatDecimal, formatPercent } from "./calculations";
+import type { MultiComparisonResults, MultiPeriodResults, PairwiseTestMethod, FisherAlternative, CorrectionMethod, RateCiMethod, EffectEstimate, BootstrapInterval } from "./calculations";
+import { SUPPRESSED_MARKER, formatScientific, formatDecimal, formatPercent, pairwiseTestLabel, correctionLabel, rateCiMethodLabel, adverseImpactVerdictLabel, effectMagnitudeLabel, equivalenceVerdictLabel, utilizationVerdictLabel } from "./calculations";
 
 // Define the type expected by exportToCSV for the input part.
 export interface ExportFormValues {
   reportTitle?: string;
   alpha: number;
+  pairwiseMethod?: PairwiseTestMethod;
+  fisherAlternative?: FisherAlternative;
+  correction?: CorrectionMethod;
+  confidenceLevel?: number;
+  rateCiMethod?: RateCiMethod;
+  haldaneCorrection?: boolean;
+  adverseImpactEnabled?: boolean;
+  bayesianEnabled?: boolean;
+  bootstrapEnabled?: boolean;
+  equivalenceEnabled?: boolean;
+  utilizationEnabled?: boolean;
+  parityGapEnabled?: boolean;
+  orderedCategories?: boolean;
+  differenceOfInterest?: number;
+  fragilityThreshold?: number;
+  strata?: string[]; // Stratum names, empty unless counts were entered by stratum
+  outcomeLabels?: string[]; // Outcome level labels, empty for a binary outcome
+  exactOverallTest?: boolean;
+  monteCarloReplicates?: number;
   groups: {
     name: string;
     experienced: number;
     total: number;
+    isReference?: boolean;
+    score?: number;
+    benchmark?: number;
+    strata?: { experienced: number; total: number }[];
+    outcomeCounts?: number[];
   }[];
 }
 
@@ -21,6 +45,51 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+/**
+ * Parses CSV text into rows of fields. Handles quoted fields with embedded commas, quotes ("")
+ * and line breaks, CRLF line endings and a leading byte order mark. Blank lines are skipped.
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
 // Helper function to safely escape CSV fields
 function escapeCSV(field: string | number | null | undefined): string {
     if (field === null || field === undefined) {
@@ -33,11 +102,34 @@ function escapeCSV(field: string | number | null | undefined): string {
     return stringField;
 }
 
-// Updated function to convert MultiComparisonResults to CSV string and trigger download
+// Expands an effect estimate into estimate, CI lower and CI upper CSV fields
+function bootstrapFields(interval: BootstrapInterval, decimalPlaces: number = 3): string[] {
+    return [
+        escapeCSV(formatDecimal(interval.estimate, decimalPlaces)),
+        escapeCSV(formatDecimal(interval.standardError, decimalPlaces)),
+        escapeCSV(formatDecimal(interval.percentile?.lower, decimalPlaces)),
+        escapeCSV(formatDecimal(interval.percentile?.upper, decimalPlaces)),
+        escapeCSV(formatDecimal(interval.bca?.lower, decimalPlaces)),
+        escapeCSV(formatDecimal(interval.bca?.upper, decimalPlaces)),
+        escapeCSV(interval.validReplicates),
+    ];
+}
+
+function effectFields(effect: EffectEstimate, decimalPlaces: number = 3): string[] {
+    return [
+        escapeCSV(formatDecimal(effect.estimate, decimalPlaces)),
+        escapeCSV(formatDecimal(effect.ci?.lower, decimalPlaces)),
+        escapeCSV(formatDecimal(effect.ci?.upper, decimalPlaces)),
+    ];
+}
+
+// Updated function to convert MultiComparisonResults to CSV string and trigger download.
+// With multiPeriod, reportData is the period shown in the report and the per-period tables are appended in long format.
 export function exportToCSV(
     reportData: MultiComparisonResults | null,
     inputData: ExportFormValues,
-    filename: string = 'statistical-report.csv'
+    filename: string = 'statistical-report.csv',
+    multiPeriod: MultiPeriodResults | null = null
 ) {
   if (!reportData) {
       throw new Error("No report data available to export.");
@@ -45,6 +137,12 @@ export function exportToCSV(
 
   const csvRows: string[] = [];
   const groupNames = reportData.contingencySummary?.map(g => g.name) ?? [];
+  // Publication mode: suppressed counts, and the statistics withheld with them, are written as the marker
+  const suppression = reportData.suppression;
+  const withheldOr = (withheld: boolean, field: string) => (withheld ? SUPPRESSED_MARKER : field);
+  const isWithheldGroup = (...names: string[]) => !!suppression && names.some(name => suppression.withheldGroups.includes(name));
+  // A differentially private release exports the released counts, never the ones entered
+  const privacy = reportData.privacy;
 
   // --- Report Title Section ---
   if (inputData.reportTitle) {
@@ -55,17 +153,82 @@ export function exportToCSV(
   // --- Input Parameters Section ---
   csvRows.push("Input Parameters");
   csvRows.push(`Significance Level (α),${escapeCSV(inputData.alpha)}`);
+  csvRows.push(`Pairwise Test,${escapeCSV(inputData.pairwiseMethod ?? 'chiSquare')}`);
+  if (inputData.pairwiseMethod === 'fisher') {
+    csvRows.push(`Fisher Alternative,${escapeCSV(inputData.fisherAlternative ?? 'two-sided')}`);
+  }
+  csvRows.push(`Multiple Comparison Correction,${escapeCSV(correctionLabel(inputData.correction ?? 'bonferroni'))}`);
+  csvRows.push(`Confidence Level,${escapeCSV(inputData.confidenceLevel ?? 0.95)}`);
+  csvRows.push(`Rate Confidence Interval Method,${escapeCSV(rateCiMethodLabel(inputData.rateCiMethod ?? 'wilson'))}`);
+  csvRows.push(`Haldane-Anscombe Zero-Cell Correction,${inputData.haldaneCorrection ? 'Yes' : 'No'}`);
+  csvRows.push(`Adverse Impact Analysis,${inputData.adverseImpactEnabled ? 'Yes' : 'No'}`);
+  csvRows.push(`Bayesian Comparison,${inputData.bayesianEnabled ? 'Yes' : 'No'}`);
+  csvRows.push(`Equivalence Tests (TOST),${inputData.equivalenceEnabled ? 'Yes' : 'No'}`);
+  csvRows.push(`Bootstrap Intervals,${inputData.bootstrapEnabled ? 'Yes' : 'No'}`);
+  csvRows.push(`Utilization Against Benchmarks,${inputData.utilizationEnabled ? 'Yes' : 'No'}`);
+  csvRows.push(`Parity Gap Analysis,${inputData.parityGapEnabled ? 'Yes' : 'No'}`);
+  csvRows.push(`Difference of Interest (pp),${escapeCSV(inputData.differenceOfInterest ?? 5)}`);
+  csvRows.push(`Fragility Threshold,${escapeCSV(inputData.fragilityThreshold ?? 5)}`);
+  csvRows.push(`Ordered Categories (Trend Test),${inputData.orderedCategories ? 'Yes' : 'No'}`);
+  csvRows.push(`Exact Overall Test,${inputData.exactOverallTest ? 'Yes' : 'No'}`);
+  csvRows.push(`Monte Carlo Replicates,${escapeCSV(inputData.monteCarloReplicates ?? 0)}`);
+  csvRows.push(`Publication Mode (Small-Cell Suppression),${suppression ? 'Yes' : 'No'}`);
+  if (suppression) {
+    csvRows.push(`Suppression Threshold,${escapeCSV(suppression.threshold)}`);
+  }
+  csvRows.push(`Differential Privacy Release,${privacy ? 'Yes' : 'No'}`);
+  if (privacy) {
+    csvRows.push(`Privacy Mechanism,Two-sided geometric noise on each count (scale 1/ε); negative counts released as zero`);
+    csvRows.push(`Privacy Budget (ε),${escapeCSV(privacy.epsilon)}`);
+    csvRows.push(`Privacy Seed (Confidential: reveals the noise),${escapeCSV(privacy.seed)}`);
+  }
+  if (reportData.overallStats?.monteCarlo) {
+    // The seed actually used, even when it was generated rather than entered
+    csvRows.push(`Monte Carlo Seed,${escapeCSV(reportData.overallStats.monteCarlo.seed)}`);
+  }
   csvRows.push(""); // Blank row
 
   // --- Categories Input Section ---
   csvRows.push("Input Categories (Groups)");
-  csvRows.push("Category Name,# Experienced,# Total,# Did Not Experience (Calculated)");
-  inputData.groups.forEach(group => {
-    const notExperienced = group.total - group.experienced;
-    csvRows.push(`${escapeCSV(group.name)},${escapeCSV(group.experienced)},${escapeCSV(group.total)},${escapeCSV(notExperienced)}`);
+  csvRows.push(`Category Name,# Experienced,# Total,# Did Not Experience (Calculated),Reference${inputData.orderedCategories ? ',Trend Score' : ''}${inputData.utilizationEnabled ? ',Benchmark' : ''}`);
+  inputData.groups.forEach((group, index) => {
+    const released = privacy ? reportData.contingencySummary.find(g => g.name === group.name) : undefined;
+    const experienced = privacy ? released?.experienced ?? NaN : group.experienced;
+    const total = privacy ? released?.rowTotal ?? NaN : group.total;
+    const notExperienced = total - experienced;
+    const suppressed = suppression?.groups[group.name];
+    const scoreField = inputData.orderedCategories ? `,${escapeCSV(group.score ?? index + 1)}` : '';
+    const benchmarkField = inputData.utilizationEnabled ? `,${escapeCSV(group.benchmark)}` : '';
+    const countFields = [
+      withheldOr(!!suppressed?.experienced, escapeCSV(experienced)),
+      withheldOr(!!suppressed?.total, escapeCSV(total)),
+      withheldOr(!!suppressed?.notExperienced, escapeCSV(notExperienced)),
+    ];
+    csvRows.push(`${escapeCSV(group.name)},${countFields.join(',')},${group.isReference ? 'Yes' : 'No'}${scoreField}${benchmarkField}`);
   });
   csvRows.push(""); // Blank row
 
+  if (inputData.outcomeLabels && inputData.outcomeLabels.length > 0 && !suppression && !privacy) {
+    const labels = inputData.outcomeLabels;
+    csvRows.push("Input Counts by Outcome Level");
+    csvRows.push(`Category Name,${labels.map(label => escapeCSV(label)).join(',')}`);
+    inputData.groups.forEach(group => {
+      csvRows.push(`${escapeCSV(group.name)},${labels.map((_, i) => escapeCSV(group.outcomeCounts?.[i])).join(',')}`);
+    });
+    csvRows.push(""); // Blank row
+  }
+
+  if (inputData.strata && inputData.strata.length > 0 && !suppression && !privacy) {
+    const strataNames = inputData.strata;
+    csvRows.push("Input Counts by Stratum");
+    csvRows.push(`Category Name,${strataNames.map(name => `${escapeCSV(`${name} # Experienced`)},${escapeCSV(`${name} # Total`)}`).join(',')}`);
+    inputData.groups.forEach(group => {
+      const counts = strataNames.map((_, i) => group.strata?.[i]);
+      csvRows.push(`${escapeCSV(group.name)},${counts.map(c => `${escapeCSV(c?.experienced)},${escapeCSV(c?.total)}`).join(',')}`);
+    });
+    csvRows.push(""); // Blank row
+  }
+
   // --- Contingency Table Summary Section ---
   if (reportData.contingencySummary && reportData.contingencySummary.length > 0 && reportData.totals) {
     csvRows.push("Contingency Table Summary");
@@ -75,42 +238,135 @@ export function exportToCSV(
       "Observed: # Experienced",
       "Observed: Row Subtotal",
       "% Experienced",
+      "% Experienced: CI Lower",
+      "% Experienced: CI Upper",
       "Expected: # Did NOT Experience",
       "Expected: # Experienced",
-      "Chi-Sq Contribution",
+      "Chi-Sq Contribution: Did NOT Experience",
+      "Chi-Sq Contribution: Experienced",
+      "Chi-Sq Contribution: Row Subtotal",
+      "Pearson Residual (Did NOT Experience)",
+      "Pearson Residual (Experienced)",
+      "Adjusted Residual (Did NOT Experience)",
+      "Adjusted Residual (Did NOT Experience): Raw P-Value",
+      "Adjusted Residual (Did NOT Experience): Adjusted P-Value",
+      "Adjusted Residual (Did NOT Experience): Significant",
+      "Adjusted Residual (Experienced)",
+      "Adjusted Residual (Experienced): Raw P-Value",
+      "Adjusted Residual (Experienced): Adjusted P-Value",
+      "Adjusted Residual (Experienced): Significant",
     ];
     csvRows.push(summaryHeaders.join(','));
 
     reportData.contingencySummary.forEach(row => {
+      const suppressed = suppression?.groups[row.name];
+      const rowWithheld = isWithheldGroup(row.name);
+      const residualsWithheld = rowWithheld || !!suppression?.expectedWithheld;
       const values = [
         escapeCSV(row.name),
-        escapeCSV(row.notExperienced),
-        escapeCSV(row.experienced),
-        escapeCSV(row.rowTotal),
-        escapeCSV(formatPercent(row.percentExperienced)),
-        escapeCSV(formatDecimal(row.expectedNotExperienced, 1)),
-        escapeCSV(formatDecimal(row.expectedExperienced, 1)),
-        escapeCSV(formatDecimal(row.chiSquareContribution, 3)),
+        withheldOr(!!suppressed?.notExperienced, escapeCSV(row.notExperienced)),
+        withheldOr(!!suppressed?.experienced, escapeCSV(row.experienced)),
+        withheldOr(!!suppressed?.total, escapeCSV(row.rowTotal)),
+        ...[
+          formatPercent(row.percentExperienced),
+          formatPercent(row.percentExperiencedCI?.lower),
+          formatPercent(row.percentExperiencedCI?.upper),
+        ].map(field => withheldOr(rowWithheld, escapeCSV(field))),
+        ...[
+          formatDecimal(row.expectedNotExperienced, 1),
+          formatDecimal(row.expectedExperienced, 1),
+          formatDecimal(row.chiSquareContributionNotExperienced, 3),
+          formatDecimal(row.chiSquareContributionExperienced, 3),
+          formatDecimal(row.chiSquareContribution, 3),
+          formatDecimal(row.pearsonResidualNotExperienced, 3),
+          formatDecimal(row.pearsonResidual, 3),
+          formatDecimal(row.adjustedResidualNotExperienced, 3),
+          formatScientific(row.adjustedResidualNotExperiencedPValue, 3),
+          formatScientific(row.adjustedResidualNotExperiencedPValueCorrected, 3),
+          row.adjustedResidualNotExperienced === null ? 'N/A' : row.adjustedResidualNotExperiencedSignificant ? 'Yes' : 'No',
+          formatDecimal(row.adjustedResidual, 3),
+          formatScientific(row.adjustedResidualPValue, 3),
+          formatScientific(row.adjustedResidualPValueCorrected, 3),
+          row.adjustedResidual === null ? 'N/A' : row.adjustedResidualSignificant ? 'Yes' : 'No',
+        ].map(field => withheldOr(residualsWithheld, escapeCSV(field))),
       ];
       csvRows.push(values.join(','));
     });
 
      const totals = reportData.totals;
+     const rateWithheld = !!suppression?.totals.experienced || !!suppression?.totals.total;
+     const contributionsWithheld = isWithheldGroup(...groupNames);
      const totalRow = [
         escapeCSV("Column Subtotal"),
-        escapeCSV(totals.totalNotExperienced),
-        escapeCSV(totals.totalExperienced),
-        escapeCSV(totals.grandTotal),
-        escapeCSV(totals.grandTotal > 0 ? formatPercent((totals.totalExperienced / totals.grandTotal) * 100) : 'N/A'),
-        escapeCSV(formatDecimal(totals.totalExpectedNotExperienced, 1)),
-        escapeCSV(formatDecimal(totals.totalExpectedExperienced, 1)),
-        escapeCSV(formatDecimal(totals.totalChiSquareContributions, 3)),
+        withheldOr(!!suppression?.totals.notExperienced, escapeCSV(totals.totalNotExperienced)),
+        withheldOr(!!suppression?.totals.experienced, escapeCSV(totals.totalExperienced)),
+        withheldOr(!!suppression?.totals.total, escapeCSV(totals.grandTotal)),
+        withheldOr(rateWithheld, escapeCSV(totals.grandTotal > 0 ? formatPercent((totals.totalExperienced / totals.grandTotal) * 100) : 'N/A')),
+        withheldOr(rateWithheld, escapeCSV(formatPercent(totals.percentExperiencedCI?.lower))),
+        withheldOr(rateWithheld, escapeCSV(formatPercent(totals.percentExperiencedCI?.upper))),
+        withheldOr(!!suppression?.totals.notExperienced, escapeCSV(formatDecimal(totals.totalExpectedNotExperienced, 1))),
+        withheldOr(!!suppression?.totals.experienced, escapeCSV(formatDecimal(totals.totalExpectedExperienced, 1))),
+        withheldOr(contributionsWithheld, escapeCSV(formatDecimal(totals.totalChiSquareContributionsNotExperienced, 3))),
+        withheldOr(contributionsWithheld, escapeCSV(formatDecimal(totals.totalChiSquareContributionsExperienced, 3))),
+        withheldOr(contributionsWithheld, escapeCSV(formatDecimal(totals.totalChiSquareContributions, 3))),
+        "", "", "", "", "", "", "", "", "", "",
      ];
      csvRows.push(totalRow.join(','));
+    csvRows.push(escapeCSV(`Residuals are (O - E) / √E (Pearson) and Haberman's adjusted residual for each cell; adjusted-residual p-values use the ${correctionLabel(reportData.overallStats?.correction ?? 'bonferroni')} correction across categories within each column`));
+    if (suppression) {
+      csvRows.push(escapeCSV(`${SUPPRESSED_MARKER} Suppressed for publication: a count from 1 to ${suppression.threshold - 1}, a count that would reveal one, or a statistic computed from them`));
+      if (suppression.withheldSections.length > 0) {
+        csvRows.push(`Withheld Sections,${escapeCSV(suppression.withheldSections.join('; '))}`);
+      }
+    }
 
     csvRows.push("");
   }
 
+  // --- Differential Privacy Release Section ---
+  if (privacy) {
+    const level = `${formatDecimal(privacy.confidenceLevel * 100, 0)}%`;
+    csvRows.push("Differential Privacy Release");
+    csvRows.push(`Privacy Budget (ε),${escapeCSV(privacy.epsilon)}`);
+    csvRows.push(`Noise Standard Deviation per Count,${escapeCSV(formatDecimal(privacy.noiseStandardDeviation, 3))}`);
+    csvRows.push(`Noise Margin per Count (${level}),${escapeCSV(`±${privacy.noiseMargin}`)}`);
+    csvRows.push(`Category,Released % Experienced,Sampling SE (pp),Noise SE (pp),${level} CI with Noise: Lower,${level} CI with Noise: Upper,Negative Count Released as Zero`);
+    privacy.groups.forEach(row => {
+      csvRows.push([
+        escapeCSV(row.group),
+        escapeCSV(formatPercent(row.rate)),
+        escapeCSV(formatDecimal(row.samplingStandardError, 3)),
+        escapeCSV(formatDecimal(row.noiseStandardError, 3)),
+        escapeCSV(formatPercent(row.ci?.lower)),
+        escapeCSV(formatPercent(row.ci?.upper)),
+        row.clamped ? 'Yes' : 'No',
+      ].join(','));
+    });
+    if (privacy.pairs.length > 0) {
+      csvRows.push(`Category 1,Category 2,Difference (pp),Sampling SE (pp),Noise SE (pp),${level} CI with Noise: Lower,${level} CI with Noise: Upper,Impact Ratio,Impact Ratio ${level} CI with Noise: Lower,Impact Ratio ${level} CI with Noise: Upper,Raw P-Value with Noise,Adjusted P-Value with Noise,Significant with Noise,Significant in Report`);
+      privacy.pairs.forEach(row => {
+        csvRows.push([
+          escapeCSV(row.group1),
+          escapeCSV(row.group2),
+          escapeCSV(formatDecimal(row.riskDifference, 3)),
+          escapeCSV(formatDecimal(row.samplingStandardError, 3)),
+          escapeCSV(formatDecimal(row.noiseStandardError, 3)),
+          escapeCSV(formatDecimal(row.riskDifferenceCI?.lower, 3)),
+          escapeCSV(formatDecimal(row.riskDifferenceCI?.upper, 3)),
+          escapeCSV(formatDecimal(row.impactRatio, 3)),
+          escapeCSV(formatDecimal(row.impactRatioCI?.lower, 3)),
+          escapeCSV(formatDecimal(row.impactRatioCI?.upper, 3)),
+          escapeCSV(formatScientific(row.pValue, 3)),
+          escapeCSV(formatScientific(row.pValueCorrected, 3)),
+          row.isSignificant ? 'Yes' : 'No',
+          row.reportSignificant ? 'Yes' : 'No',
+        ].join(','));
+      });
+    }
+    csvRows.push("All statistics in this report are computed from the released counts; the tests treat them as exact. The pairwise rows above add the noise to the errors of the differences and impact ratios.");
+    csvRows.push("");
+  }
+
   // --- Overall Test Statistics Section ---
   if (reportData.overallStats) {
     const stats = reportData.overallStats;
@@ -119,13 +375,16 @@ export function exportToCSV(
     csvRows.push(`Limit (Significance Level α),${escapeCSV(formatDecimal(alpha, 4))}`);
     csvRows.push(`Degrees of Freedom,${escapeCSV(stats.degreesOfFreedom)}`);
     csvRows.push(`# of Pairwise Comparisons,${escapeCSV(stats.numComparisons)}`);
-     let correctedAlphaNum = NaN;
-     if (stats.numComparisons > 0) {
-        correctedAlphaNum = alpha / stats.numComparisons;
-        csvRows.push(`Bonferroni Corrected Alpha (α_bonf),${escapeCSV(formatScientific(correctedAlphaNum, 3))}`);
-     } else {
-        csvRows.push(`Bonferroni Corrected Alpha (α_bonf),N/A`);
-     }
+    csvRows.push(`Correction,${escapeCSV(correctionLabel(stats.correction))}`);
+    csvRows.push(`Per-Comparison Alpha,${escapeCSV(stats.perComparisonAlpha !== null ? formatScientific(stats.perComparisonAlpha, 3) : 'N/A (stepwise)')}`);
+    if (stats.power) {
+      csvRows.push(`Minimum Detectable Difference (pp; 80% Power),${escapeCSV(formatDecimal(stats.power.minimumDetectableDifference, 2))}`);
+      csvRows.push(`Overall Test Underpowered,${stats.power.underpowered ? 'Yes' : 'No'}`);
+    }
+    if (stats.fragilityIndex !== null) {
+      csvRows.push(`Chi-Square Fragility Index,${escapeCSV(stats.fragilityIndex)}`);
+      csvRows.push(`Chi-Square Fragile (Below ${stats.fragilityThreshold}),${stats.fragilityIndex < stats.fragilityThreshold ? 'Yes' : 'No'}`);
+    }
     csvRows.push("");
 
      const getInterpretation = (pValue: number | null | undefined, threshold: number) => {
@@ -135,7 +394,7 @@ export function exportToCSV(
 
     csvRows.push("Test,Statistic,P-Value,Interpretation (vs α)");
     csvRows.push(
-      `Chi-square,${escapeCSV(formatDecimal(stats.chiSquare.statistic))},${escapeCSV(formatScientific(stats.chiSquare.pValue))},"${escapeCSV(getInterpretation(stats.chiSquare.pValue, alpha))}"`
+      `Chi-square,${escapeCSV(formatDecimal(stats.chiSquare.statistic))},${escapeCSV(formatScientific(stats.chiSquare.pValue))},"${escapeCSV(getInterpretation(stats.chiSquare.pValue, alpha) + (stats.power?.underpowered ? ` Underpowered: rate spreads below ${formatDecimal(stats.power.minimumDetectableDifference, 1)} pp could not be reliably detected.` : ''))}"`
     );
      csvRows.push(
        `Chi-square (Yates),${escapeCSV(formatDecimal(stats.chiSquareYates.statistic))},${escapeCSV(formatScientific(stats.chiSquareYates.pValue))},"${escapeCSV(getInterpretation(stats.chiSquareYates.pValue, alpha))}"`
@@ -143,15 +402,62 @@ export function exportToCSV(
     csvRows.push(
       `G-Test,${escapeCSV(formatDecimal(stats.gTest.statistic))},${escapeCSV(formatScientific(stats.gTest.pValue))},"${escapeCSV(getInterpretation(stats.gTest.pValue, alpha))}"`
     );
+    if (stats.exactTest) {
+      csvRows.push(
+        `Exact (Freeman-Halton),N/A,${escapeCSV(formatScientific(stats.exactTest.pValue))},"${escapeCSV(getInterpretation(stats.exactTest.pValue, alpha))}"`
+      );
+    }
+    if (stats.monteCarlo) {
+      csvRows.push(
+        `Monte Carlo (Chi-square),${escapeCSV(formatDecimal(stats.monteCarlo.statistic))},${escapeCSV(formatScientific(stats.monteCarlo.pValue))},"${escapeCSV(getInterpretation(stats.monteCarlo.pValue, alpha))}"`
+      );
+    }
+    if (stats.trendTest) {
+      csvRows.push(
+        `Cochran-Armitage Trend,${escapeCSV(formatDecimal(stats.trendTest.statistic))},${escapeCSV(formatScientific(stats.trendTest.pValue))},"${escapeCSV(getInterpretation(stats.trendTest.pValue, alpha))}"`
+      );
+      csvRows.push(
+        `Linear-by-Linear Association,${escapeCSV(formatDecimal(stats.trendTest.linearByLinear.statistic))},${escapeCSV(formatScientific(stats.trendTest.linearByLinear.pValue))},"${escapeCSV(getInterpretation(stats.trendTest.linearByLinear.pValue, alpha))}"`
+      );
+      if (stats.trendTest.departure) {
+        csvRows.push(
+          `Departure from Linear Trend,${escapeCSV(formatDecimal(stats.trendTest.departure.statistic))},${escapeCSV(formatScientific(stats.trendTest.departure.pValue))},"${escapeCSV(getInterpretation(stats.trendTest.departure.pValue, alpha))}"`
+        );
+      }
+    }
     csvRows.push("");
+    if (stats.trendTest) {
+      csvRows.push(`Trend Test: Z,${escapeCSV(formatDecimal(stats.trendTest.zStatistic))}`);
+      csvRows.push(`Trend Test: Direction,${stats.trendTest.zStatistic >= 0 ? 'Rate rises with score' : 'Rate falls with score'}`);
+      if (stats.trendTest.departure) {
+        csvRows.push(`Departure from Linear Trend: Degrees of Freedom,${escapeCSV(stats.trendTest.departure.degreesOfFreedom)}`);
+      }
+    }
+    if (stats.exactTest) {
+      csvRows.push(`Exact Test: Tables Enumerated,${escapeCSV(stats.exactTest.tablesEnumerated)}`);
+    }
+    if (stats.monteCarlo) {
+      csvRows.push(`Monte Carlo: Replicates,${escapeCSV(stats.monteCarlo.replicates)}`);
+      csvRows.push(`Monte Carlo: Seed,${escapeCSV(stats.monteCarlo.seed)}`);
+      csvRows.push(`Monte Carlo: P-Value Standard Error,${escapeCSV(formatScientific(stats.monteCarlo.standardError))}`);
+    }
+    if (stats.exactTest || stats.monteCarlo || stats.trendTest) {
+      csvRows.push("");
+    }
+    if (stats.effectSize) {
+      csvRows.push("Effect Size,Estimate,CI Lower,CI Upper,Magnitude");
+      csvRows.push(`Cramér's V,${effectFields(stats.effectSize.cramersV).join(',')},${escapeCSV(effectMagnitudeLabel(stats.effectSize.magnitude))}`);
+      csvRows.push(`Cramér's V (Bias-Corrected),${escapeCSV(formatDecimal(stats.effectSize.cramersVCorrected))},,,`);
+      csvRows.push("");
+    }
   }
 
   // --- Pairwise Comparisons Matrix Section ---
   if (reportData.pairwiseResultsMatrix && groupNames.length > 0 && reportData.overallStats && reportData.overallStats.numComparisons > 0) {
-    csvRows.push("P-Values of Pairwise Chi-Square Comparisons with Bonferroni Correction");
-     const correctedAlpha = reportData.overallStats.limitAlpha / reportData.overallStats.numComparisons;
-     csvRows.push(`Bonferroni Corrected Alpha (α_bonf),${escapeCSV(formatScientific(correctedAlpha, 3))}`);
-     csvRows.push("");
+    csvRows.push(`P-Values of Pairwise Comparisons with ${correctionLabel(reportData.overallStats.correction)} Correction`);
+    csvRows.push(`Significance Level (α),${escapeCSV(formatDecimal(reportData.overallStats.limitAlpha, 4))}`);
+    csvRows.push("* Statistically significant (adjusted p < α)");
+    csvRows.push("");
 
 
     const matrixHeader = ["Category", ...groupNames.sort().map(name => escapeCSV(name))];
@@ -164,11 +470,12 @@ export function exportToCSV(
         let formattedPValue = "N/A";
         if (rowName === colName) {
              formattedPValue = "-";
+        } else if (isWithheldGroup(rowName, colName)) {
+             formattedPValue = SUPPRESSED_MARKER;
         } else if (pValue !== null && !isNaN(pValue as number)) {
              formattedPValue = formatScientific(pValue as number, 3);
-             if (pValue < correctedAlpha) {
-                // Optionally mark significant values, e.g., by appending '*' or similar
-                // formattedPValue += " (*)"; // This is just an example for CSV, UI handles coloring
+             if (reportData.pairwiseSignificanceMatrix?.[rowName]?.[colName]) {
+                formattedPValue += "*";
              }
         } else if (isNaN(pValue as number)) {
             formattedPValue = "N/A (Invalid Pair)";
@@ -178,6 +485,508 @@ export function exportToCSV(
       csvRows.push(rowValues.join(','));
     });
     csvRows.push("");
+
+    if (reportData.pairwiseComparisons && reportData.pairwiseComparisons.length > 0) {
+      csvRows.push("Pairwise Comparison Details");
+      csvRows.push([
+        "Category 1", "Category 2", "Test", "Min Expected Count", "Raw P-Value", "Adjusted P-Value", "Significant",
+        "Risk Difference (pp)", "RD CI Lower", "RD CI Upper",
+        "Risk Ratio", "RR CI Lower", "RR CI Upper",
+        "Odds Ratio (Woolf)", "OR Woolf CI Lower", "OR Woolf CI Upper",
+        "Odds Ratio (Exact)", "OR Exact CI Lower", "OR Exact CI Upper",
+        "Phi", "Cohen's h", "Cohen's h Magnitude",
+        "Min Detectable Difference (pp)", "Power at Difference of Interest", "Underpowered",
+        "Haldane-Anscombe Applied", "Fragility Index", "Fragile",
+        "Fragility Index (Category 2 vs 1)", "Fragile (Category 2 vs 1)",
+      ].join(','));
+      reportData.pairwiseComparisons.forEach(pair => {
+        const values = [
+          escapeCSV(pair.group1),
+          escapeCSV(pair.group2),
+          escapeCSV(pairwiseTestLabel(pair.testUsed)),
+          escapeCSV(formatDecimal(pair.minExpected, 1)),
+          escapeCSV(formatScientific(pair.pValueRaw, 3)),
+          escapeCSV(formatScientific(pair.pValueCorrected, 3)),
+          pair.isSignificant ? 'Yes' : 'No',
+          ...effectFields(pair.effectSizes.riskDifference, 2),
+          ...effectFields(pair.effectSizes.riskRatio),
+          ...effectFields(pair.effectSizes.oddsRatio),
+          ...effectFields(pair.effectSizes.oddsRatioExact),
+          escapeCSV(formatDecimal(pair.effectSizes.phi)),
+          escapeCSV(formatDecimal(pair.effectSizes.cohensH)),
+          escapeCSV(effectMagnitudeLabel(pair.effectSizes.cohensHMagnitude)),
+          escapeCSV(formatDecimal(pair.power.minimumDetectableDifference, 2)),
+          escapeCSV(formatPercent(pair.power.powerAtDifferenceOfInterest * 100)),
+          pair.power.underpowered ? 'Yes' : 'No',
+          pair.effectSizes.haldaneApplied ? 'Yes' : 'No',
+          escapeCSV(pair.fragilityIndex ?? '-'),
+          pair.fragilityIndex === null ? '-' : pair.fragilityIndex < (reportData.overallStats?.fragilityThreshold ?? 5) ? 'Yes' : 'No',
+          escapeCSV(pair.fragilityIndexReverse ?? '-'),
+          pair.fragilityIndexReverse === null ? '-' : pair.fragilityIndexReverse < (reportData.overallStats?.fragilityThreshold ?? 5) ? 'Yes' : 'No',
+        ];
+        csvRows.push(values.join(','));
+      });
+      csvRows.push("");
+    }
+  }
+
+  // --- Equivalence Tests (TOST) Section ---
+  if (reportData.equivalence && reportData.equivalence.pairs.length > 0) {
+    const equivalence = reportData.equivalence;
+    const isRatio = equivalence.scale === 'ratio';
+    const decimalPlaces = isRatio ? 3 : 2;
+    csvRows.push("Equivalence Tests (TOST)");
+    csvRows.push(`Method,${isRatio ? 'Two one-sided tests on the log risk ratio (0.5 added to every cell of a pair with a zero cell)' : 'Two one-sided tests on the risk difference (Agresti-Caffo)'}`);
+    csvRows.push(`Equivalence Margin,${escapeCSV(isRatio ? formatDecimal(equivalence.margin, 3) : `±${formatDecimal(equivalence.margin, 2)} pp`)}`);
+    csvRows.push(`Equivalence Range,${escapeCSV(formatDecimal(equivalence.lowerMargin, decimalPlaces))},${escapeCSV(formatDecimal(equivalence.upperMargin, decimalPlaces))}`);
+    csvRows.push(`Correction,${escapeCSV(correctionLabel(reportData.overallStats?.correction ?? 'bonferroni'))}`);
+    csvRows.push("");
+
+    const equivalenceNames = [...groupNames].sort();
+    csvRows.push(["Category", ...equivalenceNames.map(name => escapeCSV(name))].join(','));
+    equivalenceNames.forEach(rowName => {
+      const rowValues = [escapeCSV(rowName)];
+      equivalenceNames.forEach(colName => {
+        const verdict = equivalence.matrix[rowName]?.[colName];
+        rowValues.push(rowName === colName ? '-' : isWithheldGroup(rowName, colName) ? SUPPRESSED_MARKER : verdict ? equivalenceVerdictLabel(verdict) : 'N/A');
+      });
+      csvRows.push(rowValues.join(','));
+    });
+    csvRows.push("");
+
+    const ciLevel = `${formatDecimal((1 - 2 * (reportData.overallStats?.limitAlpha ?? 0.05)) * 100, 0)}%`;
+    csvRows.push(`Group 1,Group 2,${isRatio ? 'Risk Ratio' : 'Risk Difference (pp)'},${ciLevel} CI Lower,${ciLevel} CI Upper,P-Value (Lower Margin),P-Value (Upper Margin),TOST P-Value (Raw),TOST P-Value (Corrected),Beyond-Margin P-Value (Raw),Beyond-Margin P-Value (Corrected),Verdict,Zero-Cell Correction`);
+    equivalence.pairs.forEach(pair => {
+      const values = [
+        escapeCSV(pair.group1),
+        escapeCSV(pair.group2),
+        escapeCSV(formatDecimal(pair.estimate, decimalPlaces)),
+        escapeCSV(formatDecimal(pair.ci.lower, decimalPlaces)),
+        escapeCSV(formatDecimal(pair.ci.upper, decimalPlaces)),
+        escapeCSV(formatScientific(pair.pValueLower, 3)),
+        escapeCSV(formatScientific(pair.pValueUpper, 3)),
+        escapeCSV(formatScientific(pair.pValueEquivalence, 3)),
+        escapeCSV(formatScientific(pair.pValueEquivalenceCorrected, 3)),
+        escapeCSV(formatScientific(pair.pValueDifference, 3)),
+        escapeCSV(formatScientific(pair.pValueDifferenceCorrected, 3)),
+        escapeCSV(equivalenceVerdictLabel(pair.verdict)),
+        pair.zeroCellCorrected ? 'Yes' : 'No',
+      ];
+      csvRows.push(values.join(','));
+    });
+    csvRows.push("");
+  }
+
+  // --- Comparisons to Selected Reference(s) Section ---
+  if (reportData.referenceComparisons && reportData.referenceComparisons.length > 0 && reportData.overallStats) {
+    csvRows.push("Comparisons to Selected Reference(s)");
+    csvRows.push(`Correction,${escapeCSV(correctionLabel(reportData.overallStats.correction))}`);
+    csvRows.push(`# of Reference Comparisons (correction family),${escapeCSV(reportData.referenceComparisons.length + (suppression?.withheldReferenceComparisons ?? 0))}`);
+    csvRows.push("");
+    csvRows.push("Reference,Category,Reference % Experienced,Category % Experienced,Difference (pp),Difference CI Lower,Difference CI Upper,Risk Ratio,RR CI Lower,RR CI Upper,Odds Ratio (Woolf),OR CI Lower,OR CI Upper,Cohen's h,Cohen's h Magnitude,Test,Raw P-Value,Adjusted P-Value,Min Detectable Difference (pp),Underpowered,Interpretation (vs α)");
+    reportData.referenceComparisons.forEach(comparison => {
+      const interpretation = isNaN(comparison.pValueCorrected)
+        ? "N/A"
+        : comparison.isSignificant
+          ? "Statistically different. Potential disparity; pursue further investigation."
+          : comparison.power.underpowered
+            ? `Not statistically different. Underpowered: differences below ${formatDecimal(comparison.power.minimumDetectableDifference, 1)} pp could not be reliably detected.`
+            : "Not statistically different.";
+      const values = [
+        escapeCSV(comparison.referenceGroup),
+        escapeCSV(comparison.comparisonGroup),
+        escapeCSV(formatPercent(comparison.referenceRate)),
+        escapeCSV(formatPercent(comparison.comparisonRate)),
+        ...effectFields(comparison.effectSizes.riskDifference, 2),
+        ...effectFields(comparison.effectSizes.riskRatio),
+        ...effectFields(comparison.effectSizes.oddsRatio),
+        escapeCSV(formatDecimal(comparison.effectSizes.cohensH)),
+        escapeCSV(effectMagnitudeLabel(comparison.effectSizes.cohensHMagnitude)),
+        escapeCSV(pairwiseTestLabel(comparison.testUsed)),
+        escapeCSV(formatScientific(comparison.pValueRaw, 3)),
+        escapeCSV(formatScientific(comparison.pValueCorrected, 3)),
+        escapeCSV(formatDecimal(comparison.power.minimumDetectableDifference, 2)),
+        comparison.power.underpowered ? 'Yes' : 'No',
+        escapeCSV(interpretation),
+      ];
+      csvRows.push(values.join(','));
+    });
+    csvRows.push("");
+  }
+
+  // --- Adverse Impact Analysis Section ---
+  if (reportData.adverseImpact) {
+    const adverseImpact = reportData.adverseImpact;
+    csvRows.push("Adverse Impact Analysis (Four-Fifths Rule)");
+    csvRows.push(`Comparator Group,${escapeCSV(adverseImpact.comparatorGroup)}`);
+    csvRows.push(`Comparator Basis,${adverseImpact.comparatorBasis === 'highestRate' ? 'Highest-rate group' : 'Selected'}`);
+    csvRows.push(`Impact Ratio Threshold,${escapeCSV(formatDecimal(adverseImpact.threshold, 2))}`);
+    csvRows.push("");
+    csvRows.push("Category,Selection Rate,Impact Ratio,Below Threshold,Z (SDs),P-Value,Exceeds 2 SD,Verdict");
+    adverseImpact.groups.forEach(row => {
+      const isComparator = row.verdict === 'comparator';
+      const values = [
+        escapeCSV(row.group),
+        escapeCSV(formatPercent(row.selectionRate)),
+        escapeCSV(formatDecimal(row.impactRatio, 3)),
+        isComparator ? '-' : row.belowThreshold ? 'Yes' : 'No',
+        escapeCSV(isComparator ? '-' : formatDecimal(row.zStatistic, 2)),
+        escapeCSV(isComparator ? '-' : formatScientific(row.pValue, 3)),
+        isComparator ? '-' : row.exceedsTwoSD ? 'Yes' : 'No',
+        escapeCSV(adverseImpactVerdictLabel(row.verdict)),
+      ];
+      csvRows.push(values.join(','));
+    });
+    csvRows.push("");
+  }
+
+  // --- Utilization Against Benchmarks Section ---
+  if (reportData.utilization) {
+    const utilization = reportData.utilization;
+    csvRows.push("Utilization Against Benchmarks");
+    csvRows.push(`Total Outcomes,${escapeCSV(utilization.totalOutcomes)}`);
+    csvRows.push(`Sum of Benchmarks,${escapeCSV(formatDecimal(utilization.benchmarkTotal, 3))}`);
+    csvRows.push(`Goodness-of-Fit Chi-Square,${escapeCSV(formatDecimal(utilization.goodnessOfFit.statistic, 3))}`);
+    csvRows.push(`Goodness-of-Fit df,${utilization.goodnessOfFit.degreesOfFreedom}`);
+    csvRows.push(`Goodness-of-Fit P-Value,${escapeCSV(formatScientific(utilization.goodnessOfFit.pValue, 3))}`);
+    csvRows.push(`Total Shortfall,${escapeCSV(utilization.totalShortfall)}`);
+    csvRows.push("");
+    csvRows.push("Category,Benchmark,Expected Share,Observed Share,Observed,Expected,Shortfall,Z,Z P-Value,Exact P-Value,Exact P-Value (Below Benchmark),Exact P-Value (Corrected),Verdict");
+    utilization.groups.forEach(row => {
+      const values = [
+        escapeCSV(row.group),
+        escapeCSV(formatDecimal(row.benchmark, 4)),
+        escapeCSV(formatPercent(row.expectedShare)),
+        escapeCSV(formatPercent(row.observedShare)),
+        escapeCSV(row.observed),
+        escapeCSV(formatDecimal(row.expected, 2)),
+        escapeCSV(row.shortfall),
+        escapeCSV(formatDecimal(row.zStatistic, 2)),
+        escapeCSV(formatScientific(row.zPValue, 3)),
+        escapeCSV(formatScientific(row.exactPValue, 3)),
+        escapeCSV(formatScientific(row.exactPValueBelow, 3)),
+        escapeCSV(formatScientific(row.exactPValueCorrected, 3)),
+        escapeCSV(utilizationVerdictLabel(row.verdict)),
+      ];
+      csvRows.push(values.join(','));
+    });
+    csvRows.push("");
+  }
+
+  // --- Parity Gap Section ---
+  if (reportData.parityGap) {
+    const parityGap = reportData.parityGap;
+    const totals = parityGap.totals;
+    csvRows.push("Parity Gap (Outcomes Needed to Close Disparities)");
+    csvRows.push(`Overall Rate,${escapeCSV(formatPercent(parityGap.overallRate))}`);
+    csvRows.push("");
+    csvRows.push("Category,Rate,Outcomes to Overall Rate,Adjusted Residual Significant,Changes to Non-Significance");
+    parityGap.groups.forEach(row => {
+      const values = [
+        escapeCSV(row.group),
+        escapeCSV(formatPercent(row.rate)),
+        escapeCSV(row.outcomesToOverallRate),
+        row.isSignificant ? 'Yes' : 'No',
+        escapeCSV(row.changesToNonSignificance ?? '-'),
+      ];
+      csvRows.push(values.join(','));
+    });
+    csvRows.push(`Total Additional Outcomes,,${escapeCSV(totals.additionalToOverallRate)},,${escapeCSV(totals.groupChangesToNonSignificance)}`);
+    csvRows.push(`Total Fewer Outcomes,,${escapeCSV(totals.fewerToOverallRate)},,`);
+    if (parityGap.pairs.length > 0) {
+      csvRows.push("");
+      csvRows.push("Comparison Group,Reference Group,Difference (pp),Outcomes to Reference Rate,Significant,Changes to Non-Significance");
+      parityGap.pairs.forEach(row => {
+        const values = [
+          escapeCSV(row.comparisonGroup),
+          escapeCSV(row.referenceGroup),
+          escapeCSV(formatDecimal(row.rateDifference, 2)),
+          escapeCSV(row.outcomesToReferenceRate),
+          row.isSignificant ? 'Yes' : 'No',
+          escapeCSV(row.changesToNonSignificance ?? '-'),
+        ];
+        csvRows.push(values.join(','));
+      });
+      csvRows.push(`Total Additional Outcomes,,,${escapeCSV(totals.additionalToReferenceRate)},,${escapeCSV(totals.changesToNonSignificance)}`);
+      csvRows.push(`Total Fewer Outcomes,,,${escapeCSV(totals.fewerToReferenceRate)},,`);
+    }
+    csvRows.push("");
+  }
+
+  // --- Outcome Levels (k×m) Section ---
+  if (reportData.outcomeTable) {
+    const outcomeTable = reportData.outcomeTable;
+    csvRows.push(`Outcome Levels (${outcomeTable.rows.length}x${outcomeTable.outcomeLabels.length} Table)`);
+    csvRows.push(`Focus Outcome (Compared in Other Sections),${escapeCSV(outcomeTable.focusOutcome)}`);
+    csvRows.push("Test,Statistic,df,P-Value");
+    csvRows.push(`Chi-Square (Pearson),${escapeCSV(formatDecimal(outcomeTable.chiSquare.statistic, 3))},${outcomeTable.chiSquare.degreesOfFreedom},${escapeCSV(formatScientific(outcomeTable.chiSquare.pValue, 3))}`);
+    csvRows.push(`G-Test (Likelihood Ratio),${escapeCSV(formatDecimal(outcomeTable.gTest.statistic, 3))},${outcomeTable.gTest.degreesOfFreedom},${escapeCSV(formatScientific(outcomeTable.gTest.pValue, 3))}`);
+    if (outcomeTable.effectSize) {
+      csvRows.push(`Cramer's V,${escapeCSV(formatDecimal(outcomeTable.effectSize.cramersV.estimate, 3))},,`);
+    }
+    csvRows.push("");
+    csvRows.push("Category,Outcome Level,Observed,Row %,Expected,Pearson Residual,Adjusted Residual,Adjusted Residual P-Value (Raw),Adjusted Residual P-Value (Corrected),Significant");
+    outcomeTable.rows.forEach(row => {
+      row.cells.forEach((cell, j) => {
+        const values = [
+          escapeCSV(row.group),
+          escapeCSV(outcomeTable.outcomeLabels[j]),
+          escapeCSV(cell.observed),
+          escapeCSV(formatPercent(cell.rowPercent)),
+          escapeCSV(formatDecimal(cell.expected, 2)),
+          escapeCSV(formatDecimal(cell.pearsonResidual, 3)),
+          escapeCSV(formatDecimal(cell.adjustedResidual, 3)),
+          escapeCSV(formatScientific(cell.adjustedResidualPValue, 3)),
+          escapeCSV(formatScientific(cell.adjustedResidualPValueCorrected, 3)),
+          cell.adjustedResidualSignificant ? 'Yes' : 'No',
+        ];
+        csvRows.push(values.join(','));
+      });
+    });
+    csvRows.push("");
+    csvRows.push("Comparison,Type,Chi-Square,df,P-Value (Raw),P-Value (Corrected),Significant");
+    outcomeTable.pairwise.forEach(pair => {
+      csvRows.push([
+        escapeCSV(`${pair.group1} vs ${pair.group2}`), 'Pairwise',
+        escapeCSV(formatDecimal(pair.chiSquare.statistic, 3)), pair.chiSquare.degreesOfFreedom,
+        escapeCSV(formatScientific(pair.chiSquare.pValue, 3)), escapeCSV(formatScientific(pair.pValueCorrected, 3)),
+        pair.isSignificant ? 'Yes' : 'No',
+      ].join(','));
+    });
+    outcomeTable.perOutcome.forEach(level => {
+      csvRows.push([
+        escapeCSV(`${level.outcome} vs rest`), 'Outcome Level',
+        escapeCSV(formatDecimal(level.chiSquare.statistic, 3)), level.chiSquare.degreesOfFreedom,
+        escapeCSV(formatScientific(level.chiSquare.pValue, 3)), escapeCSV(formatScientific(level.pValueCorrected, 3)),
+        level.isSignificant ? 'Yes' : 'No',
+      ].join(','));
+    });
+    csvRows.push("");
+  }
+
+  // --- Bayesian Comparison Section ---
+  if (reportData.bayesian) {
+    const bayesian = reportData.bayesian;
+    const threshold = formatDecimal(bayesian.ratioThreshold, 2);
+    csvRows.push("Bayesian Comparison (Beta-Binomial)");
+    csvRows.push(`Prior,${escapeCSV(`Beta(${bayesian.priorAlpha}, ${bayesian.priorBeta})`)}`);
+    csvRows.push(`Credible Level,${escapeCSV(bayesian.credibleLevel)}`);
+    csvRows.push(`Rate Ratio Threshold,${escapeCSV(threshold)}`);
+    csvRows.push("");
+    csvRows.push("Category,Posterior Alpha,Posterior Beta,Posterior Mean (%),Credible Interval Lower (%),Credible Interval Upper (%)");
+    bayesian.groups.forEach(row => {
+      const values = [
+        escapeCSV(row.group),
+        escapeCSV(row.posteriorAlpha),
+        escapeCSV(row.posteriorBeta),
+        escapeCSV(formatDecimal(row.mean, 2)),
+        escapeCSV(formatDecimal(row.credibleInterval.lower, 2)),
+        escapeCSV(formatDecimal(row.credibleInterval.upper, 2)),
+      ];
+      csvRows.push(values.join(','));
+    });
+    csvRows.push("");
+    csvRows.push(`Group A,Group B,P(Rate A < Rate B),${escapeCSV(`P(A/B < ${threshold})`)},${escapeCSV(`P(B/A < ${threshold})`)}`);
+    bayesian.pairs.forEach(pair => {
+      const values = [
+        escapeCSV(pair.group1),
+        escapeCSV(pair.group2),
+        escapeCSV(formatDecimal(pair.probabilityLower, 4)),
+        escapeCSV(formatDecimal(pair.probabilityRatioBelowThreshold, 4)),
+        escapeCSV(formatDecimal(pair.probabilityInverseRatioBelowThreshold, 4)),
+      ];
+      csvRows.push(values.join(','));
+    });
+    csvRows.push("");
+  }
+
+  // --- Bootstrap Intervals Section ---
+  if (reportData.bootstrap) {
+    const bootstrap = reportData.bootstrap;
+    csvRows.push("Bootstrap Intervals");
+    csvRows.push(`Method,${bootstrap.method === 'nonparametric' ? 'Nonparametric (row-level records resampled)' : 'Parametric (multinomial draws of the table)'}`);
+    csvRows.push(`Replicates,${escapeCSV(bootstrap.replicates)}`);
+    csvRows.push(`Seed,${escapeCSV(bootstrap.seed)}`);
+    csvRows.push(`Confidence Level,${escapeCSV(bootstrap.confidenceLevel)}`);
+    csvRows.push(`Impact Ratio Comparator,${escapeCSV(bootstrap.impactComparator)}`);
+    csvRows.push("");
+    const intervalHeaders = "Estimate,Bootstrap SE,Percentile CI Lower,Percentile CI Upper,BCa CI Lower,BCa CI Upper,Valid Replicates";
+    csvRows.push(`Statistic,Group 1,Group 2,${intervalHeaders}`);
+    bootstrap.impactRatios.forEach(row => {
+      csvRows.push(["Impact Ratio", escapeCSV(row.group), escapeCSV(bootstrap.impactComparator), ...bootstrapFields(row)].join(','));
+    });
+    bootstrap.riskDifferences.forEach(row => {
+      csvRows.push(["Risk Difference (pp)", escapeCSV(row.group1), escapeCSV(row.group2), ...bootstrapFields(row, 2)].join(','));
+    });
+    csvRows.push([escapeCSV("Cramér's V"), "", "", ...bootstrapFields(bootstrap.cramersV)].join(','));
+    csvRows.push("");
+    csvRows.push(`Category,Rank by Rate (1 = Highest),${intervalHeaders.split(',').slice(1).join(',')},P(Highest Rate)`);
+    bootstrap.rankings.forEach(row => {
+      csvRows.push([escapeCSV(row.group), ...bootstrapFields(row, 1), escapeCSV(formatDecimal(row.probabilityHighest, 4))].join(','));
+    });
+    csvRows.push("");
+  }
+
+  // --- Covariate-Adjusted Disparity Section ---
+  if (reportData.adjustedDisparity) {
+    const adjusted = reportData.adjustedDisparity;
+    csvRows.push("Covariate-Adjusted Disparity (Logistic Regression)");
+    csvRows.push(`Reference Group,${escapeCSV(adjusted.referenceGroup)}`);
+    csvRows.push(`Covariates,${escapeCSV(adjusted.covariates.join('; ') || 'None')}`);
+    csvRows.push(`Records Used,${adjusted.recordsUsed}`);
+    csvRows.push(`Records Excluded (Missing Covariates),${adjusted.recordsExcluded}`);
+    csvRows.push(`Converged,${adjusted.converged && !adjusted.separation ? 'Yes' : 'No'}`);
+    csvRows.push("Test,Statistic,df,P-Value");
+    csvRows.push(`Category Effect - Crude (LR),${escapeCSV(formatDecimal(adjusted.crudeGroupTest.statistic, 3))},${adjusted.crudeGroupTest.degreesOfFreedom},${escapeCSV(formatScientific(adjusted.crudeGroupTest.pValue, 3))}`);
+    csvRows.push(`Category Effect - Adjusted (LR),${escapeCSV(formatDecimal(adjusted.adjustedGroupTest.statistic, 3))},${adjusted.adjustedGroupTest.degreesOfFreedom},${escapeCSV(formatScientific(adjusted.adjustedGroupTest.pValue, 3))}`);
+    csvRows.push("");
+    csvRows.push("Category,Crude OR,Crude OR CI Lower,Crude OR CI Upper,Crude Wald P-Value,Adjusted OR,Adjusted OR CI Lower,Adjusted OR CI Upper,Adjusted Wald Z,Adjusted Wald P-Value,LR Chi-Square,LR P-Value (Raw),LR P-Value (Corrected),Significant");
+    adjusted.groups.forEach(row => {
+      const values = [
+        escapeCSV(row.group),
+        ...effectFields(row.crudeOddsRatio),
+        escapeCSV(formatScientific(row.crudeWaldPValue, 3)),
+        ...effectFields(row.adjustedOddsRatio),
+        escapeCSV(formatDecimal(row.adjustedWaldZ, 3)),
+        escapeCSV(formatScientific(row.adjustedWaldPValue, 3)),
+        escapeCSV(formatDecimal(row.likelihoodRatio.statistic, 3)),
+        escapeCSV(formatScientific(row.likelihoodRatio.pValue, 3)),
+        escapeCSV(formatScientific(row.likelihoodRatioPValueCorrected, 3)),
+        row.isSignificant ? 'Yes' : 'No',
+      ];
+      csvRows.push(values.join(','));
+    });
+    if (adjusted.covariateTerms.length > 0) {
+      csvRows.push("");
+      csvRows.push("Covariate Term,Coefficient,Standard Error,OR,OR CI Lower,OR CI Upper,Wald Z,Wald P-Value");
+      adjusted.covariateTerms.forEach(term => {
+        const values = [
+          escapeCSV(term.term),
+          escapeCSV(formatDecimal(term.estimate, 4)),
+          escapeCSV(formatDecimal(term.standardError, 4)),
+          ...effectFields(term.oddsRatio),
+          escapeCSV(formatDecimal(term.waldZ, 3)),
+          escapeCSV(formatScientific(term.waldPValue, 3)),
+        ];
+        csvRows.push(values.join(','));
+      });
+    }
+    csvRows.push("");
+  }
+
+  // --- Stratified Analysis Section ---
+  if (reportData.stratifiedAnalysis) {
+    const stratified = reportData.stratifiedAnalysis;
+    csvRows.push("Stratified Analysis (Cochran-Mantel-Haenszel)");
+    csvRows.push(`Strata,${escapeCSV(stratified.strata.join('; '))}`);
+    csvRows.push("Test,Statistic,df,P-Value");
+    csvRows.push(`Crude Chi-Square (Collapsed Table),${escapeCSV(formatDecimal(stratified.crude.statistic, 3))},${stratified.crude.degreesOfFreedom},${escapeCSV(formatScientific(stratified.crude.pValue, 3))}`);
+    if (stratified.cochranMantelHaenszel) {
+      const cmh = stratified.cochranMantelHaenszel;
+      csvRows.push(`Cochran-Mantel-Haenszel (Adjusted),${escapeCSV(formatDecimal(cmh.statistic, 3))},${cmh.degreesOfFreedom},${escapeCSV(formatScientific(cmh.pValue, 3))}`);
+    }
+    csvRows.push("");
+    csvRows.push("Group 1,Group 2,Crude OR,Crude OR CI Lower,Crude OR CI Upper,MH OR,MH OR CI Lower,MH OR CI Upper,MH Chi-Square,MH P-Value (Raw),MH P-Value (Corrected),Significant,Breslow-Day Chi-Square,Breslow-Day df,Breslow-Day P-Value,Direction Reversed");
+    stratified.pairs.forEach(pair => {
+      const values = [
+        escapeCSV(pair.group1),
+        escapeCSV(pair.group2),
+        ...effectFields(pair.crudeOddsRatio),
+        ...effectFields(pair.mantelHaenszelOddsRatio),
+        escapeCSV(formatDecimal(pair.mantelHaenszelTest.statistic, 3)),
+        escapeCSV(formatScientific(pair.mantelHaenszelTest.pValue, 3)),
+        escapeCSV(formatScientific(pair.mantelHaenszelTest.pValueCorrected, 3)),
+        pair.mantelHaenszelTest.isSignificant ? 'Yes' : 'No',
+        escapeCSV(pair.breslowDay ? formatDecimal(pair.breslowDay.statistic, 3) : 'N/A'),
+        escapeCSV(pair.breslowDay?.degreesOfFreedom ?? 'N/A'),
+        escapeCSV(pair.breslowDay ? formatScientific(pair.breslowDay.pValue, 3) : 'N/A'),
+        pair.directionReversed ? 'Yes' : 'No',
+      ];
+      csvRows.push(values.join(','));
+    });
+    csvRows.push("");
+  }
+
+  // --- Multi-Period Sections (long format, one row per period and category or pair) ---
+  if (multiPeriod && multiPeriod.periods.length > 0) {
+    csvRows.push("Rates by Period");
+    csvRows.push("Period,Category,# Experienced,Total,% Experienced,% Experienced: CI Lower,% Experienced: CI Upper,Adjusted Residual (Experienced),Adjusted Residual: Adjusted P-Value");
+    multiPeriod.periods.forEach(period => {
+      period.results.contingencySummary.forEach(row => {
+        const values = [
+          escapeCSV(period.name),
+          escapeCSV(row.name),
+          escapeCSV(row.experienced),
+          escapeCSV(row.rowTotal),
+          escapeCSV(formatPercent(row.percentExperienced)),
+          escapeCSV(formatPercent(row.percentExperiencedCI?.lower)),
+          escapeCSV(formatPercent(row.percentExperiencedCI?.upper)),
+          escapeCSV(formatDecimal(row.adjustedResidual, 3)),
+          escapeCSV(formatScientific(row.adjustedResidualPValueCorrected, 3)),
+        ];
+        csvRows.push(values.join(','));
+      });
+    });
+    csvRows.push("");
+
+    csvRows.push("Overall Tests by Period");
+    csvRows.push("Period,Chi-Square,df,P-Value,Cramér's V,Significant");
+    multiPeriod.periods.forEach(period => {
+      const stats = period.results.overallStats;
+      const values = [
+        escapeCSV(period.name),
+        escapeCSV(stats ? formatDecimal(stats.chiSquare.statistic) : 'N/A'),
+        escapeCSV(stats?.degreesOfFreedom ?? 'N/A'),
+        escapeCSV(stats ? formatScientific(stats.chiSquare.pValue) : 'N/A'),
+        escapeCSV(stats?.effectSize ? formatDecimal(stats.effectSize.cramersV.estimate) : 'N/A'),
+        stats ? (stats.chiSquare.pValue < stats.limitAlpha ? 'Yes' : 'No') : 'N/A',
+      ];
+      csvRows.push(values.join(','));
+    });
+    csvRows.push("");
+
+    csvRows.push("Pairwise Comparisons by Period");
+    csvRows.push("Period,Group 1,Group 2,Test,P-Value (Raw),P-Value (Corrected),Significant,Rate Difference (pp)");
+    multiPeriod.periods.forEach(period => {
+      (period.results.pairwiseComparisons ?? []).forEach(pair => {
+        const values = [
+          escapeCSV(period.name),
+          escapeCSV(pair.group1),
+          escapeCSV(pair.group2),
+          escapeCSV(pairwiseTestLabel(pair.testUsed)),
+          escapeCSV(formatScientific(pair.pValueRaw, 3)),
+          escapeCSV(formatScientific(pair.pValueCorrected, 3)),
+          pair.isSignificant ? 'Yes' : 'No',
+          escapeCSV(formatDecimal(pair.effectSizes.riskDifference.estimate, 2)),
+        ];
+        csvRows.push(values.join(','));
+      });
+    });
+    csvRows.push("");
+
+    if (multiPeriod.trend && multiPeriod.trend.changes.length > 0) {
+      csvRows.push("Change in Disparity Between Periods");
+      csvRows.push("Category,Comparator,From Period,To Period,Rate Ratio (From),Rate Ratio (To),Change in Rate Ratio,Change in Rate Ratio: CI Lower,Change in Rate Ratio: CI Upper,Difference in Differences (pp),DiD: CI Lower,DiD: CI Upper,Z,P-Value (Raw),P-Value (Corrected),Significant");
+      multiPeriod.trend.changes.forEach(change => {
+        const values = [
+          escapeCSV(change.group),
+          escapeCSV(change.comparator),
+          escapeCSV(change.fromPeriod),
+          escapeCSV(change.toPeriod),
+          escapeCSV(formatDecimal(change.rateRatioFrom, 3)),
+          escapeCSV(formatDecimal(change.rateRatioTo, 3)),
+          ...effectFields(change.rateRatioChange),
+          ...effectFields(change.differenceInDifferences, 2),
+          escapeCSV(formatDecimal(change.zStatistic, 3)),
+          escapeCSV(formatScientific(change.pValue, 3)),
+          escapeCSV(formatScientific(change.pValueCorrected, 3)),
+          change.isSignificant ? 'Yes' : 'No',
+        ];
+        csvRows.push(values.join(','));
+      });
+      csvRows.push(escapeCSV(`Difference in differences is the change in (category rate - comparator rate); p-values use the ${correctionLabel(reportData.overallStats?.correction ?? 'bonferroni')} correction across all changes`));
+      csvRows.push("");
+    }
   }
 
     if (reportData.errors && reportData.errors.length > 0) {